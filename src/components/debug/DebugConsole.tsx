@@ -8,7 +8,11 @@ const levelLabels: Record<DebugLogLevel, string> = {
   info: "Info",
   request: "Request",
   response: "Response",
+  cache: "Cache",
+  retry: "Retry",
+  failover: "Failover",
   error: "Error",
+  cancelled: "Cancelled",
 };
 
 export function DebugConsole() {
@@ -0,0 +1,136 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { useProviderRegistry } from "../../context/ProviderContext";
+import { formatCost } from "../../lib/pricing";
+import {
+  BudgetMode,
+  BudgetScope,
+  getBudgetCaps,
+  getUsageEntries,
+  setBudgetCap,
+  spendThisMonth,
+  spendToday,
+  subscribeToUsage,
+} from "../../lib/usageLedger";
+
+interface CapDraft {
+  daily: string;
+  monthly: string;
+  mode: BudgetMode;
+}
+
+function loadDraft(scope: BudgetScope): CapDraft {
+  const cap = getBudgetCaps()[scope];
+  return {
+    daily: cap?.daily != null ? String(cap.daily) : "",
+    monthly: cap?.monthly != null ? String(cap.monthly) : "",
+    mode: cap?.mode ?? "warn",
+  };
+}
+
+/** Blank means no cap for that period. */
+function parseLimit(value: string) {
+  if (!value.trim()) return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : NaN;
+}
+
+export function BudgetSettings() {
+  const { providers } = useProviderRegistry();
+  // Re-render as spend is recorded so the "spent so far" line stays current.
+  useSyncExternalStore(subscribeToUsage, getUsageEntries);
+  const [scope, setScope] = useState<BudgetScope>("all");
+  const [draft, setDraft] = useState<CapDraft>(() => loadDraft("all"));
+  const [status, setStatus] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const hasCap = Boolean(getBudgetCaps()[scope]);
+
+  useEffect(() => {
+    setDraft(loadDraft(scope));
+    setStatus(null);
+  }, [scope]);
+
+  const handleSave = () => {
+    const daily = parseLimit(draft.daily);
+    const monthly = parseLimit(draft.monthly);
+    if (Number.isNaN(daily) || Number.isNaN(monthly)) {
+      setStatus({ type: "error", text: "Caps must be positive amounts in USD, or blank for no cap." });
+      return;
+    }
+    if (daily === null && monthly === null) {
+      setStatus({ type: "error", text: "Set a daily or monthly cap, or use Remove caps." });
+      return;
+    }
+    setBudgetCap(scope, { daily, monthly, mode: draft.mode });
+    setStatus({ type: "success", text: "Budget caps saved" });
+  };
+
+  const handleRemove = () => {
+    setBudgetCap(scope, null);
+    setDraft(loadDraft(scope));
+    setStatus({ type: "success", text: "Budget caps removed" });
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 16, marginTop: 16 }}>
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        <label style={{ flex: "1 1 160px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Applies to</span>
+          <select value={scope} onChange={(event) => setScope(event.target.value as BudgetScope)}>
+            <option value="all">All providers{getBudgetCaps().all ? " (capped)" : ""}</option>
+            {providers.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}
+                {getBudgetCaps()[provider.id] ? " (capped)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ flex: "1 1 120px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Daily cap (USD)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={draft.daily}
+            placeholder="No cap"
+            onChange={(event) => setDraft((prev) => ({ ...prev, daily: event.target.value }))}
+          />
+        </label>
+        <label style={{ flex: "1 1 120px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Monthly cap (USD)</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={draft.monthly}
+            placeholder="No cap"
+            onChange={(event) => setDraft((prev) => ({ ...prev, monthly: event.target.value }))}
+          />
+        </label>
+        <label style={{ flex: "1 1 160px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>When reached</span>
+          <select value={draft.mode} onChange={(event) => setDraft((prev) => ({ ...prev, mode: event.target.value as BudgetMode }))}>
+            <option value="warn">Warn and ask</option>
+            <option value="block">Block the request</option>
+          </select>
+        </label>
+      </div>
+
+      <p className="notice--muted" style={{ margin: 0 }}>
+        Spent today {formatCost(spendToday(scope))} · this month {formatCost(spendThisMonth(scope))}
+      </p>
+
+      {status && (
+        <div className={`notice notice--${status.type === "error" ? "error" : "success"}`}>{status.text}</div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <button type="button" className="primary-button" onClick={handleSave}>
+          Save caps
+        </button>
+        <button type="button" className="ghost-button" onClick={handleRemove} disabled={!hasCap}>
+          Remove caps
+        </button>
+      </div>
+    </div>
+  );
+}
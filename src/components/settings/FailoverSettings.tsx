@@ -0,0 +1,88 @@
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { providerRequiresKey, useProviderRegistry } from "../../context/ProviderContext";
+import type { ProviderId } from "../../context/ProviderContext";
+
+export function FailoverSettings() {
+  const { providers, apiKeys, failoverOrder, setFailoverOrder } = useProviderRegistry();
+
+  const ordered = failoverOrder
+    .map((id) => providers.find((provider) => provider.id === id))
+    .filter((provider): provider is (typeof providers)[number] => Boolean(provider));
+  const available = providers.filter((provider) => !failoverOrder.includes(provider.id));
+
+  const move = (index: number, offset: number) => {
+    const next = [...failoverOrder];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    setFailoverOrder(next);
+  };
+
+  const remove = (providerId: ProviderId) => setFailoverOrder(failoverOrder.filter((id) => id !== providerId));
+
+  return (
+    <div style={{ display: "grid", gap: 12, marginTop: 16 }}>
+      {ordered.length === 0 ? (
+        <p className="notice--muted" style={{ margin: 0 }}>
+          Failover is off. Story generation only uses the provider selected in the studio.
+        </p>
+      ) : (
+        <ol style={{ display: "grid", gap: 8, margin: 0, paddingLeft: 20 }}>
+          {ordered.map((provider, index) => {
+            const missingKey = providerRequiresKey(provider) && !apiKeys[provider.id]?.trim();
+            return (
+              <li key={provider.id}>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                  <strong>{provider.label}</strong>
+                  {missingKey && <small className="notice--muted">Missing key — skipped</small>}
+                  <span style={{ marginLeft: "auto", display: "flex", gap: 4 }}>
+                    <button
+                      type="button"
+                      className="text-button"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${provider.label} up`}
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      className="text-button"
+                      onClick={() => move(index, 1)}
+                      disabled={index === ordered.length - 1}
+                      aria-label={`Move ${provider.label} down`}
+                    >
+                      <ArrowDown size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      className="text-button"
+                      onClick={() => remove(provider.id)}
+                      aria-label={`Remove ${provider.label} from failover`}
+                    >
+                      <X size={14} />
+                    </button>
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {available.length > 0 && (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          {available.map((provider) => (
+            <button
+              key={provider.id}
+              type="button"
+              className="chip"
+              onClick={() => setFailoverOrder([...failoverOrder, provider.id])}
+            >
+              + {provider.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { useProviderRegistry } from "../../context/ProviderContext";
+import type { GenerationParams } from "../../lib/clients/base";
+import {
+  GenerationPreset,
+  deleteGenerationPreset,
+  getGenerationPresets,
+  saveGenerationPreset,
+  subscribeToPresets,
+  unsupportedParams,
+  validateParams,
+} from "../../lib/generationPresets";
+
+const NEW_PRESET = "new";
+
+interface PresetDraft {
+  name: string;
+  description: string;
+  temperature: string;
+  topP: string;
+  presencePenalty: string;
+  frequencyPenalty: string;
+  /** One sequence per line. */
+  stop: string;
+  seed: string;
+}
+
+type NumericField = Exclude<keyof PresetDraft, "name" | "description" | "stop">;
+
+const NUMERIC_FIELDS: Array<{ key: NumericField; label: string; step: number }> = [
+  { key: "temperature", label: "Temperature", step: 0.05 },
+  { key: "topP", label: "Top P", step: 0.05 },
+  { key: "presencePenalty", label: "Presence penalty", step: 0.1 },
+  { key: "frequencyPenalty", label: "Frequency penalty", step: 0.1 },
+  { key: "seed", label: "Seed", step: 1 },
+];
+
+function toDraft(preset: GenerationPreset | undefined): PresetDraft {
+  const number = (value: number | undefined) => (value === undefined ? "" : String(value));
+  return {
+    name: preset?.name ?? "",
+    description: preset?.description ?? "",
+    temperature: number(preset?.params.temperature),
+    topP: number(preset?.params.topP),
+    presencePenalty: number(preset?.params.presencePenalty),
+    frequencyPenalty: number(preset?.params.frequencyPenalty),
+    stop: preset?.params.stop?.join("\n") ?? "",
+    seed: number(preset?.params.seed),
+  };
+}
+
+/** Blank fields stay unset so each provider keeps its own default. */
+function toParams(draft: PresetDraft): GenerationParams {
+  const number = (value: string) => (value.trim() ? Number(value) : undefined);
+  const stop = draft.stop.split("\n").filter((sequence) => sequence.trim());
+  return {
+    temperature: number(draft.temperature),
+    topP: number(draft.topP),
+    presencePenalty: number(draft.presencePenalty),
+    frequencyPenalty: number(draft.frequencyPenalty),
+    stop: stop.length ? stop : undefined,
+    seed: number(draft.seed),
+  };
+}
+
+export function GenerationPresetSettings() {
+  const presets = useSyncExternalStore(subscribeToPresets, getGenerationPresets);
+  const { providers } = useProviderRegistry();
+  const [selectedId, setSelectedId] = useState(presets[0].id);
+  const selected = presets.find((preset) => preset.id === selectedId);
+  const [draft, setDraft] = useState<PresetDraft>(() => toDraft(selected));
+  const [status, setStatus] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const readOnly = Boolean(selected?.builtIn);
+  const ignoredBy = providers
+    .map((provider) => ({ provider, ignored: unsupportedParams(provider, toParams(draft)) }))
+    .filter(({ ignored }) => ignored.length > 0);
+
+  useEffect(() => {
+    setDraft(toDraft(getGenerationPresets().find((preset) => preset.id === selectedId)));
+  }, [selectedId]);
+
+  const update = (key: keyof PresetDraft, value: string) => setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setStatus({ type: "error", text: "Give the preset a name." });
+      return;
+    }
+    const params = toParams(draft);
+    const invalid = validateParams(params);
+    if (invalid) {
+      setStatus({ type: "error", text: invalid });
+      return;
+    }
+    const preset = saveGenerationPreset(
+      { name: draft.name.trim(), description: draft.description.trim() || undefined, params },
+      selected && !selected.builtIn ? selected.id : undefined
+    );
+    setSelectedId(preset.id);
+    setStatus({ type: "success", text: `Saved “${preset.name}”` });
+  };
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const preset = saveGenerationPreset({
+      name: `${selected.name} (copy)`,
+      description: selected.description,
+      params: selected.params,
+    });
+    setSelectedId(preset.id);
+    setStatus({ type: "success", text: `Created “${preset.name}”` });
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (!window.confirm(`Delete “${selected.name}”? Drafts using it go back to the default preset.`)) return;
+    deleteGenerationPreset(selected.id);
+    setSelectedId(presets[0].id);
+    setStatus({ type: "success", text: "Preset deleted" });
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 16, marginTop: 16 }}>
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        <label style={{ flex: "1 1 200px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Preset</span>
+          <select
+            value={selectedId}
+            onChange={(event) => {
+              setSelectedId(event.target.value);
+              setStatus(null);
+            }}
+          >
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+                {preset.builtIn ? " (built-in)" : ""}
+              </option>
+            ))}
+            <option value={NEW_PRESET}>New preset…</option>
+          </select>
+        </label>
+        <label style={{ flex: "1 1 200px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Name</span>
+          <input value={draft.name} disabled={readOnly} onChange={(event) => update("name", event.target.value)} />
+        </label>
+      </div>
+
+      <label>
+        <span style={{ display: "block", fontWeight: 600 }}>Description</span>
+        <input
+          value={draft.description}
+          disabled={readOnly}
+          placeholder="When to reach for this preset"
+          onChange={(event) => update("description", event.target.value)}
+        />
+      </label>
+
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        {NUMERIC_FIELDS.map((field) => (
+          <label key={field.key} style={{ flex: "1 1 120px" }}>
+            <span style={{ display: "block", fontWeight: 600 }}>{field.label}</span>
+            <input
+              type="number"
+              step={field.step}
+              value={draft[field.key]}
+              disabled={readOnly}
+              placeholder="Default"
+              onChange={(event) => update(field.key, event.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label>
+        <span style={{ display: "block", fontWeight: 600 }}>Stop sequences</span>
+        <textarea
+          rows={2}
+          value={draft.stop}
+          disabled={readOnly}
+          placeholder="One per line, e.g. THE END"
+          onChange={(event) => update("stop", event.target.value)}
+        />
+      </label>
+
+      {ignoredBy.length > 0 && (
+        <p className="notice--muted" style={{ margin: 0 }}>
+          {ignoredBy
+            .map(({ provider, ignored }) => `${provider.label} ignores ${ignored.join(", ").toLowerCase()}`)
+            .join(" · ")}
+          .
+        </p>
+      )}
+
+      {status && (
+        <div className={`notice notice--${status.type === "error" ? "error" : "success"}`}>{status.text}</div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        {!readOnly && (
+          <button type="button" className="primary-button" onClick={handleSave}>
+            {selected ? "Save preset" : "Create preset"}
+          </button>
+        )}
+        <button type="button" className="ghost-button" onClick={handleDuplicate} disabled={!selected}>
+          Duplicate
+        </button>
+        {selected && !selected.builtIn && (
+          <button type="button" className="ghost-button" onClick={handleDelete}>
+            Delete preset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
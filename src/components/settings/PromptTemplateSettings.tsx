@@ -0,0 +1,256 @@
+import { useMemo, useRef, useState } from "react";
+import { useWorkspace } from "../../context/WorkspaceContext";
+import type { StoryMetadata } from "../../context/WorkspaceContext";
+import {
+  PromptTemplate,
+  PromptTemplateKind,
+  TEMPLATE_KINDS,
+  TEMPLATE_VARIABLES,
+  createTemplate,
+  deleteTemplate,
+  describeValidation,
+  getActiveTemplate,
+  latestVersion,
+  listTemplates,
+  renderTemplate,
+  saveTemplateVersion,
+  setActiveTemplate,
+  validateTemplate,
+} from "../../lib/prompts/templates";
+import { composeContinuityNotes, previewTemplateValues } from "../../lib/prompts/storyTemplates";
+
+const SAMPLE_METADATA: StoryMetadata = {
+  title: "The Lantern Keeper",
+  genre: "Fantasy",
+  tone: "Hopeful with a thread of dread",
+  perspective: "Third person limited",
+  targetLength: "medium",
+};
+const SAMPLE_DRAFT = "The lighthouse had been dark for nine winters when Mara climbed its stairs with a borrowed flame.";
+const SAMPLE_PROMPT = "Mara discovers the lantern answers to a name nobody in the village remembers.";
+const SAMPLE_CONTINUITY = "- Mara [character] (stubborn, night-blind): The last keeper's apprentice.";
+
+/** Long drafts are cut in the preview only; requests always carry the full text. */
+const PREVIEW_DRAFT_CHARS = 1500;
+
+const KIND_ORDER = Object.keys(TEMPLATE_KINDS) as PromptTemplateKind[];
+
+type Status = { type: "success" | "error"; text: string } | null;
+
+export function PromptTemplateSettings() {
+  const { activeDraft } = useWorkspace();
+  const [kind, setKind] = useState<PromptTemplateKind>("story-system");
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => listTemplates("story-system"));
+  const [activeId, setActiveId] = useState(() => getActiveTemplate("story-system").id);
+  const [selectedId, setSelectedId] = useState(activeId);
+  const [name, setName] = useState(() => getActiveTemplate("story-system").name);
+  const [body, setBody] = useState(() => latestVersion(getActiveTemplate("story-system")).body);
+  const [status, setStatus] = useState<Status>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const info = TEMPLATE_KINDS[kind];
+  const selected = templates.find((template) => template.id === selectedId) ?? templates[0];
+  const validation = useMemo(() => validateTemplate(kind, body), [kind, body]);
+  const problems = describeValidation(validation);
+  const isDirty = body !== latestVersion(selected).body || (!selected.builtIn && name.trim() !== selected.name);
+
+  const preview = useMemo(() => {
+    const draft = activeDraft?.content.trim() ? activeDraft.content : SAMPLE_DRAFT;
+    const values = previewTemplateValues(kind, {
+      metadata: activeDraft?.metadata ?? SAMPLE_METADATA,
+      draft: draft.length > PREVIEW_DRAFT_CHARS ? `${draft.slice(0, PREVIEW_DRAFT_CHARS)}…` : draft,
+      prompt: activeDraft?.prompt.trim() ? activeDraft.prompt : SAMPLE_PROMPT,
+      continuity: activeDraft ? composeContinuityNotes(activeDraft.continuity.entries) : SAMPLE_CONTINUITY,
+    });
+    return renderTemplate(body, values);
+  }, [activeDraft, body, kind]);
+
+  const load = (nextKind: PromptTemplateKind, templateId?: string) => {
+    const list = listTemplates(nextKind);
+    const active = getActiveTemplate(nextKind);
+    const template = list.find((entry) => entry.id === templateId) ?? active;
+    setKind(nextKind);
+    setTemplates(list);
+    setActiveId(active.id);
+    setSelectedId(template.id);
+    setName(template.name);
+    setBody(latestVersion(template).body);
+  };
+
+  const run = (action: () => string | undefined, success: string) => {
+    try {
+      const templateId = action();
+      load(kind, templateId ?? selectedId);
+      setStatus({ type: "success", text: success });
+    } catch (error) {
+      setStatus({ type: "error", text: error instanceof Error ? error.message : "Could not save the template" });
+    }
+  };
+
+  const handleSelectKind = (nextKind: PromptTemplateKind) => {
+    load(nextKind);
+    setStatus(null);
+  };
+
+  const handleSelectTemplate = (templateId: string) => {
+    load(kind, templateId);
+    setStatus(null);
+  };
+
+  const handleSaveVersion = () =>
+    run(() => saveTemplateVersion(selected.id, body, name).id, "Saved a new version");
+
+  const handleSaveCopy = () =>
+    run(() => createTemplate(kind, selected.builtIn ? `${info.label} (custom)` : `${name.trim()} copy`, body).id, "Template created");
+
+  const handleActivate = () =>
+    run(() => {
+      setActiveTemplate(kind, selected.id);
+      return selected.id;
+    }, `Now using “${selected.name}”`);
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete “${selected.name}” and all of its versions?`)) return;
+    run(() => {
+      deleteTemplate(selected.id);
+      return undefined;
+    }, "Template deleted");
+  };
+
+  const insertVariable = (variable: string) => {
+    const placeholder = `{{${variable}}}`;
+    const field = bodyRef.current;
+    const start = field?.selectionStart ?? body.length;
+    const end = field?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + placeholder + body.slice(end));
+    requestAnimationFrame(() => {
+      field?.focus();
+      field?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  return (
+    <div className="template-editor" style={{ display: "grid", gap: 16, marginTop: 16 }}>
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        <label style={{ flex: "1 1 220px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Prompt</span>
+          <select value={kind} onChange={(event) => handleSelectKind(event.target.value as PromptTemplateKind)}>
+            {KIND_ORDER.map((entry) => (
+              <option key={entry} value={entry}>
+                {TEMPLATE_KINDS[entry].label}
+              </option>
+            ))}
+          </select>
+          <small className="notice--muted">{info.description}</small>
+        </label>
+        <label style={{ flex: "1 1 220px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Template</span>
+          <select value={selected.id} onChange={(event) => handleSelectTemplate(event.target.value)}>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+                {template.builtIn ? "" : ` · v${latestVersion(template).version}`}
+                {template.id === activeId ? " (active)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!selected.builtIn && (
+        <label>
+          <span style={{ display: "block", fontWeight: 600 }}>Name</span>
+          <input value={name} onChange={(event) => setName(event.target.value)} />
+        </label>
+      )}
+
+      <label>
+        <span style={{ display: "block", fontWeight: 600 }}>Body</span>
+        <textarea ref={bodyRef} rows={10} value={body} onChange={(event) => setBody(event.target.value)} spellCheck={false} />
+        <small className="notice--muted">
+          {selected.builtIn
+            ? "The built-in default cannot be changed; edits are saved as a new template."
+            : "Wrap optional text in {{#name}}…{{/name}} to drop it when the variable is empty."}
+        </small>
+      </label>
+
+      <div className="template-variables">
+        {info.variables.map((variable) => (
+          <code
+            key={variable}
+            className="chip"
+            title={TEMPLATE_VARIABLES[variable]}
+            onClick={() => insertVariable(variable)}
+          >
+            {`{{${variable}}}`}
+            {info.required.includes(variable) ? " *" : ""}
+          </code>
+        ))}
+      </div>
+
+      {problems.length > 0 && (
+        <div className="notice notice--error">
+          {problems.map((problem) => (
+            <div key={problem}>{problem}</div>
+          ))}
+        </div>
+      )}
+      {status && (
+        <div className={`notice notice--${status.type === "error" ? "error" : "success"}`}>{status.text}</div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        {!selected.builtIn && (
+          <button
+            type="button"
+            className="primary-button"
+            onClick={handleSaveVersion}
+            disabled={!validation.valid || !isDirty}
+          >
+            Save version
+          </button>
+        )}
+        <button
+          type="button"
+          className={selected.builtIn ? "primary-button" : "ghost-button"}
+          onClick={handleSaveCopy}
+          disabled={!validation.valid}
+        >
+          Save as new template
+        </button>
+        <button type="button" className="ghost-button" onClick={handleActivate} disabled={selected.id === activeId || isDirty}>
+          Use this template
+        </button>
+        {!selected.builtIn && (
+          <button type="button" className="ghost-button" onClick={handleDelete}>
+            Delete
+          </button>
+        )}
+      </div>
+
+      {!selected.builtIn && selected.versions.length > 1 && (
+        <div>
+          <span style={{ display: "block", fontWeight: 600 }}>Versions</span>
+          <div className="chip-group" style={{ marginTop: 8 }}>
+            {[...selected.versions].reverse().map((version) => (
+              <button
+                key={version.version}
+                type="button"
+                className={version.body === body ? "chip chip--active" : "chip"}
+                onClick={() => setBody(version.body)}
+                title={`Saved ${new Date(version.createdAt).toLocaleString()}. Load into the editor; save to restore it.`}
+              >
+                v{version.version}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="template-preview">
+        <h4>Preview{activeDraft ? ` · ${activeDraft.metadata.title || "Untitled"}` : " · sample story"}</h4>
+        <pre>{preview}</pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useProviderRegistry } from "../../context/ProviderContext";
+import type { ProviderId } from "../../context/ProviderContext";
+import { getRequestLimits, hasCustomRequestLimits, setRequestLimits } from "../../lib/scheduler";
+
+interface LimitsDraft {
+  concurrency: string;
+  tokensPerMinute: string;
+}
+
+function loadDraft(providerId: ProviderId): LimitsDraft {
+  const limits = getRequestLimits(providerId);
+  return { concurrency: String(limits.concurrency), tokensPerMinute: String(limits.tokensPerMinute) };
+}
+
+export function RequestLimitSettings() {
+  const { providers } = useProviderRegistry();
+  const [providerId, setProviderId] = useState<ProviderId>(providers[0].id);
+  const [draft, setDraft] = useState<LimitsDraft>(() => loadDraft(providers[0].id));
+  const [isCustom, setIsCustom] = useState(() => hasCustomRequestLimits(providers[0].id));
+  const [status, setStatus] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    setDraft(loadDraft(providerId));
+    setIsCustom(hasCustomRequestLimits(providerId));
+    setStatus(null);
+  }, [providerId]);
+
+  const handleSave = () => {
+    const concurrency = Number(draft.concurrency);
+    const tokensPerMinute = Number(draft.tokensPerMinute);
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > 16) {
+      setStatus({ type: "error", text: "Parallel requests must be a whole number between 1 and 16." });
+      return;
+    }
+    if (!Number.isInteger(tokensPerMinute) || tokensPerMinute < 0) {
+      setStatus({ type: "error", text: "Tokens per minute must be a whole number; use 0 for no limit." });
+      return;
+    }
+    setRequestLimits(providerId, { concurrency, tokensPerMinute });
+    setIsCustom(true);
+    setStatus({ type: "success", text: "Request limits saved" });
+  };
+
+  const handleReset = () => {
+    setRequestLimits(providerId, null);
+    setDraft(loadDraft(providerId));
+    setIsCustom(false);
+    setStatus({ type: "success", text: "Restored the default limits" });
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 16, marginTop: 16 }}>
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        <label style={{ flex: "1 1 160px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Provider</span>
+          <select value={providerId} onChange={(event) => setProviderId(event.target.value as ProviderId)}>
+            {providers.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}
+                {hasCustomRequestLimits(provider.id) ? " (custom)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ flex: "1 1 160px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Parallel requests</span>
+          <input
+            type="number"
+            min={1}
+            max={16}
+            value={draft.concurrency}
+            onChange={(event) => setDraft((prev) => ({ ...prev, concurrency: event.target.value }))}
+          />
+          <small className="notice--muted">Extra requests wait in the studio's request queue.</small>
+        </label>
+        <label style={{ flex: "1 1 160px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Tokens per minute</span>
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={draft.tokensPerMinute}
+            onChange={(event) => setDraft((prev) => ({ ...prev, tokensPerMinute: event.target.value }))}
+          />
+          <small className="notice--muted">Estimated prompt plus output budget. 0 turns the limit off.</small>
+        </label>
+      </div>
+
+      {status && (
+        <div className={`notice notice--${status.type === "error" ? "error" : "success"}`}>{status.text}</div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <button type="button" className="primary-button" onClick={handleSave}>
+          Save limits
+        </button>
+        <button type="button" className="ghost-button" onClick={handleReset} disabled={!isCustom}>
+          Use default
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  CacheEntrySummary,
+  DEFAULT_RESPONSE_CACHE_CONFIG,
+  ResponseCacheConfig,
+  clearResponseCache,
+  deleteCacheEntry,
+  getResponseCacheConfig,
+  listCacheEntries,
+  setResponseCacheConfig,
+} from "../../lib/responseCache";
+
+const RECENT_ENTRIES = 8;
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function ResponseCacheSettings() {
+  const [config, setConfig] = useState<ResponseCacheConfig>(() => getResponseCacheConfig());
+  const [limits, setLimits] = useState(() => ({
+    maxEntries: String(config.maxEntries),
+    maxMegabytes: String(config.maxBytes / (1024 * 1024)),
+  }));
+  const [entries, setEntries] = useState<CacheEntrySummary[] | null>(null);
+  const [status, setStatus] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const refresh = useCallback(() => {
+    listCacheEntries()
+      .then(setEntries)
+      .catch((error) => {
+        setEntries([]);
+        setStatus({ type: "error", text: `Cache storage is unavailable: ${error instanceof Error ? error.message : error}` });
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = (next: ResponseCacheConfig, message: string) => {
+    setResponseCacheConfig(next);
+    setConfig(next);
+    setStatus({ type: "success", text: message });
+    // Lowered limits evict in the background; list again once that settles.
+    window.setTimeout(refresh, 250);
+  };
+
+  const handleSaveLimits = () => {
+    const maxEntries = Number(limits.maxEntries);
+    const maxMegabytes = Number(limits.maxMegabytes);
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      setStatus({ type: "error", text: "Keep at least one entry." });
+      return;
+    }
+    if (!Number.isFinite(maxMegabytes) || maxMegabytes <= 0) {
+      setStatus({ type: "error", text: "The size limit must be a positive number of megabytes." });
+      return;
+    }
+    save({ ...config, maxEntries, maxBytes: Math.round(maxMegabytes * 1024 * 1024) }, "Cache limits saved");
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearResponseCache();
+      setStatus({ type: "success", text: "Cache cleared" });
+    } catch (error) {
+      setStatus({ type: "error", text: error instanceof Error ? error.message : "Could not clear the cache" });
+    }
+    refresh();
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key).catch((error) => console.warn("Failed to delete cache entry", error));
+    refresh();
+  };
+
+  const totalBytes = entries?.reduce((total, entry) => total + entry.bytes, 0) ?? 0;
+  const totalHits = entries?.reduce((total, entry) => total + entry.hits, 0) ?? 0;
+
+  return (
+    <div style={{ display: "grid", gap: 16, marginTop: 16 }}>
+      <label style={{ display: "flex", alignItems: "center", gap: 10 }}>
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(event) =>
+            save({ ...config, enabled: event.target.checked }, event.target.checked ? "Response cache on" : "Response cache off")
+          }
+        />
+        <span style={{ fontWeight: 600 }}>Reuse identical A/B and feedback responses</span>
+      </label>
+
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        <label style={{ flex: "1 1 160px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Max entries</span>
+          <input
+            type="number"
+            min={1}
+            step={10}
+            value={limits.maxEntries}
+            onChange={(event) => setLimits((prev) => ({ ...prev, maxEntries: event.target.value }))}
+          />
+        </label>
+        <label style={{ flex: "1 1 160px" }}>
+          <span style={{ display: "block", fontWeight: 600 }}>Max size (MB)</span>
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={limits.maxMegabytes}
+            onChange={(event) => setLimits((prev) => ({ ...prev, maxMegabytes: event.target.value }))}
+          />
+          <small className="notice--muted">Least recently used responses are dropped first.</small>
+        </label>
+      </div>
+
+      {entries && (
+        <p className="notice--muted" style={{ margin: 0 }}>
+          {entries.length} cached response{entries.length === 1 ? "" : "s"} · {formatBytes(totalBytes)} · {totalHits} hit
+          {totalHits === 1 ? "" : "s"} so far
+        </p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <ul style={{ display: "grid", gap: 8, margin: 0, paddingLeft: 18 }}>
+          {entries.slice(0, RECENT_ENTRIES).map((entry) => (
+            <li key={entry.key}>
+              <strong>{entry.kind === "story" ? "Story" : "Feedback"}</strong> · {entry.providerId} · {entry.model} ·{" "}
+              {formatBytes(entry.bytes)} · {entry.hits} hit{entry.hits === 1 ? "" : "s"} · last used{" "}
+              {new Date(entry.lastUsedAt).toLocaleString()}{" "}
+              <button type="button" className="text-button" onClick={() => handleDelete(entry.key)}>
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {status && (
+        <div className={`notice notice--${status.type === "error" ? "error" : "success"}`}>{status.text}</div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <button type="button" className="primary-button" onClick={handleSaveLimits}>
+          Save limits
+        </button>
+        <button
+          type="button"
+          className="ghost-button"
+          onClick={() => {
+            setLimits({
+              maxEntries: String(DEFAULT_RESPONSE_CACHE_CONFIG.maxEntries),
+              maxMegabytes: String(DEFAULT_RESPONSE_CACHE_CONFIG.maxBytes / (1024 * 1024)),
+            });
+          }}
+        >
+          Default limits
+        </button>
+        <button type="button" className="ghost-button" onClick={handleClear} disabled={!entries?.length}>
+          Clear cache
+        </button>
+      </div>
+    </div>
+  );
+}
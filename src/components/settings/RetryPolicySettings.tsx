@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useProviderRegistry } from "../../context/ProviderContext";
+import type { ProviderId } from "../../context/ProviderContext";
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from "../../lib/clients/base";
+
+interface PolicyDraft {
+  maxAttempts: string;
+  baseDelay: string;
+  maxDelay: string;
+  maxTotal: string;
+}
+
+function toDraft(policy: RetryPolicy): PolicyDraft {
+  return {
+    maxAttempts: String(policy.maxAttempts),
+    baseDelay: String(policy.baseDelayMs / 1000),
+    maxDelay: String(policy.maxDelayMs / 1000),
+    maxTotal: String(policy.maxTotalMs / 1000),
+  };
+}
+
+function fromDraft(draft: PolicyDraft): RetryPolicy | string {
+  const maxAttempts = Number(draft.maxAttempts);
+  const seconds = [draft.baseDelay, draft.maxDelay, draft.maxTotal].map(Number);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 10) {
+    return "Attempts must be a whole number between 1 and 10.";
+  }
+  if (seconds.some((value) => !Number.isFinite(value) || value < 0)) {
+    return "Delays must be zero or positive numbers of seconds.";
+  }
+  const [baseDelay, maxDelay, maxTotal] = seconds.map((value) => Math.round(value * 1000));
+  if (maxDelay < baseDelay) {
+    return "The longest wait cannot be shorter than the first wait.";
+  }
+  return { maxAttempts, baseDelayMs: baseDelay, maxDelayMs: maxDelay, maxTotalMs: maxTotal };
+}
+
+export function RetryPolicySettings() {
+  const { providers, retryPolicies, getRetryPolicy, setRetryPolicy } = useProviderRegistry();
+  const [providerId, setProviderId] = useState<ProviderId>(providers[0].id);
+  const [draft, setDraft] = useState<PolicyDraft>(() => toDraft(getRetryPolicy(providers[0].id)));
+  const [status, setStatus] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(getRetryPolicy(providerId)));
+    setStatus(null);
+  }, [getRetryPolicy, providerId]);
+
+  const handleSave = () => {
+    const result = fromDraft(draft);
+    if (typeof result === "string") {
+      setStatus({ type: "error", text: result });
+      return;
+    }
+    setRetryPolicy(providerId, result);
+    setStatus({ type: "success", text: "Retry policy saved" });
+  };
+
+  const handleReset = () => {
+    setRetryPolicy(providerId, null);
+    setDraft(toDraft(DEFAULT_RETRY_POLICY));
+    setStatus({ type: "success", text: "Restored the default policy" });
+  };
+
+  const fields: Array<{ key: keyof PolicyDraft; label: string; hint: string }> = [
+    { key: "maxAttempts", label: "Attempts", hint: "Including the first request. 1 turns retries off." },
+    { key: "baseDelay", label: "First wait (s)", hint: "Doubles after every failed attempt, with jitter." },
+    { key: "maxDelay", label: "Longest wait (s)", hint: "Cap for a single backoff step." },
+    { key: "maxTotal", label: "Give up after (s)", hint: "Total time budget across every attempt." },
+  ];
+
+  return (
+    <div style={{ display: "grid", gap: 16, marginTop: 16 }}>
+      <label>
+        <span style={{ display: "block", fontWeight: 600 }}>Provider</span>
+        <select value={providerId} onChange={(event) => setProviderId(event.target.value as ProviderId)}>
+          {providers.map((provider) => (
+            <option key={provider.id} value={provider.id}>
+              {provider.label}
+              {retryPolicies[provider.id] ? " (custom)" : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        {fields.map((field) => (
+          <label key={field.key} style={{ flex: "1 1 160px" }}>
+            <span style={{ display: "block", fontWeight: 600 }}>{field.label}</span>
+            <input
+              type="number"
+              min={field.key === "maxAttempts" ? 1 : 0}
+              step={field.key === "maxAttempts" ? 1 : 0.5}
+              value={draft[field.key]}
+              onChange={(event) => setDraft((prev) => ({ ...prev, [field.key]: event.target.value }))}
+            />
+            <small className="notice--muted">{field.hint}</small>
+          </label>
+        ))}
+      </div>
+
+      {status && (
+        <div className={`notice notice--${status.type === "error" ? "error" : "success"}`}>{status.text}</div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <button type="button" className="primary-button" onClick={handleSave}>
+          Save policy
+        </button>
+        <button type="button" className="ghost-button" onClick={handleReset} disabled={!retryPolicies[providerId]}>
+          Use default
+        </button>
+      </div>
+    </div>
+  );
+}
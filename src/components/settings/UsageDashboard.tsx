@@ -0,0 +1,121 @@
+import { useMemo, useState, useSyncExternalStore } from "react";
+import { useProviderRegistry } from "../../context/ProviderContext";
+import { useWorkspace } from "../../context/WorkspaceContext";
+import { formatCost } from "../../lib/pricing";
+import {
+  UsageGrouping,
+  clearUsage,
+  getUsageEntries,
+  spendThisMonth,
+  spendToday,
+  subscribeToUsage,
+  summariseUsage,
+} from "../../lib/usageLedger";
+
+const GROUPINGS: Array<{ id: UsageGrouping; label: string }> = [
+  { id: "day", label: "By day" },
+  { id: "provider", label: "By provider" },
+  { id: "draft", label: "By draft" },
+];
+
+/** Rows shown per grouping; older days and smaller spenders are summed into the totals only. */
+const MAX_ROWS = 14;
+
+export function UsageDashboard() {
+  const entries = useSyncExternalStore(subscribeToUsage, getUsageEntries);
+  const { providers } = useProviderRegistry();
+  const { drafts } = useWorkspace();
+  const [grouping, setGrouping] = useState<UsageGrouping>("day");
+
+  const groups = useMemo(() => summariseUsage(entries, grouping), [entries, grouping]);
+  const allTime = entries.reduce((total, entry) => total + entry.cost, 0);
+  const largest = Math.max(...groups.map((group) => group.cost), 0);
+
+  const labelFor = (key: string) => {
+    if (grouping === "provider") return providers.find((provider) => provider.id === key)?.label ?? key;
+    if (grouping === "draft") {
+      if (key === "unassigned") return "No draft";
+      return drafts.find((draft) => draft.id === key)?.metadata.title || "Deleted draft";
+    }
+    return key;
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Delete every recorded request? Budget caps stay in place.")) return;
+    clearUsage();
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 16, marginTop: 16 }}>
+      <div style={{ display: "flex", gap: 24, flexWrap: "wrap" }}>
+        <div>
+          <small className="notice--muted">Today</small>
+          <div style={{ fontWeight: 700, fontSize: "1.25rem" }}>{formatCost(spendToday())}</div>
+        </div>
+        <div>
+          <small className="notice--muted">This month</small>
+          <div style={{ fontWeight: 700, fontSize: "1.25rem" }}>{formatCost(spendThisMonth())}</div>
+        </div>
+        <div>
+          <small className="notice--muted">All time</small>
+          <div style={{ fontWeight: 700, fontSize: "1.25rem" }}>{formatCost(allTime)}</div>
+        </div>
+        <div>
+          <small className="notice--muted">Requests</small>
+          <div style={{ fontWeight: 700, fontSize: "1.25rem" }}>{entries.length.toLocaleString()}</div>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+        {GROUPINGS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            className={`chip${grouping === option.id ? " chip--active" : ""}`}
+            onClick={() => setGrouping(option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="notice--muted" style={{ margin: 0 }}>
+          Nothing recorded yet. Generations, continuations, feedback, sensory passes and A/B variants appear here once
+          they finish.
+        </p>
+      ) : (
+        <ul style={{ display: "grid", gap: 10, margin: 0, padding: 0, listStyle: "none" }}>
+          {groups.slice(0, MAX_ROWS).map((group) => (
+            <li key={group.key} style={{ display: "grid", gap: 4 }}>
+              <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "baseline" }}>
+                <strong>{labelFor(group.key)}</strong>
+                <small className="notice--muted">
+                  {group.requests} request{group.requests === 1 ? "" : "s"} · {group.inputTokens.toLocaleString()} in ·{" "}
+                  {group.outputTokens.toLocaleString()} out
+                </small>
+                <span style={{ marginLeft: "auto", fontWeight: 600 }}>{formatCost(group.cost)}</span>
+              </div>
+              <div style={{ height: 6, borderRadius: 3, background: "rgba(148, 163, 184, 0.2)" }}>
+                <div
+                  style={{
+                    height: "100%",
+                    borderRadius: 3,
+                    width: `${largest > 0 ? Math.max(2, (group.cost / largest) * 100) : 0}%`,
+                    background: "rgba(124, 77, 255, 0.7)",
+                  }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <button type="button" className="ghost-button" onClick={handleClear} disabled={!entries.length}>
+          Clear ledger
+        </button>
+      </div>
+    </div>
+  );
+}
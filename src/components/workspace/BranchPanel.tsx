@@ -0,0 +1,214 @@
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { GitBranch, GitCompare, GitMerge } from "lucide-react";
+import { useWorkspace } from "../../context/WorkspaceContext";
+import type { StoryDraft } from "../../context/WorkspaceContext";
+import {
+  SceneComparisonKind,
+  branchName,
+  branchTree,
+  compareBranches,
+  nextBranchName,
+  scenesChangedSinceFork,
+} from "../../lib/branches";
+import { countWords } from "../../lib/continuation";
+import { diffLines, diffStats } from "../../lib/textDiff";
+import { SideBySideDiff } from "./SideBySideDiff";
+
+interface BranchPanelProps {
+  draft: StoryDraft;
+  /** Merging is held back while text is streaming into the draft. */
+  busy?: boolean;
+}
+
+const KIND_LABELS: Record<SceneComparisonKind, string> = {
+  same: "Same",
+  changed: "Changed",
+  added: "Only in other",
+  removed: "Only in this",
+};
+
+type CompareView = "scene" | "manuscript";
+
+/** Lineage of the draft's branches, with a side-by-side compare and scene-by-scene merge into the active branch. */
+export function BranchPanel({ draft, busy }: BranchPanelProps) {
+  const { drafts, promptRecipes, selectDraft, forkDraft, mergeScenes } = useWorkspace();
+  const [forkName, setForkName] = useState("");
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [view, setView] = useState<CompareView>("scene");
+  const [focusedSceneId, setFocusedSceneId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const tree = useMemo(() => branchTree(drafts), [drafts]);
+  const other = compareId && compareId !== draft.id ? drafts.find((entry) => entry.id === compareId) ?? null : null;
+  const comparison = useMemo(() => (other ? compareBranches(draft, other) : []), [draft, other]);
+  const differing = comparison.filter((row) => row.kind !== "same");
+
+  useEffect(() => {
+    setSelected([]);
+    setFocusedSceneId(null);
+  }, [compareId]);
+
+  const focused =
+    comparison.find((row) => row.sceneId === focusedSceneId) ?? differing[0] ?? comparison[0] ?? null;
+  const rows = useMemo(() => {
+    if (!other) return [];
+    if (view === "manuscript") return diffLines(draft.content, other.content);
+    return focused ? diffLines(focused.base?.content ?? "", focused.other?.content ?? "") : [];
+  }, [draft.content, focused, other, view]);
+  const stats = diffStats(rows);
+
+  const parent = draft.branch && drafts.find((entry) => entry.id === draft.branch?.parentId);
+  const changedSinceFork = scenesChangedSinceFork(draft);
+  const recipes = draft.recipesUsed
+    .map((id) => promptRecipes.find((recipe) => recipe.id === id)?.title)
+    .filter(Boolean);
+
+  const handleFork = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    forkDraft(draft.id, forkName);
+    setForkName("");
+  };
+
+  const toggleScene = (sceneId: string) =>
+    setSelected((prev) => (prev.includes(sceneId) ? prev.filter((id) => id !== sceneId) : [...prev, sceneId]));
+
+  const handleMerge = () => {
+    if (!other || !selected.length) return;
+    mergeScenes(draft.id, other.id, selected);
+    setSelected([]);
+  };
+
+  return (
+    <div className="branch-panel">
+      <form className="branch-panel__fork" onSubmit={handleFork}>
+        <input
+          value={forkName}
+          onChange={(event) => setForkName(event.target.value)}
+          placeholder={nextBranchName(drafts, draft.id)}
+          aria-label="Branch name"
+        />
+        <button type="submit" className="ghost-button">
+          <GitBranch size={16} /> Fork
+        </button>
+      </form>
+      <p className="notice--muted" style={{ margin: 0 }}>
+        {parent
+          ? `${branchName(draft)} was forked from ${branchName(parent)} on ${new Date(draft.branch!.forkedAt).toLocaleString()}; ${changedSinceFork} scene${changedSinceFork === 1 ? " has" : "s have"} changed since.`
+          : `${branchName(draft)} is not forked from another draft.`}
+        {recipes.length > 0 && ` Recipes used: ${recipes.join(", ")}.`}
+      </p>
+
+      <ol className="branch-tree">
+        {tree.map(({ draft: node, depth }) => (
+          <li key={node.id} style={{ paddingLeft: `${depth * 1.1}rem` }}>
+            <button
+              type="button"
+              className={`branch-tree__node${node.id === draft.id ? " branch-tree__node--active" : ""}`}
+              onClick={() => selectDraft(node.id)}
+              aria-current={node.id === draft.id}
+            >
+              {depth > 0 && <GitBranch size={12} aria-hidden="true" />}
+              <span>
+                {node.metadata.title} · {branchName(node)}
+              </span>
+              <small>
+                {countWords(node.content).toLocaleString()} words · {new Date(node.updatedAt).toLocaleString()}
+              </small>
+            </button>
+            {node.id !== draft.id && (
+              <button
+                type="button"
+                className={`chip${node.id === compareId ? " chip--active" : ""}`}
+                onClick={() => setCompareId((prev) => (prev === node.id ? null : node.id))}
+                title={`Compare ${branchName(draft)} with ${branchName(node)}`}
+              >
+                <GitCompare size={12} /> Compare
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {other && (
+        <div className="branch-compare">
+          <header>
+            <strong>
+              {branchName(draft)} ↔ {branchName(other)}
+            </strong>
+            <small>
+              {differing.length === 0
+                ? "The scenes are identical."
+                : `${differing.length} of ${comparison.length} scenes differ.`}
+            </small>
+          </header>
+
+          <div className="chip-group">
+            <button
+              type="button"
+              className={`chip${view === "scene" ? " chip--active" : ""}`}
+              onClick={() => setView("scene")}
+            >
+              By scene
+            </button>
+            <button
+              type="button"
+              className={`chip${view === "manuscript" ? " chip--active" : ""}`}
+              onClick={() => setView("manuscript")}
+            >
+              Whole manuscript
+            </button>
+          </div>
+
+          {view === "scene" && (
+            <ul className="branch-compare__scenes">
+              {comparison.map((row) => {
+                const mergeable = row.kind === "changed" || row.kind === "added";
+                return (
+                  <li key={row.sceneId} className={row.sceneId === focused?.sceneId ? "branch-compare__scene--focused" : ""}>
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(row.sceneId)}
+                      onChange={() => toggleScene(row.sceneId)}
+                      disabled={!mergeable}
+                      aria-label={`Merge ${row.title} from ${branchName(other)}`}
+                    />
+                    <button type="button" onClick={() => setFocusedSceneId(row.sceneId)}>
+                      <span>
+                        {row.chapterTitle} · {row.title}
+                      </span>
+                      <small className={`branch-compare__kind branch-compare__kind--${row.kind}`}>{KIND_LABELS[row.kind]}</small>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <p className="notice--muted" style={{ margin: 0 }}>
+            {stats.added + stats.removed + stats.changed === 0
+              ? "No differences."
+              : `${stats.changed} changed · ${stats.added} added · ${stats.removed} removed lines`}
+          </p>
+          <SideBySideDiff
+            rows={rows}
+            beforeLabel={view === "scene" && focused ? `${branchName(draft)} · ${focused.title}` : branchName(draft)}
+            afterLabel={view === "scene" && focused ? `${branchName(other)} · ${focused.title}` : branchName(other)}
+          />
+
+          <button
+            type="button"
+            className="primary-button"
+            onClick={handleMerge}
+            disabled={!selected.length || busy}
+            title={busy ? "Wait for the current request to finish" : undefined}
+          >
+            <GitMerge size={16} />{" "}
+            {selected.length
+              ? `Merge ${selected.length} scene${selected.length === 1 ? "" : "s"} into ${branchName(draft)}`
+              : `Tick scenes to merge into ${branchName(draft)}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
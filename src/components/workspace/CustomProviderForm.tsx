@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { PlugZap, Plus } from "lucide-react";
+import type {
+  CustomAuthStyle,
+  CustomProviderInput,
+  CustomRequestDialect,
+} from "../../context/ProviderContext";
+
+interface CustomProviderFormProps {
+  onRegister: (input: CustomProviderInput) => void;
+}
+
+const authLabels: Record<CustomAuthStyle, string> = {
+  bearer: "Authorization: Bearer <key>",
+  "x-api-key": "x-api-key: <key>",
+  "api-key": "api-key: <key>",
+  none: "No authentication",
+};
+
+const dialectLabels: Record<CustomRequestDialect, string> = {
+  chat: "Chat completions (/chat/completions)",
+  responses: "Responses (/responses)",
+};
+
+function parseModels(input: string): string[] {
+  return Array.from(
+    new Set(
+      input
+        .split(",")
+        .map((model) => model.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+export function CustomProviderForm({ onRegister }: CustomProviderFormProps) {
+  const [isOpen, setOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [baseUrl, setBaseUrl] = useState("http://localhost:8080/v1");
+  const [authStyle, setAuthStyle] = useState<CustomAuthStyle>("none");
+  const [dialect, setDialect] = useState<CustomRequestDialect>("chat");
+  const [modelsInput, setModelsInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRegister = () => {
+    const trimmedLabel = label.trim();
+    if (!trimmedLabel) {
+      setError("Give the provider a name.");
+      return;
+    }
+    try {
+      const url = new URL(baseUrl.trim());
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error("unsupported protocol");
+      }
+    } catch {
+      setError("Enter a full http(s) base URL, e.g. http://localhost:8080/v1");
+      return;
+    }
+    const models = parseModels(modelsInput);
+    if (models.length === 0) {
+      setError("List at least one model name the server accepts.");
+      return;
+    }
+    onRegister({
+      label: trimmedLabel,
+      models,
+      connector: { baseUrl: baseUrl.trim(), authStyle, dialect },
+    });
+    setLabel("");
+    setModelsInput("");
+    setError(null);
+    setOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <button type="button" className="ghost-button" onClick={() => setOpen(true)}>
+        <Plus size={16} /> Add OpenAI-compatible server
+      </button>
+    );
+  }
+
+  return (
+    <div className="custom-provider-form">
+      <label>
+        <span>Name</span>
+        <input value={label} onChange={(event) => setLabel(event.target.value)} placeholder="Local llama.cpp" />
+      </label>
+      <label>
+        <span>Base URL</span>
+        <input
+          value={baseUrl}
+          onChange={(event) => setBaseUrl(event.target.value)}
+          placeholder="http://localhost:1234/v1"
+        />
+        <small>Requests go to the base URL plus the dialect path below.</small>
+      </label>
+      <label>
+        <span>Auth header</span>
+        <select value={authStyle} onChange={(event) => setAuthStyle(event.target.value as CustomAuthStyle)}>
+          {(Object.keys(authLabels) as CustomAuthStyle[]).map((style) => (
+            <option key={style} value={style}>
+              {authLabels[style]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <span>Request dialect</span>
+        <select value={dialect} onChange={(event) => setDialect(event.target.value as CustomRequestDialect)}>
+          {(Object.keys(dialectLabels) as CustomRequestDialect[]).map((option) => (
+            <option key={option} value={option}>
+              {dialectLabels[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <span>Models (comma separated)</span>
+        <input
+          value={modelsInput}
+          onChange={(event) => setModelsInput(event.target.value)}
+          placeholder="llama-3.1-8b-instruct, qwen2.5-7b"
+        />
+      </label>
+      {error && <div className="notice notice--error">{error}</div>}
+      <div className="custom-provider-form__actions">
+        <button type="button" className="primary-button" onClick={handleRegister}>
+          <PlugZap size={16} /> Register provider
+        </button>
+        <button type="button" className="ghost-button" onClick={() => setOpen(false)}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
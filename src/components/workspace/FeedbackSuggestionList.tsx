@@ -0,0 +1,91 @@
+import { Check, X } from "lucide-react";
+import type { FeedbackIssue, StructuredFeedback } from "../../context/WorkspaceContext";
+import { issueScope, locateQuote } from "../../lib/feedback";
+
+interface FeedbackSuggestionListProps {
+  feedback: StructuredFeedback;
+  /** The current draft text; suggestions are re-anchored against it on every render. */
+  content: string;
+  onAccept: (issue: FeedbackIssue) => void;
+  onReject: (issue: FeedbackIssue) => void;
+}
+
+const CONTEXT_CHARS = 60;
+
+function excerptAround(content: string, start: number, end: number) {
+  const before = content.slice(Math.max(0, start - CONTEXT_CHARS), start);
+  const after = content.slice(end, end + CONTEXT_CHARS);
+  return {
+    before: (start > CONTEXT_CHARS ? "…" : "") + before.replace(/^\S*\s/, ""),
+    match: content.slice(start, end),
+    after: after.replace(/\s\S*$/, "") + (end + CONTEXT_CHARS < content.length ? "…" : ""),
+  };
+}
+
+export function FeedbackSuggestionList({ feedback, content, onAccept, onReject }: FeedbackSuggestionListProps) {
+  return (
+    <div className="feedback-suggestions">
+      {feedback.summary && <p className="feedback-suggestions__summary">{feedback.summary}</p>}
+      {feedback.sections && feedback.sections.length > 0 && (
+        <details className="feedback-suggestions__sections">
+          <summary>Reviewed in {feedback.sections.length} sections</summary>
+          <ol>
+            {feedback.sections.map((section) => (
+              <li key={section.index}>
+                <strong>{section.label}</strong>
+                {section.summary && <p>{section.summary}</p>}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+      {feedback.issues.length === 0 && <p className="feedback-suggestions__empty">No specific issues flagged.</p>}
+      {feedback.issues.map((issue) => {
+        const location = locateQuote(content, issue.quote, issueScope(issue));
+        const excerpt = location ? excerptAround(content, location.start, location.end) : null;
+        const canAccept = issue.status === "pending" && Boolean(location) && Boolean(issue.replacement);
+        return (
+          <div key={issue.id} className={`feedback-suggestion feedback-suggestion--${issue.status}`}>
+            <header>
+              <span className={`severity-badge severity-badge--${issue.severity}`}>{issue.severity}</span>
+              <span className="feedback-suggestion__category">{issue.category}</span>
+              {issue.section !== undefined && <span className="feedback-suggestion__section">Section {issue.section}</span>}
+              {issue.status !== "pending" && (
+                <span className="feedback-suggestion__status">{issue.status === "accepted" ? "Accepted" : "Rejected"}</span>
+              )}
+            </header>
+            <p>{issue.comment}</p>
+            {issue.quote &&
+              (excerpt ? (
+                <blockquote>
+                  {excerpt.before}
+                  <mark>{excerpt.match}</mark>
+                  {excerpt.after}
+                </blockquote>
+              ) : (
+                <blockquote className="feedback-suggestion__stale">
+                  “{issue.quote}”
+                  {issue.status === "pending" && <small> Not found in the current draft.</small>}
+                </blockquote>
+              ))}
+            {issue.replacement && (
+              <p className="feedback-suggestion__replacement">
+                <del>{issue.quote}</del> <ins>{issue.replacement}</ins>
+              </p>
+            )}
+            {issue.status === "pending" && (
+              <div className="feedback-suggestion__actions">
+                <button type="button" className="ghost-button" onClick={() => onAccept(issue)} disabled={!canAccept}>
+                  <Check size={14} /> Accept
+                </button>
+                <button type="button" className="ghost-button" onClick={() => onReject(issue)}>
+                  <X size={14} /> {issue.replacement ? "Reject" : "Dismiss"}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { KeyboardEvent, useState } from "react";
+import { Lock, Unlock } from "lucide-react";
+import { VAULT_IDLE_TIMEOUT_MS, useProviderRegistry } from "../../context/ProviderContext";
+
+/** Passphrase controls for the encrypted key vault. Lives inside the studio form, so no nested <form>. */
+export function KeyVaultPanel() {
+  const { vaultStatus, hasPlaintextKeys, createVault, unlockVault, lockVault, resetVault } = useProviderRegistry();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const idleMinutes = Math.round(VAULT_IDLE_TIMEOUT_MS / 60000);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase("");
+      setConfirmation("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Key vault operation failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (passphrase.length < 8) {
+      setError("Use at least 8 characters.");
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("Passphrases do not match.");
+      return;
+    }
+    void run(() => createVault(passphrase));
+  };
+
+  const handleUnlock = () => {
+    if (!passphrase) return;
+    void run(() => unlockVault(passphrase));
+  };
+
+  const handleReset = () => {
+    if (!confirm("Forget the passphrase and delete every stored API key?")) return;
+    resetVault();
+    setPassphrase("");
+    setError(null);
+  };
+
+  // Enter would otherwise submit the surrounding studio form and start a generation.
+  const submitOnEnter = (action: () => void) => (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== "Enter") return;
+    event.preventDefault();
+    action();
+  };
+
+  if (vaultStatus === "unlocked") {
+    return (
+      <div className="key-vault key-vault--unlocked">
+        <small>
+          <Unlock size={14} aria-hidden="true" /> Keys are encrypted at rest. The vault locks after {idleMinutes} minutes
+          without activity.
+        </small>
+        <button type="button" className="ghost-button" onClick={lockVault}>
+          Lock now
+        </button>
+      </div>
+    );
+  }
+
+  if (vaultStatus === "locked") {
+    return (
+      <div className="key-vault key-vault--locked">
+        <label>
+          <span>
+            <Lock size={14} aria-hidden="true" /> Unlock saved keys
+          </span>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            onKeyDown={submitOnEnter(handleUnlock)}
+            placeholder="Vault passphrase"
+            autoComplete="current-password"
+          />
+        </label>
+        {error && <p className="notice notice--error">{error}</p>}
+        <div className="key-vault__actions">
+          <button type="button" className="primary-button" onClick={handleUnlock} disabled={busy || !passphrase}>
+            {busy ? "Unlocking…" : "Unlock"}
+          </button>
+          <button type="button" className="ghost-button" onClick={handleReset} disabled={busy}>
+            Forgot passphrase
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="key-vault key-vault--unset">
+      <small>
+        {hasPlaintextKeys
+          ? "Your keys are stored unencrypted in this browser. Set a passphrase to encrypt them."
+          : "Keys you enter are stored unencrypted in this browser until you set a passphrase."}
+      </small>
+      <label>
+        <span>Passphrase</span>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          autoComplete="new-password"
+        />
+      </label>
+      <label>
+        <span>Confirm passphrase</span>
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(event) => setConfirmation(event.target.value)}
+          onKeyDown={submitOnEnter(handleCreate)}
+          autoComplete="new-password"
+        />
+      </label>
+      {error && <p className="notice notice--error">{error}</p>}
+      <button type="button" className="ghost-button" onClick={handleCreate} disabled={busy || !passphrase}>
+        {busy ? "Encrypting…" : "Encrypt and remember keys"}
+      </button>
+    </div>
+  );
+}
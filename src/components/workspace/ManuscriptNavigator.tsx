@@ -0,0 +1,255 @@
+import { DragEvent, useState } from "react";
+import { BookOpen, FilePlus2, GripVertical, PlusCircle, Trash2 } from "lucide-react";
+import { useWorkspace } from "../../context/WorkspaceContext";
+import type { SceneStatus, StoryDraft } from "../../context/WorkspaceContext";
+import { countWords } from "../../lib/continuation";
+import { SCENE_STATUS_LABELS, findScene, sceneCount } from "../../lib/manuscript";
+
+interface ManuscriptNavigatorProps {
+  draft: StoryDraft;
+}
+
+type Dragged = { kind: "chapter" | "scene"; id: string };
+
+/**
+ * Chapters and scenes of the active draft. Scenes and chapters are reordered
+ * by dragging; dropping onto a row takes that row's place, and dropping a scene
+ * onto a chapter heading moves it to the end of that chapter.
+ */
+export function ManuscriptNavigator({ draft }: ManuscriptNavigatorProps) {
+  const {
+    selectScene,
+    addChapter,
+    updateChapter,
+    deleteChapter,
+    addScene,
+    updateScene,
+    deleteScene,
+    moveChapter,
+    moveScene,
+  } = useWorkspace();
+  const [dragged, setDragged] = useState<Dragged | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const position = findScene(draft.chapters, draft.activeSceneId);
+  const lastScene = sceneCount(draft.chapters) <= 1;
+  const storyPerspective = draft.metadata.perspective;
+
+  const startDrag = (event: DragEvent, item: Dragged) => {
+    event.stopPropagation();
+    event.dataTransfer.effectAllowed = "move";
+    // Firefox only starts a drag that carries data.
+    event.dataTransfer.setData("text/plain", item.id);
+    setDragged(item);
+  };
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const allowDrop = (event: DragEvent, targetId: string, accepts: Dragged["kind"][]) => {
+    if (!dragged || !accepts.includes(dragged.kind) || dragged.id === targetId) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(targetId);
+  };
+
+  const dropOnChapter = (event: DragEvent, chapterId: string, chapterIndex: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (dragged?.kind === "chapter") {
+      moveChapter(draft.id, dragged.id, chapterIndex);
+    } else if (dragged?.kind === "scene") {
+      moveScene(draft.id, dragged.id, chapterId, Number.MAX_SAFE_INTEGER);
+    }
+    endDrag();
+  };
+
+  const dropOnScene = (event: DragEvent, chapterId: string, sceneIndex: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (dragged?.kind === "scene") moveScene(draft.id, dragged.id, chapterId, sceneIndex);
+    endDrag();
+  };
+
+  const confirmDeleteChapter = (chapterId: string, title: string, scenes: number) => {
+    if (scenes > 0 && !window.confirm(`Delete "${title}" and its ${scenes} scene${scenes === 1 ? "" : "s"}?`)) return;
+    deleteChapter(draft.id, chapterId);
+  };
+
+  const confirmDeleteScene = (sceneId: string, title: string, content: string) => {
+    if (content.trim() && !window.confirm(`Delete "${title}" and its text?`)) return;
+    deleteScene(draft.id, sceneId);
+  };
+
+  return (
+    <div className="studio-panel manuscript-navigator">
+      <header className="studio-panel__header">
+        <div>
+          <h3>Chapters & scenes</h3>
+          <p>Drag to reorder. Generation, continuation and feedback work on the selected scene.</p>
+        </div>
+        <button type="button" className="ghost-button" onClick={() => addChapter(draft.id)}>
+          <PlusCircle size={16} /> Chapter
+        </button>
+      </header>
+
+      <ol className="manuscript-tree">
+        {draft.chapters.map((chapter, chapterIndex) => (
+          <li
+            key={chapter.id}
+            className={`manuscript-tree__chapter${dropTarget === chapter.id ? " manuscript-tree__chapter--drop" : ""}`}
+            draggable
+            onDragStart={(event) => startDrag(event, { kind: "chapter", id: chapter.id })}
+            onDragEnd={endDrag}
+            onDragOver={(event) => allowDrop(event, chapter.id, ["chapter", "scene"])}
+            onDragLeave={() => setDropTarget((prev) => (prev === chapter.id ? null : prev))}
+            onDrop={(event) => dropOnChapter(event, chapter.id, chapterIndex)}
+          >
+            <div className="manuscript-tree__heading">
+              <GripVertical size={14} aria-hidden="true" />
+              <BookOpen size={14} aria-hidden="true" />
+              <strong>{chapter.title}</strong>
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={() => addScene(draft.id, chapter.id)}
+                title={`Add a scene to ${chapter.title}`}
+              >
+                <FilePlus2 size={14} />
+              </button>
+              <button
+                type="button"
+                className="ghost-button ghost-button--danger"
+                onClick={() => confirmDeleteChapter(chapter.id, chapter.title, chapter.scenes.length)}
+                disabled={chapter.scenes.length >= sceneCount(draft.chapters)}
+                title={`Delete ${chapter.title}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            {chapter.scenes.length === 0 ? (
+              <p className="manuscript-tree__empty">Drop a scene here or add one.</p>
+            ) : (
+              <ol className="manuscript-tree__scenes">
+                {chapter.scenes.map((scene, sceneIndex) => (
+                  <li
+                    key={scene.id}
+                    draggable
+                    onDragStart={(event) => startDrag(event, { kind: "scene", id: scene.id })}
+                    onDragEnd={endDrag}
+                    onDragOver={(event) => allowDrop(event, scene.id, ["scene"])}
+                    onDragLeave={() => setDropTarget((prev) => (prev === scene.id ? null : prev))}
+                    onDrop={(event) => dropOnScene(event, chapter.id, sceneIndex)}
+                  >
+                    <button
+                      type="button"
+                      className={[
+                        "manuscript-tree__scene",
+                        scene.id === draft.activeSceneId ? "manuscript-tree__scene--active" : "",
+                        dropTarget === scene.id ? "manuscript-tree__scene--drop" : "",
+                      ]
+                        .filter(Boolean)
+                        .join(" ")}
+                      onClick={() => selectScene(draft.id, scene.id)}
+                      aria-current={scene.id === draft.activeSceneId}
+                    >
+                      <GripVertical size={12} aria-hidden="true" />
+                      <span>{scene.title}</span>
+                      <small className={`manuscript-status manuscript-status--${scene.status}`}>
+                        {SCENE_STATUS_LABELS[scene.status]}
+                      </small>
+                      <small>{countWords(scene.content).toLocaleString()} words</small>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {position && (
+        <div className="manuscript-editor">
+          <h4>Scene</h4>
+          <label>
+            <span>Title</span>
+            <input
+              value={position.scene.title}
+              onChange={(event) => updateScene(draft.id, position.scene.id, { title: event.target.value })}
+            />
+          </label>
+          <div className="manuscript-editor__row">
+            <label>
+              <span>Status</span>
+              <select
+                value={position.scene.status}
+                onChange={(event) =>
+                  updateScene(draft.id, position.scene.id, { status: event.target.value as SceneStatus })
+                }
+              >
+                {(Object.keys(SCENE_STATUS_LABELS) as SceneStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {SCENE_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span>POV</span>
+              <input
+                value={position.scene.pov ?? ""}
+                placeholder={position.chapter.pov?.trim() || storyPerspective}
+                onChange={(event) => updateScene(draft.id, position.scene.id, { pov: event.target.value })}
+              />
+            </label>
+          </div>
+          <label>
+            <span>Summary</span>
+            <textarea
+              rows={3}
+              value={position.scene.summary}
+              placeholder="What happens here. Neighbouring scenes see this as context."
+              onChange={(event) => updateScene(draft.id, position.scene.id, { summary: event.target.value })}
+            />
+          </label>
+          <button
+            type="button"
+            className="ghost-button ghost-button--danger"
+            onClick={() => confirmDeleteScene(position.scene.id, position.scene.title, position.scene.content)}
+            disabled={lastScene}
+            title={lastScene ? "A draft keeps at least one scene" : undefined}
+          >
+            <Trash2 size={14} /> Delete scene
+          </button>
+
+          <h4>Chapter</h4>
+          <label>
+            <span>Title</span>
+            <input
+              value={position.chapter.title}
+              onChange={(event) => updateChapter(draft.id, position.chapter.id, { title: event.target.value })}
+            />
+          </label>
+          <label>
+            <span>POV</span>
+            <input
+              value={position.chapter.pov ?? ""}
+              placeholder={storyPerspective}
+              onChange={(event) => updateChapter(draft.id, position.chapter.id, { pov: event.target.value })}
+            />
+          </label>
+          <label>
+            <span>Summary</span>
+            <textarea
+              rows={2}
+              value={position.chapter.summary}
+              onChange={(event) => updateChapter(draft.id, position.chapter.id, { summary: event.target.value })}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { DEFAULT_MOCK_CONFIG, MockConfig, MockFailureMode, getMockConfig, setMockConfig } from "../../lib/clients/mock";
+
+const failureLabels: Record<MockFailureMode, string> = {
+  none: "Always succeed",
+  "404": "404 model not found (non-default models)",
+  "429": "429 rate limited",
+  "500": "500 server error",
+  timeout: "Timeout",
+};
+
+/** Studio controls for the offline mock provider; changes apply to the next request. */
+export function MockProviderSettings() {
+  const [config, setConfig] = useState<MockConfig>(() => getMockConfig());
+
+  const update = (patch: Partial<MockConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    setMockConfig(next);
+  };
+
+  const toDelay = (value: string) => Math.max(0, Math.round(Number(value) || 0));
+
+  return (
+    <div className="mock-provider-settings">
+      <small>
+        Deterministic prose built locally from your metadata and prompt. No key, network or spend. The same inputs
+        always produce the same draft.
+      </small>
+      <label>
+        <span>Latency (ms)</span>
+        <input
+          type="number"
+          min={0}
+          step={100}
+          value={config.latencyMs}
+          onChange={(event) => update({ latencyMs: toDelay(event.target.value) })}
+        />
+      </label>
+      <label>
+        <span>Stream chunk delay (ms)</span>
+        <input
+          type="number"
+          min={0}
+          step={5}
+          value={config.chunkDelayMs}
+          onChange={(event) => update({ chunkDelayMs: toDelay(event.target.value) })}
+        />
+      </label>
+      <label>
+        <span>Inject failure</span>
+        <select value={config.failure} onChange={(event) => update({ failure: event.target.value as MockFailureMode })}>
+          {(Object.keys(failureLabels) as MockFailureMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {failureLabels[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {config.failure !== "none" && (
+        <label>
+          <span>Failing attempts per request</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={config.failAttempts ?? ""}
+            placeholder="Every attempt"
+            onChange={(event) =>
+              update({ failAttempts: event.target.value ? Math.max(1, Math.round(Number(event.target.value))) : null })
+            }
+          />
+          <small>Leave blank to fail every attempt; 1 lets the first retry succeed.</small>
+        </label>
+      )}
+      <button type="button" className="ghost-button" onClick={() => update(DEFAULT_MOCK_CONFIG)}>
+        Reset mock settings
+      </button>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
-import { AlertTriangle, BarChart3, CheckCircle2, Loader2, Scale, ThumbsUp } from "lucide-react";
+import { AlertTriangle, BarChart3, CheckCircle2, Database, Loader2, Scale, ThumbsUp } from "lucide-react";
+import { providerRequiresKey } from "../../context/ProviderContext";
 import type { ProviderDescriptor, ProviderId } from "../../context/ProviderContext";
 import type { ModelABExperiment, ModelVariantResult, StoryMetadata } from "../../context/WorkspaceContext";
+import { formatCost } from "../../lib/pricing";
 
 const MAX_VARIANTS = 3;
 
@@ -19,11 +21,13 @@ interface ModelABExplorerPanelProps {
   selectedModel: string;
   experiments: ModelABExperiment[];
   workingExperiment: ModelABExperiment | null;
-  onRun: (selection: VariantSelection[]) => Promise<void> | void;
+  onRun: (selection: VariantSelection[], options: { bypassCache: boolean }) => Promise<void> | void;
   onMarkWinner: (experimentId: string, variantId: string) => void;
   onAdopt: (experimentId: string, variantId: string) => void;
   error?: string | null;
   isRunning: boolean;
+  /** Shows the bypass toggle; cached variants are badged either way. */
+  cacheEnabled?: boolean;
 }
 
 interface DiffSummary {
@@ -66,11 +70,13 @@ export function ModelABExplorerPanel({
   onAdopt,
   error,
   isRunning,
+  cacheEnabled = false,
 }: ModelABExplorerPanelProps) {
   const [selection, setSelection] = useState<VariantSelection[]>(() => [
     { providerId: selectedProviderId, model: selectedModel },
   ]);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
   const providerMap = useMemo(() => new Map(providers.map((provider) => [provider.id, provider])), [providers]);
   const tokenHint = useMemo(() => {
     if (metadata.targetTokens && metadata.targetTokens > 0) {
@@ -150,7 +156,7 @@ export function ModelABExplorerPanel({
       setLocalError("Select at least two providers to compare.");
       return;
     }
-    await onRun(selection);
+    await onRun(selection, { bypassCache });
   };
 
   const experimentsToDisplay = useMemo(() => {
@@ -172,7 +178,7 @@ export function ModelABExplorerPanel({
           <div className="ab-explorer__provider-grid">
             {providers.map((provider) => {
               const checked = selection.some((item) => item.providerId === provider.id);
-              const keyReady = Boolean(apiKeys[provider.id]);
+              const keyReady = !providerRequiresKey(provider) || Boolean(apiKeys[provider.id]);
               return (
                 <label key={provider.id} className={checked ? "ab-provider ab-provider--active" : "ab-provider"}>
                   <input
@@ -232,6 +238,13 @@ export function ModelABExplorerPanel({
           <div className="notice notice--error">{localError || error}</div>
         )}
 
+        {cacheEnabled && (
+          <label className="cache-toggle">
+            <input type="checkbox" checked={bypassCache} onChange={(event) => setBypassCache(event.target.checked)} />
+            Skip cache and call every provider again
+          </label>
+        )}
+
         <button type="submit" className="primary-button" disabled={isRunning}>
           {isRunning ? (
             <>
@@ -290,8 +303,16 @@ export function ModelABExplorerPanel({
                         <header>
                           <div>
                             <strong>
-                              {variant.providerLabel} · {variant.model}
+                              {variant.providerLabel} · {variant.servedModel ?? variant.model}
                             </strong>
+                            {variant.servedModel && variant.servedModel !== variant.model && (
+                              <small>Fell back from {variant.model}</small>
+                            )}
+                            {variant.cached && (
+                              <span className="cache-badge" title="Served from the response cache; the provider was not called">
+                                <Database size={12} /> Cached
+                              </span>
+                            )}
                             <span className={`ab-variant-status ab-variant-status--${variant.status}`}>
                               {variant.status === "pending" && (
                                 <>
@@ -313,8 +334,17 @@ export function ModelABExplorerPanel({
                           <dl>
                             <div>
                               <dt>Cost est.</dt>
-                              <dd>${variant.costEstimate.toFixed(3)}</dd>
+                              <dd>{formatCost(variant.costEstimate)}</dd>
                             </div>
+                            {variant.actualCost !== undefined && (
+                              <div>
+                                <dt>Actual</dt>
+                                <dd title={variant.costMeasured ? "From the provider's reported usage" : "Counted locally; the provider reported no usage"}>
+                                  {variant.costMeasured ? "" : "~"}
+                                  {formatCost(variant.actualCost)}
+                                </dd>
+                              </div>
+                            )}
                             <div>
                               <dt>Tokens</dt>
                               <dd>{variant.tokensUsed ?? variant.estimatedTokens}</dd>
@@ -0,0 +1,48 @@
+import { useSyncExternalStore } from "react";
+import { Hourglass, Loader2, X } from "lucide-react";
+import { cancelQueuedJob, getQueueSnapshot, subscribeToQueue } from "../../lib/scheduler";
+
+const PRIORITY_LABELS = { interactive: "Interactive", normal: "Normal", background: "Background" } as const;
+
+/** Live view of the request scheduler; renders nothing while the queue is empty. */
+export function RequestQueuePanel() {
+  const jobs = useSyncExternalStore(subscribeToQueue, getQueueSnapshot);
+  if (!jobs.length) return null;
+
+  const running = jobs.filter((job) => job.status === "running");
+  const queued = jobs.filter((job) => job.status === "queued");
+
+  return (
+    <div className="studio-panel request-queue">
+      <header className="studio-panel__header">
+        <div>
+          <h3>Request queue</h3>
+          <p>
+            {running.length} running · {queued.length} waiting. Limits per provider are set under Settings &rsaquo; Rate
+            limits.
+          </p>
+        </div>
+      </header>
+      <ul className="request-queue__list">
+        {[...running, ...queued].map((job) => (
+          <li key={job.id} className={`request-queue__item request-queue__item--${job.status}`}>
+            {job.status === "running" ? <Loader2 className="spin" size={14} /> : <Hourglass size={14} />}
+            <span className="request-queue__label">{job.label}</span>
+            <span className={`request-queue__priority request-queue__priority--${job.priority}`}>
+              {PRIORITY_LABELS[job.priority]}
+            </span>
+            <small>
+              {job.status === "running" ? "Running" : job.waitReason ?? "Queued"} · ~{job.estimatedTokens.toLocaleString()}{" "}
+              tokens
+            </small>
+            {job.status === "queued" && (
+              <button type="button" className="text-button" onClick={() => cancelQueuedJob(job.id)} aria-label="Remove from queue">
+                <X size={14} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from "react";
+import { History, RotateCcw, Tag } from "lucide-react";
+import type { ProvenanceRecord } from "../../context/WorkspaceContext";
+import { describeProvenance } from "../../lib/provenance";
+import { DraftRevision, REVISION_CAUSE_LABELS, revisionContent, storedCharacters } from "../../lib/revisions";
+import { diffLines, diffStats } from "../../lib/textDiff";
+import { SideBySideDiff } from "./SideBySideDiff";
+
+interface RevisionHistoryPanelProps {
+  revisions: DraftRevision[];
+  /** The draft as it stands, which may be ahead of the newest revision while a stream is running. */
+  content: string;
+  provenance: ProvenanceRecord[];
+  /** Restoring is held back while text is streaming into the draft. */
+  busy?: boolean;
+  onLabel: (revisionId: string, label: string) => void;
+  onRestore: (revisionId: string) => void;
+}
+
+type CompareMode = "previous" | "current";
+
+export function RevisionHistoryPanel({
+  revisions,
+  content,
+  provenance,
+  busy,
+  onLabel,
+  onRestore,
+}: RevisionHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<CompareMode>("previous");
+  const [labelDraft, setLabelDraft] = useState("");
+
+  // Follows the newest revision until the author picks one.
+  const found = revisions.findIndex((revision) => revision.id === selectedId);
+  const selectedIndex = found === -1 ? revisions.length - 1 : found;
+  const selected = revisions[selectedIndex];
+
+  useEffect(() => {
+    setLabelDraft(selected?.label ?? "");
+  }, [selected?.id, selected?.label]);
+
+  const selectedText = useMemo(
+    () => (selected ? revisionContent(revisions, selectedIndex) : ""),
+    [revisions, selected, selectedIndex]
+  );
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    if (compare === "current") return diffLines(selectedText, content);
+    const previous = selectedIndex > 0 ? revisionContent(revisions, selectedIndex - 1) : "";
+    return diffLines(previous, selectedText);
+  }, [compare, content, revisions, selected, selectedIndex, selectedText]);
+  const stats = diffStats(rows);
+
+  const fullCopies = useMemo(
+    () => revisions.reduce((total, _revision, index) => total + revisionContent(revisions, index).length, 0),
+    [revisions]
+  );
+
+  if (!revisions.length || !selected) {
+    return <p className="studio-output__placeholder">Generate or edit the draft to start its history.</p>;
+  }
+
+  const source = selected.provenanceId && provenance.find((record) => record.id === selected.provenanceId);
+  const restoredFrom = selected.restoredFrom && revisions.find((revision) => revision.id === selected.restoredFrom);
+  const isCurrent = selectedText === content;
+
+  return (
+    <div className="revision-history">
+      <ol className="revision-history__list">
+        {revisions
+          .map((revision, index) => ({ revision, index }))
+          .reverse()
+          .map(({ revision, index }) => (
+            <li key={revision.id}>
+              <button
+                type="button"
+                className={`revision-history__item${revision.id === selected.id ? " revision-history__item--active" : ""}`}
+                onClick={() => setSelectedId(revision.id)}
+              >
+                <span className="revision-history__cause">
+                  {revision.label ? <Tag size={12} /> : <History size={12} />}
+                  {revision.label || REVISION_CAUSE_LABELS[revision.cause]}
+                </span>
+                <small>
+                  #{index + 1} · {new Date(revision.createdAt).toLocaleString()} · {revision.words.toLocaleString()} words
+                </small>
+              </button>
+            </li>
+          ))}
+      </ol>
+
+      <div className="revision-history__detail">
+        <header>
+          <div>
+            <strong>
+              #{selectedIndex + 1} · {REVISION_CAUSE_LABELS[selected.cause]}
+            </strong>
+            <small>
+              {source ? describeProvenance(source) : new Date(selected.createdAt).toLocaleString()}
+              {restoredFrom ? ` · from ${restoredFrom.label || `#${revisions.indexOf(restoredFrom) + 1}`}` : ""}
+            </small>
+          </div>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => onRestore(selected.id)}
+            disabled={isCurrent || busy}
+            title={isCurrent ? "This is the text in the draft now" : busy ? "Wait for the current request to finish" : undefined}
+          >
+            <RotateCcw size={14} /> Restore
+          </button>
+        </header>
+
+        <form
+          className="revision-history__label"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onLabel(selected.id, labelDraft);
+          }}
+        >
+          <input
+            value={labelDraft}
+            placeholder="Label this revision, e.g. Before the rewrite"
+            onChange={(event) => setLabelDraft(event.target.value)}
+          />
+          <button type="submit" className="ghost-button" disabled={labelDraft.trim() === (selected.label ?? "")}>
+            Save label
+          </button>
+        </form>
+
+        <div className="chip-group">
+          <button
+            type="button"
+            className={`chip${compare === "previous" ? " chip--active" : ""}`}
+            onClick={() => setCompare("previous")}
+          >
+            Changes in this revision
+          </button>
+          <button
+            type="button"
+            className={`chip${compare === "current" ? " chip--active" : ""}`}
+            onClick={() => setCompare("current")}
+          >
+            Compare with current draft
+          </button>
+        </div>
+
+        <p className="notice--muted" style={{ margin: 0 }}>
+          {stats.added + stats.removed + stats.changed === 0
+            ? "No differences."
+            : `${stats.changed} changed · ${stats.added} added · ${stats.removed} removed lines`}
+        </p>
+
+        <SideBySideDiff
+          rows={rows}
+          beforeLabel={compare === "current" ? `Revision #${selectedIndex + 1}` : "Before"}
+          afterLabel={compare === "current" ? "Current draft" : `Revision #${selectedIndex + 1}`}
+        />
+      </div>
+
+      <small className="revision-history__storage">
+        {revisions.length} revision{revisions.length === 1 ? "" : "s"} · {storedCharacters(revisions).toLocaleString()}{" "}
+        characters stored for {fullCopies.toLocaleString()} characters of text
+      </small>
+    </div>
+  );
+}
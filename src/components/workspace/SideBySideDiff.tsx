@@ -0,0 +1,44 @@
+import type { DiffRow, DiffSegment } from "../../lib/textDiff";
+
+interface SideBySideDiffProps {
+  rows: DiffRow[];
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+function Segments({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.changed ? <mark key={index}>{segment.text}</mark> : <span key={index}>{segment.text}</span>
+      )}
+    </>
+  );
+}
+
+export function SideBySideDiff({ rows, beforeLabel, afterLabel }: SideBySideDiffProps) {
+  return (
+    <div className="revision-diff" role="table" aria-label="Side-by-side comparison">
+      <div className="revision-diff__row revision-diff__row--heading" role="row">
+        <span role="columnheader">{beforeLabel}</span>
+        <span role="columnheader">{afterLabel}</span>
+      </div>
+      {rows.map((row, index) =>
+        row.kind === "skipped" ? (
+          <div key={index} className="revision-diff__skipped" role="row">
+            {row.skipped} unchanged line{row.skipped === 1 ? "" : "s"}
+          </div>
+        ) : (
+          <div key={index} className={`revision-diff__row revision-diff__row--${row.kind}`} role="row">
+            <span role="cell" className="revision-diff__before">
+              <Segments segments={row.before} />
+            </span>
+            <span role="cell" className="revision-diff__after">
+              <Segments segments={row.after} />
+            </span>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
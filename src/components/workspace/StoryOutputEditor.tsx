@@ -0,0 +1,150 @@
+import { FormEvent, SyntheticEvent, useEffect, useMemo, useState } from "react";
+import { Check, Loader2, Wand2, X } from "lucide-react";
+import { countWords } from "../../lib/continuation";
+import { EDIT_ACTIONS, EditAction, RewriteProposal, TextRange } from "../../lib/selectionEdit";
+import { diffLines } from "../../lib/textDiff";
+import { SideBySideDiff } from "./SideBySideDiff";
+
+interface StoryOutputEditorProps {
+  title: string;
+  content: string;
+  /** Text is streaming in; the author cannot type over it. */
+  readOnly?: boolean;
+  /** A rewrite request for a selection is running. */
+  rewriting?: boolean;
+  /** A replacement waiting for a decision; the text is locked until it is accepted or rejected. */
+  proposal: RewriteProposal | null;
+  onChange: (content: string) => void;
+  onRewrite: (action: EditAction, range: TextRange, prompt: string) => void;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+/** The scene text as an editor, with AI rewrites for a selected passage previewed before they replace it. */
+export function StoryOutputEditor({
+  title,
+  content,
+  readOnly,
+  rewriting,
+  proposal,
+  onChange,
+  onRewrite,
+  onAccept,
+  onReject,
+}: StoryOutputEditorProps) {
+  const [selection, setSelection] = useState<TextRange | null>(null);
+  const [promptFor, setPromptFor] = useState<EditAction | null>(null);
+  const [prompt, setPrompt] = useState("");
+
+  const locked = Boolean(readOnly || rewriting || proposal);
+  const selectedText = selection ? content.slice(selection.start, selection.end) : "";
+  const hasSelection = Boolean(selectedText.trim());
+
+  useEffect(() => {
+    if (!proposal) setSelection(null);
+  }, [proposal]);
+
+  const rows = useMemo(() => (proposal ? diffLines(proposal.original, proposal.replacement) : []), [proposal]);
+
+  const trackSelection = (event: SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    setSelection(selectionEnd > selectionStart ? { start: selectionStart, end: selectionEnd } : null);
+  };
+
+  const runAction = (action: EditAction) => {
+    if (!selection || !hasSelection) return;
+    if (EDIT_ACTIONS[action].needsPrompt) {
+      setPromptFor(action);
+      return;
+    }
+    onRewrite(action, selection, "");
+  };
+
+  const submitPrompt = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!promptFor || !selection || !prompt.trim()) return;
+    onRewrite(promptFor, selection, prompt.trim());
+    setPromptFor(null);
+    setPrompt("");
+  };
+
+  return (
+    <div className="story-editor">
+      <div className="story-editor__toolbar" role="toolbar" aria-label="Rewrite the selected passage">
+        <span>
+          {rewriting ? (
+            <>
+              <Loader2 className="spin" size={14} /> Rewriting the selection…
+            </>
+          ) : hasSelection ? (
+            `${countWords(selectedText).toLocaleString()} words selected`
+          ) : (
+            "Select a passage to rewrite it"
+          )}
+        </span>
+        {(Object.keys(EDIT_ACTIONS) as EditAction[]).map((action) => (
+          <button
+            key={action}
+            type="button"
+            className={`chip${promptFor === action ? " chip--active" : ""}`}
+            onClick={() => runAction(action)}
+            disabled={!hasSelection || locked}
+          >
+            {EDIT_ACTIONS[action].label}
+          </button>
+        ))}
+      </div>
+      {promptFor && (
+        <form className="story-editor__prompt" onSubmit={submitPrompt}>
+          <input
+            autoFocus
+            value={prompt}
+            onChange={(event) => setPrompt(event.target.value)}
+            placeholder={EDIT_ACTIONS[promptFor].needsPrompt}
+          />
+          <button type="submit" className="ghost-button" disabled={!prompt.trim() || !hasSelection || locked}>
+            <Wand2 size={14} /> {EDIT_ACTIONS[promptFor].label}
+          </button>
+          <button type="button" className="ghost-button" onClick={() => setPromptFor(null)}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {proposal && (
+        <div className="story-editor__proposal">
+          <header>
+            <strong>{proposal.label}</strong>
+            <small>
+              {countWords(proposal.original).toLocaleString()} → {countWords(proposal.replacement).toLocaleString()} words
+            </small>
+          </header>
+          <SideBySideDiff rows={rows} beforeLabel="Current text" afterLabel="Proposed" />
+          <div className="story-editor__decision">
+            <button type="button" className="primary-button" onClick={onAccept}>
+              <Check size={14} /> Accept
+            </button>
+            <button type="button" className="ghost-button" onClick={onReject}>
+              <X size={14} /> Reject
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="studio-output">
+        <article>
+          <h2>{title}</h2>
+          <textarea
+            className="story-editor__text"
+            value={content}
+            readOnly={locked}
+            onChange={(event) => onChange(event.target.value)}
+            onSelect={trackSelection}
+            placeholder="Your story will appear here once you generate a draft, or start writing."
+            aria-label="Scene text"
+          />
+        </article>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+import { History, Redo2, Undo2 } from "lucide-react";
+import { useWorkspace } from "../../context/WorkspaceContext";
+
+/** How many steps the popover lists on each side. */
+const VISIBLE_STEPS = 12;
+
+/** Text fields keep their own native undo for the characters being typed. */
+function isEditable(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+function describeAge(at: number) {
+  const seconds = Math.round((Date.now() - at) / 1000);
+  if (seconds < 60) return "just now";
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min ago` : new Date(at).toLocaleTimeString();
+}
+
+/** Undo and redo for workspace changes, with Ctrl+Z / Ctrl+Shift+Z and a list of recent steps. */
+export function UndoHistoryBar() {
+  const { undoStack, redoStack, undo, redo } = useWorkspace();
+  const [open, setOpen] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handler = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey || isEditable(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent | KeyboardEvent) => {
+      if (event instanceof KeyboardEvent ? event.key === "Escape" : !popoverRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    window.addEventListener("mousedown", close);
+    window.addEventListener("keydown", close);
+    return () => {
+      window.removeEventListener("mousedown", close);
+      window.removeEventListener("keydown", close);
+    };
+  }, [open]);
+
+  const lastUndo = undoStack[undoStack.length - 1];
+  const lastRedo = redoStack[redoStack.length - 1];
+  const recentUndo = undoStack.slice(-VISIBLE_STEPS).reverse();
+  const recentRedo = redoStack.slice(-VISIBLE_STEPS);
+
+  return (
+    <div className="undo-bar" ref={popoverRef}>
+      <button
+        type="button"
+        className="ghost-button"
+        onClick={() => undo()}
+        disabled={!lastUndo}
+        title={lastUndo ? `Undo ${lastUndo.label} (Ctrl+Z)` : "Nothing to undo"}
+      >
+        <Undo2 size={16} /> Undo
+      </button>
+      <button
+        type="button"
+        className="ghost-button"
+        onClick={() => redo()}
+        disabled={!lastRedo}
+        title={lastRedo ? `Redo ${lastRedo.label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+      >
+        <Redo2 size={16} /> Redo
+      </button>
+      <button
+        type="button"
+        className="ghost-button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        disabled={!lastUndo && !lastRedo}
+      >
+        <History size={16} /> History
+      </button>
+
+      {open && (
+        <div className="undo-bar__popover" role="dialog" aria-label="Recent changes">
+          {recentRedo.length > 0 && (
+            <ol className="undo-bar__list undo-bar__list--redo">
+              {recentRedo.map((entry, index) => (
+                <li key={entry.id}>
+                  <button type="button" onClick={() => redo(recentRedo.length - index)}>
+                    <span>{entry.label}</span>
+                    <small>Undone · {describeAge(entry.at)}</small>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          <p className="undo-bar__now">Current state</p>
+          {recentUndo.length === 0 ? (
+            <p className="notice--muted">Nothing to undo yet.</p>
+          ) : (
+            <ol className="undo-bar__list">
+              {recentUndo.map((entry, index) => (
+                <li key={entry.id}>
+                  <button type="button" onClick={() => undo(index + 1)} title="Undo back to before this change">
+                    <span>{entry.label}</span>
+                    <small>{describeAge(entry.at)}</small>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
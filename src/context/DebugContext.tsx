@@ -1,7 +1,8 @@
 ﻿import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useReducer, useState } from "react";
 import { generateId } from "../utils/crypto";
+import { redactSecrets, redactText } from "../utils/redact";
 
-export type DebugLogLevel = "info" | "request" | "response" | "error";
+export type DebugLogLevel = "info" | "request" | "response" | "cache" | "retry" | "failover" | "error" | "cancelled";
 
 export interface DebugLogEntry {
   id: string;
@@ -47,6 +48,9 @@ export function DebugProvider({ children }: { children: ReactNode }) {
         id: generateId("log"),
         timestamp: new Date().toISOString(),
         ...entry,
+        // Entries are shown, copied and exported, so keys never make it into the log.
+        summary: redactText(entry.summary),
+        payload: redactSecrets(entry.payload),
       },
     });
   }, []);
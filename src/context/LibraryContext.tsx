@@ -1,6 +1,7 @@
 import { createContext, ReactNode, useCallback, useContext, useMemo, useReducer } from "react";
 import { StoryMetadata } from "./WorkspaceContext";
 import { generateId } from "../utils/crypto";
+import type { ProvenanceSummary } from "../lib/provenance";
 import { useModeration } from "./ModerationContext";
 import { useAuth } from "./AuthContext";
 
@@ -27,6 +28,8 @@ export interface PublishedStory {
   coverGallery?: string[];
   coverStyle?: string;
   likeUserIds: string[];
+  /** Which models wrote the draft, carried over from its provenance at publish time. */
+  provenance?: ProvenanceSummary;
 }
 
 interface LibraryState {
@@ -43,6 +46,7 @@ interface PublishInput {
   coverImage?: string;
   coverGallery?: string[];
   coverStyle?: string;
+  provenance?: ProvenanceSummary;
 }
 
 interface ReviewInput {
@@ -182,6 +186,7 @@ export function LibraryProvider({ children }: { children: ReactNode }) {
       coverGallery: input.coverGallery ?? (input.coverImage ? [input.coverImage] : []),
       coverStyle: input.coverStyle,
       likeUserIds: [],
+      provenance: input.provenance,
     };
     dispatch({ type: "publish", story });
     return story;
@@ -1,7 +1,20 @@
-﻿import { createContext, ReactNode, useCallback, useContext, useMemo, useState } from "react";
-import { generateId } from "../utils/crypto";
+﻿import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { EncryptedPayload, PBKDF2_ITERATIONS, decryptJson, deriveEncryptionKey, encryptJson, generateId, randomSalt } from "../utils/crypto";
+import { AIErrorClass, DEFAULT_RETRY_POLICY, ModelCatalogueEntry, RetryOptions, RetryPolicy } from "../lib/clients/base";
+import { listModels } from "../lib/storyEngine";
 
-export type ProviderId = "openai" | "anthropic" | "gemini" | "deepseek" | `custom:${string}`;
+export type ProviderId = "openai" | "anthropic" | "gemini" | "deepseek" | "mock" | `custom:${string}`;
+
+export type CustomAuthStyle = "bearer" | "x-api-key" | "api-key" | "none";
+
+export type CustomRequestDialect = "chat" | "responses";
+
+/** Connection details for a user-registered, OpenAI-compatible server (llama.cpp, vLLM, LM Studio...). */
+export interface CustomConnector {
+  baseUrl: string;
+  authStyle: CustomAuthStyle;
+  dialect: CustomRequestDialect;
+}
 
 export interface ProviderDescriptor {
   id: ProviderId;
@@ -10,18 +23,86 @@ export interface ProviderDescriptor {
   docsUrl: string;
   defaultModel: string;
   type: "chat" | "text";
+  connector?: CustomConnector;
+  /** Models to step down through, most capable first. Defaults to just `defaultModel`. */
+  fallbackChain?: string[];
+  /** Error classes that move a request to the next model in the chain. Defaults to `model_unavailable`. */
+  fallbackOn?: AIErrorClass[];
+}
+
+/** A provider's model list as last fetched from its API. */
+export interface ModelCatalogue {
+  fetchedAt: string;
+  models: ModelCatalogueEntry[];
 }
 
+export const MODEL_CATALOGUE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type ModelStatus = "listed" | "deprecated" | "stale" | "unverified";
+
+export function isCatalogueExpired(catalogue: ModelCatalogue, now = Date.now()) {
+  return now - new Date(catalogue.fetchedAt).getTime() > MODEL_CATALOGUE_TTL_MS;
+}
+
+/** "stale" means the vendor no longer lists the model; "unverified" means no catalogue has been fetched. */
+export function modelStatus(catalogue: ModelCatalogue | undefined, model: string): ModelStatus {
+  if (!catalogue) return "unverified";
+  const entry = catalogue.models.find((item) => item.id === model);
+  if (!entry) return "stale";
+  return entry.deprecated ? "deprecated" : "listed";
+}
+
+export interface CustomProviderInput {
+  label: string;
+  docsUrl?: string;
+  models?: string[];
+  connector?: CustomConnector;
+}
+
+/**
+ * "unset": no passphrase yet, keys live in memory for this session only.
+ * "locked": an encrypted vault exists but its key has not been derived this session.
+ */
+export type VaultStatus = "unset" | "locked" | "unlocked";
+
+/** The vault locks itself after this long without pointer or keyboard activity. */
+export const VAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
 interface ProviderContextValue {
   providers: ProviderDescriptor[];
   selectedProvider: ProviderDescriptor;
   selectedModel: string;
   apiKeys: Record<ProviderId, string>;
   modelSelections: Record<ProviderId, string>;
+  /** Ignored while the vault is locked. */
   setApiKey: (provider: ProviderId, key: string) => void;
+  vaultStatus: VaultStatus;
+  /** True while keys sit unencrypted in storage, saved before a vault was created. */
+  hasPlaintextKeys: boolean;
+  /** Encrypts the current keys under `passphrase` and removes any plaintext copy. Rejects when a vault exists. */
+  createVault: (passphrase: string) => Promise<void>;
+  /** Rejects with "Incorrect passphrase" when decryption fails. */
+  unlockVault: (passphrase: string) => Promise<void>;
+  lockVault: () => void;
+  /** Forgets the passphrase and every stored key. */
+  resetVault: () => void;
   selectProvider: (providerId: ProviderId) => void;
   setModel: (provider: ProviderId, model: string) => void;
-  registerCustomProvider: (input: { label: string; docsUrl?: string; models?: string[] }) => ProviderDescriptor;
+  registerCustomProvider: (input: CustomProviderInput) => ProviderDescriptor;
+  removeCustomProvider: (providerId: ProviderId) => void;
+  /** Per-provider overrides; providers without an entry use `DEFAULT_RETRY_POLICY`. */
+  retryPolicies: Partial<Record<ProviderId, RetryPolicy>>;
+  getRetryPolicy: (providerId: ProviderId) => RetryPolicy;
+  setRetryPolicy: (providerId: ProviderId, policy: RetryPolicy | null) => void;
+  /**
+   * Providers tried in order when story generation fails with a server error, timeout or network
+   * failure. The selected provider and providers without a stored key are skipped at request time.
+   */
+  failoverOrder: ProviderId[];
+  setFailoverOrder: (order: ProviderId[]) => void;
+  catalogues: Partial<Record<ProviderId, ModelCatalogue>>;
+  /** Fetches the vendor's model list unless a cached copy is younger than the TTL (or `force` is set). */
+  refreshModels: (providerId: ProviderId, options?: { force?: boolean; retry?: RetryOptions }) => Promise<ModelCatalogue>;
 }
 
 const ProviderRegistryContext = createContext<ProviderContextValue | undefined>(undefined);
@@ -30,6 +111,16 @@ const STORAGE_KEYS_KEY = "sf:provider-keys";
 const STORAGE_SELECTED_KEY = "sf:provider-selected";
 const STORAGE_CUSTOM_KEY = "sf:provider-custom";
 const STORAGE_MODEL_KEY = "sf:provider-models";
+const STORAGE_RETRY_KEY = "sf:provider-retry";
+const STORAGE_FAILOVER_KEY = "sf:provider-failover";
+const STORAGE_CATALOGUE_KEY = "sf:provider-catalogue";
+const STORAGE_VAULT_KEY = "sf:provider-vault";
+
+interface UnlockedVault {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
 
 const defaultProviders: ProviderDescriptor[] = [
   {
@@ -39,6 +130,8 @@ const defaultProviders: ProviderDescriptor[] = [
     models: ["gpt-4o-mini", "gpt-4o"],
     defaultModel: "gpt-4o-mini",
     type: "chat",
+    fallbackChain: ["gpt-4o", "gpt-4o-2024-08-06", "gpt-4o-mini", "gpt-4o-mini-2024-07-18"],
+    fallbackOn: ["model_unavailable"],
   },
   {
     id: "anthropic",
@@ -47,6 +140,8 @@ const defaultProviders: ProviderDescriptor[] = [
     models: ["claude-3-5-haiku-latest", "claude-3-5-sonnet", "claude-3-5-opus", "claude-3-opus", "claude-3-haiku"],
     defaultModel: "claude-3-5-haiku-latest",
     type: "chat",
+    fallbackChain: ["claude-3-opus", "claude-3-5-sonnet", "claude-3-5-haiku-latest", "claude-3-haiku"],
+    fallbackOn: ["model_unavailable", "server"],
   },
   {
     id: "gemini",
@@ -63,6 +158,15 @@ const defaultProviders: ProviderDescriptor[] = [
     ],
     defaultModel: "gemini-1.5-flash-001",
     type: "chat",
+    fallbackChain: [
+      "gemini-1.5-pro",
+      "gemini-1.5-pro-001",
+      "gemini-1.5-flash",
+      "gemini-1.5-flash-001",
+      "gemini-1.5-flash-8b",
+      "gemini-1.5-flash-8b-001",
+    ],
+    fallbackOn: ["model_unavailable"],
   },
   {
     id: "deepseek",
@@ -71,9 +175,26 @@ const defaultProviders: ProviderDescriptor[] = [
     models: ["deepseek-chat", "deepseek-reasoner", "deepseek-coder", "deepseek-math"],
     defaultModel: "deepseek-chat",
     type: "chat",
+    fallbackChain: ["deepseek-reasoner", "deepseek-chat"],
+    fallbackOn: ["model_unavailable", "server"],
+  },
+  {
+    id: "mock",
+    label: "Offline mock",
+    docsUrl: "",
+    models: ["mock-storyteller", "mock-storyteller-draft"],
+    defaultModel: "mock-storyteller",
+    type: "text",
+    fallbackChain: ["mock-storyteller-draft", "mock-storyteller"],
+    fallbackOn: ["model_unavailable"],
   },
 ];
 
+export function providerRequiresKey(provider: ProviderDescriptor) {
+  if (provider.id === "mock") return false;
+  return provider.connector?.authStyle !== "none";
+}
+
 function load<T>(key: string, fallback: T): T {
   const stored = localStorage.getItem(key);
   if (!stored) return fallback;
@@ -86,12 +207,42 @@ function load<T>(key: string, fallback: T): T {
 }
 
 export function ProviderRegistryProvider({ children }: { children: ReactNode }) {
-  const [apiKeys, setApiKeys] = useState<Record<ProviderId, string>>(() => load(STORAGE_KEYS_KEY, {} as Record<ProviderId, string>));
+  const [vault, setVault] = useState<EncryptedPayload | null>(() => load(STORAGE_VAULT_KEY, null as EncryptedPayload | null));
+  // Plaintext keys from before the vault existed are only read when no vault has been created.
+  const [apiKeys, setApiKeys] = useState<Record<ProviderId, string>>(() =>
+    localStorage.getItem(STORAGE_VAULT_KEY) ? ({} as Record<ProviderId, string>) : load(STORAGE_KEYS_KEY, {} as Record<ProviderId, string>)
+  );
+  const [hasPlaintextKeys, setHasPlaintextKeys] = useState(() => localStorage.getItem(STORAGE_KEYS_KEY) !== null);
+  const [unlocked, setUnlocked] = useState(false);
+  const unlockedVault = useRef<UnlockedVault | null>(null);
+  const pendingWrite = useRef<Promise<void>>(Promise.resolve());
+  const lastActivity = useRef(Date.now());
   const [customProviders, setCustomProviders] = useState<ProviderDescriptor[]>(() => load(STORAGE_CUSTOM_KEY, [] as ProviderDescriptor[]));
   const [selectedId, setSelectedId] = useState<ProviderId>(() => load(STORAGE_SELECTED_KEY, defaultProviders[0].id));
   const [modelSelections, setModelSelections] = useState<Record<ProviderId, string>>(() => load(STORAGE_MODEL_KEY, {} as Record<ProviderId, string>));
+  const [retryPolicies, setRetryPolicies] = useState<Partial<Record<ProviderId, RetryPolicy>>>(() =>
+    load(STORAGE_RETRY_KEY, {} as Partial<Record<ProviderId, RetryPolicy>>)
+  );
+  const [failoverOrder, setFailoverOrderState] = useState<ProviderId[]>(() => load(STORAGE_FAILOVER_KEY, [] as ProviderId[]));
 
-  const providers = useMemo(() => [...defaultProviders, ...customProviders], [customProviders]);
+  const [catalogues, setCatalogues] = useState<Partial<Record<ProviderId, ModelCatalogue>>>(() =>
+    load(STORAGE_CATALOGUE_KEY, {} as Partial<Record<ProviderId, ModelCatalogue>>)
+  );
+
+  // Preset models stay first (and stay selectable even when stale) so saved selections keep working.
+  const providers = useMemo(
+    () =>
+      [...defaultProviders, ...customProviders].map((provider) => {
+        const catalogue = catalogues[provider.id];
+        if (!catalogue) return provider;
+        const discovered = catalogue.models
+          .map((entry) => entry.id)
+          .filter((id) => !provider.models.includes(id))
+          .sort();
+        return { ...provider, models: [...provider.models, ...discovered] };
+      }),
+    [catalogues, customProviders]
+  );
 
   const selectedProvider = useMemo(() => {
     const match = providers.find((provider) => provider.id === selectedId);
@@ -106,20 +257,116 @@ export function ProviderRegistryProvider({ children }: { children: ReactNode })
     return selectedProvider.defaultModel;
   }, [modelSelections, selectedProvider]);
 
+  const vaultStatus: VaultStatus = !vault ? "unset" : unlocked ? "unlocked" : "locked";
+
+  /**
+   * Encrypts and stores `keys`; writes are chained so a slow encryption never
+   * overwrites a newer one. Until a vault exists they are stored as before, in
+   * plain text, and the vault panel says so.
+   */
+  const persistKeys = useCallback((keys: Record<ProviderId, string>) => {
+    const target = unlockedVault.current;
+    if (!target) {
+      if (Object.keys(keys).length) {
+        localStorage.setItem(STORAGE_KEYS_KEY, JSON.stringify(keys));
+      } else {
+        localStorage.removeItem(STORAGE_KEYS_KEY);
+      }
+      setHasPlaintextKeys(Object.keys(keys).length > 0);
+      return;
+    }
+    pendingWrite.current = pendingWrite.current
+      .then(async () => {
+        const payload = await encryptJson(target.key, target.salt, target.iterations, keys);
+        if (unlockedVault.current !== target) return;
+        localStorage.setItem(STORAGE_VAULT_KEY, JSON.stringify(payload));
+        setVault(payload);
+      })
+      .catch((error) => console.error("Failed to write key vault", error));
+  }, []);
+
   const setApiKey = useCallback<ProviderContextValue["setApiKey"]>((providerId, key) => {
+    if (vault && !unlockedVault.current) return;
     const sanitized = key.trim();
-    setApiKeys((prev) => {
-      const next = { ...prev } as Record<ProviderId, string>;
-      if (!sanitized) {
-        delete next[providerId];
-      } else {
-        next[providerId] = sanitized;
+    const next = { ...apiKeys } as Record<ProviderId, string>;
+    if (!sanitized) {
+      delete next[providerId];
+    } else {
+      next[providerId] = sanitized;
+    }
+    setApiKeys(next);
+    persistKeys(next);
+  }, [apiKeys, persistKeys, vault]);
+
+  const createVault = useCallback<ProviderContextValue["createVault"]>(
+    async (passphrase) => {
+      if (!passphrase) throw new Error("Enter a passphrase");
+      // A locked vault's keys are not in memory; encrypting now would overwrite them with nothing.
+      if (vault) throw new Error("A key vault already exists. Unlock it, or reset it to start over.");
+      const salt = randomSalt();
+      const key = await deriveEncryptionKey(passphrase, salt, PBKDF2_ITERATIONS);
+      const payload = await encryptJson(key, salt, PBKDF2_ITERATIONS, apiKeys);
+      localStorage.setItem(STORAGE_VAULT_KEY, JSON.stringify(payload));
+      localStorage.removeItem(STORAGE_KEYS_KEY);
+      unlockedVault.current = { key, salt, iterations: PBKDF2_ITERATIONS };
+      lastActivity.current = Date.now();
+      setVault(payload);
+      setHasPlaintextKeys(false);
+      setUnlocked(true);
+    },
+    [apiKeys, vault]
+  );
+
+  const unlockVault = useCallback<ProviderContextValue["unlockVault"]>(
+    async (passphrase) => {
+      if (!vault) throw new Error("No key vault has been created");
+      const key = await deriveEncryptionKey(passphrase, vault.salt, vault.iterations);
+      let keys: Record<ProviderId, string>;
+      try {
+        keys = await decryptJson<Record<ProviderId, string>>(key, vault);
+      } catch {
+        throw new Error("Incorrect passphrase");
       }
-      localStorage.setItem(STORAGE_KEYS_KEY, JSON.stringify(next));
-      return next;
-    });
+      unlockedVault.current = { key, salt: vault.salt, iterations: vault.iterations };
+      lastActivity.current = Date.now();
+      setApiKeys(keys);
+      setUnlocked(true);
+    },
+    [vault]
+  );
+
+  const lockVault = useCallback(() => {
+    unlockedVault.current = null;
+    setApiKeys({} as Record<ProviderId, string>);
+    setUnlocked(false);
+  }, []);
+
+  const resetVault = useCallback(() => {
+    unlockedVault.current = null;
+    localStorage.removeItem(STORAGE_VAULT_KEY);
+    localStorage.removeItem(STORAGE_KEYS_KEY);
+    setVault(null);
+    setApiKeys({} as Record<ProviderId, string>);
+    setHasPlaintextKeys(false);
+    setUnlocked(false);
   }, []);
 
+  useEffect(() => {
+    if (!unlocked) return;
+    const markActive = () => {
+      lastActivity.current = Date.now();
+    };
+    const events = ["pointerdown", "keydown", "scroll"] as const;
+    events.forEach((name) => window.addEventListener(name, markActive, { passive: true }));
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity.current > VAULT_IDLE_TIMEOUT_MS) lockVault();
+    }, 30000);
+    return () => {
+      events.forEach((name) => window.removeEventListener(name, markActive));
+      window.clearInterval(timer);
+    };
+  }, [lockVault, unlocked]);
+
   const selectProvider = useCallback<ProviderContextValue["selectProvider"]>((providerId) => {
     setSelectedId(providerId);
     localStorage.setItem(STORAGE_SELECTED_KEY, JSON.stringify(providerId));
@@ -133,6 +380,52 @@ export function ProviderRegistryProvider({ children }: { children: ReactNode })
     });
   }, []);
 
+  const getRetryPolicy = useCallback<ProviderContextValue["getRetryPolicy"]>(
+    (providerId) => ({ ...DEFAULT_RETRY_POLICY, ...retryPolicies[providerId] }),
+    [retryPolicies]
+  );
+
+  const setRetryPolicy = useCallback<ProviderContextValue["setRetryPolicy"]>((providerId, policy) => {
+    setRetryPolicies((prev) => {
+      const next = { ...prev };
+      if (policy) {
+        next[providerId] = policy;
+      } else {
+        delete next[providerId];
+      }
+      localStorage.setItem(STORAGE_RETRY_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const setFailoverOrder = useCallback<ProviderContextValue["setFailoverOrder"]>((order) => {
+    const next = Array.from(new Set(order));
+    setFailoverOrderState(next);
+    localStorage.setItem(STORAGE_FAILOVER_KEY, JSON.stringify(next));
+  }, []);
+
+  const refreshModels = useCallback<ProviderContextValue["refreshModels"]>(
+    async (providerId, options = {}) => {
+      const cached = catalogues[providerId];
+      if (cached && !options.force && !isCatalogueExpired(cached)) {
+        return cached;
+      }
+      const provider = providers.find((item) => item.id === providerId);
+      if (!provider) {
+        throw new Error(`Unknown provider ${providerId}`);
+      }
+      const models = await listModels({ provider, apiKey: apiKeys[providerId] ?? "", retry: options.retry });
+      const catalogue: ModelCatalogue = { fetchedAt: new Date().toISOString(), models };
+      setCatalogues((prev) => {
+        const next = { ...prev, [providerId]: catalogue };
+        localStorage.setItem(STORAGE_CATALOGUE_KEY, JSON.stringify(next));
+        return next;
+      });
+      return catalogue;
+    },
+    [apiKeys, catalogues, providers]
+  );
+
   const registerCustomProvider = useCallback<ProviderContextValue["registerCustomProvider"]>((input) => {
     const descriptor: ProviderDescriptor = {
       id: `custom:${generateId("prov")}`,
@@ -141,6 +434,9 @@ export function ProviderRegistryProvider({ children }: { children: ReactNode })
       docsUrl: input.docsUrl ?? "",
       defaultModel: input.models?.[0] ?? "text-generation",
       type: "chat",
+      connector: input.connector
+        ? { ...input.connector, baseUrl: input.connector.baseUrl.trim().replace(/\/+$/, "") }
+        : undefined,
     };
 
     setCustomProviders((prev) => {
@@ -153,6 +449,29 @@ export function ProviderRegistryProvider({ children }: { children: ReactNode })
     return descriptor;
   }, [setModel]);
 
+  const removeCustomProvider = useCallback<ProviderContextValue["removeCustomProvider"]>(
+    (providerId) => {
+      setCustomProviders((prev) => {
+        const next = prev.filter((provider) => provider.id !== providerId);
+        localStorage.setItem(STORAGE_CUSTOM_KEY, JSON.stringify(next));
+        return next;
+      });
+      setApiKey(providerId, "");
+      setRetryPolicy(providerId, null);
+      setFailoverOrder(failoverOrder.filter((id) => id !== providerId));
+      setCatalogues((prev) => {
+        const next = { ...prev };
+        delete next[providerId];
+        localStorage.setItem(STORAGE_CATALOGUE_KEY, JSON.stringify(next));
+        return next;
+      });
+      if (selectedId === providerId) {
+        selectProvider(defaultProviders[0].id);
+      }
+    },
+    [selectedId, failoverOrder, setApiKey, setRetryPolicy, setFailoverOrder, selectProvider]
+  );
+
   const value = useMemo<ProviderContextValue>(
     () => ({
       providers,
@@ -161,11 +480,49 @@ export function ProviderRegistryProvider({ children }: { children: ReactNode })
       apiKeys,
       modelSelections,
       setApiKey,
+      vaultStatus,
+      hasPlaintextKeys,
+      createVault,
+      unlockVault,
+      lockVault,
+      resetVault,
       selectProvider,
       setModel,
       registerCustomProvider,
+      removeCustomProvider,
+      retryPolicies,
+      getRetryPolicy,
+      setRetryPolicy,
+      failoverOrder,
+      setFailoverOrder,
+      catalogues,
+      refreshModels,
     }),
-    [providers, selectedProvider, selectedModel, apiKeys, modelSelections, setApiKey, selectProvider, setModel, registerCustomProvider]
+    [
+      providers,
+      selectedProvider,
+      selectedModel,
+      apiKeys,
+      modelSelections,
+      setApiKey,
+      vaultStatus,
+      hasPlaintextKeys,
+      createVault,
+      unlockVault,
+      lockVault,
+      resetVault,
+      selectProvider,
+      setModel,
+      registerCustomProvider,
+      removeCustomProvider,
+      retryPolicies,
+      getRetryPolicy,
+      setRetryPolicy,
+      failoverOrder,
+      setFailoverOrder,
+      catalogues,
+      refreshModels,
+    ]
   );
 
   return <ProviderRegistryContext.Provider value={value}>{children}</ProviderRegistryContext.Provider>;
@@ -3,11 +3,36 @@ import {
   ReactNode,
   useCallback,
   useContext,
+  useEffect,
   useMemo,
   useReducer,
+  useSyncExternalStore,
 } from "react";
 import { generateId } from "../utils/crypto";
 import type { ProviderId } from "./ProviderContext";
+import type { GenerationParams, TokenUsage } from "../lib/clients/base";
+import {
+  DraftRevision,
+  REVISION_CAUSE_LABELS,
+  RevisionCause,
+  RevisionMeta,
+  recordRevision,
+  revisionContent,
+  seedRevisions,
+} from "../lib/revisions";
+import { UndoStep, UndoSummary, initialUndoState, summariseEntries, undoable } from "../lib/undoHistory";
+import {
+  compileManuscript,
+  createChapter,
+  createScene,
+  findScene,
+  firstScene,
+  mapScene,
+  moveChapter,
+  moveScene,
+  sceneCount,
+} from "../lib/manuscript";
+import { branchName, forkDraft as forkOf, mergeScenes, nextBranchName } from "../lib/branches";
 
 export type StoryLength = "short" | "medium" | "long";
 
@@ -21,13 +46,139 @@ export interface StoryMetadata {
   targetTokens?: number;
 }
 
+export type FeedbackSeverity = "minor" | "moderate" | "major";
+
+export type SuggestionStatus = "pending" | "accepted" | "rejected";
+
+/** One editor note, anchored to the draft by an exact quote. */
+export interface FeedbackIssue {
+  id: string;
+  severity: FeedbackSeverity;
+  category: string;
+  comment: string;
+  /** Verbatim span from the draft the note refers to. */
+  quote: string;
+  /** Proposed text for `quote`; empty when the note has no concrete rewrite. */
+  replacement: string;
+  status: SuggestionStatus;
+  /** Section of a long draft the note came from, when feedback was gathered section by section. */
+  section?: number;
+  /** Where that section started in the draft; picks the right match when the quote appears more than once. */
+  anchor?: number;
+  /** Where that section ended; the quote is only looked for between `anchor` and here. */
+  anchorEnd?: number;
+}
+
+/** One part of a long draft that was reviewed on its own. */
+export interface FeedbackSection {
+  index: number;
+  label: string;
+  start: number;
+  end: number;
+  summary: string;
+}
+
+export interface StructuredFeedback {
+  summary: string;
+  issues: FeedbackIssue[];
+  /** Present when the draft was too long for one request and was reviewed section by section. */
+  sections?: FeedbackSection[];
+}
+
 export interface FeedbackThread {
   id: string;
   provider: string;
   focus: "grammar" | "dialogue" | "flow" | "custom";
   request: string;
+  /** Raw model output; kept even when it parsed into `structured`. */
   response: string;
+  structured?: StructuredFeedback;
+  /** Served from the response cache rather than a fresh provider call. */
+  cached?: boolean;
+  createdAt: string;
+  /** Who wrote the suggestions, for the provenance of any that are accepted. */
+  source?: GenerationSource;
+  /** Scene the feedback is about; threads from before chapters existed refer to the active scene. */
+  sceneId?: string;
+}
+
+export interface GenerationSource {
+  providerId: ProviderId;
+  providerLabel: string;
+  model?: string;
+  /** Label of the provider that failed before this one took over. */
+  failoverFrom?: string;
+  /** Sampling settings the text was generated with, copied so later preset edits do not rewrite history. */
+  presetName?: string;
+  params?: GenerationParams;
+}
+
+export type ProvenanceKind = "generation" | "continuation" | "ab-variant" | "sensory-pass" | "suggestion" | "rewrite";
+
+/** Where one AI-produced change to a draft came from. */
+export interface ProvenanceRecord extends GenerationSource {
+  id: string;
+  kind: ProvenanceKind;
   createdAt: string;
+  /** The prompt or instruction the text answered. */
+  prompt?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  /** USD, when the call was priced. */
+  cost?: number;
+  /** Words of model text the change brought into the draft. */
+  words?: number;
+  cached?: boolean;
+}
+
+export type ProvenanceInput = Omit<ProvenanceRecord, "id" | "createdAt">;
+
+/** How a content change enters the draft's history. */
+export interface DraftChange {
+  /** Model output the patch carries; recorded as provenance and linked from the revision. */
+  provenance?: ProvenanceInput;
+  /** Defaults to the provenance kind, or "manual" without one. */
+  cause?: RevisionCause;
+  /** Intermediate text such as a stream in progress, which the final update will record. */
+  transient?: boolean;
+  /** Scene `patch.content` is written to; defaults to the active scene. */
+  sceneId?: string;
+}
+
+export type SceneStatus = "outline" | "drafted" | "revised";
+
+export interface Scene {
+  id: string;
+  title: string;
+  content: string;
+  summary: string;
+  /** Narrative perspective for this scene when it differs from its chapter's or the story's. */
+  pov?: string;
+  status: SceneStatus;
+  /** Every recorded version of `content`, oldest first. */
+  revisions: DraftRevision[];
+}
+
+export interface Chapter {
+  id: string;
+  title: string;
+  summary: string;
+  /** Narrative perspective for the chapter's scenes unless a scene sets its own. */
+  pov?: string;
+  status: SceneStatus;
+  scenes: Scene[];
+}
+
+export type SceneDetails = Pick<Scene, "title" | "summary" | "pov" | "status">;
+export type ChapterDetails = Pick<Chapter, "title" | "summary" | "pov" | "status">;
+
+/** Where a forked draft came from. */
+export interface DraftBranch {
+  parentId: string;
+  name: string;
+  forkedAt: string;
+  /** Newest revision of each scene when the branch was made, by scene id. */
+  baseRevisions: Record<string, string>;
 }
 
 export interface StoryDraft {
@@ -35,13 +186,26 @@ export interface StoryDraft {
   metadata: StoryMetadata;
   prompt: string;
   summary: string;
+  /** The whole manuscript, compiled from `chapters`; text is written scene by scene. */
   content: string;
+  /** Ordered chapters; a draft always has at least one scene. */
+  chapters: Chapter[];
+  /** The scene generation, feedback and passes work on. */
+  activeSceneId: string;
   generatedAt?: string;
+  /** Every AI-produced change, oldest first. */
+  provenance: ProvenanceRecord[];
+  /** Generation preset chosen for this draft; unset uses the default. */
+  presetId?: string;
   updatedAt: string;
   feedbackThreads: FeedbackThread[];
   abExperiments: ModelABExperiment[];
   continuity: ContinuitySnapshot;
   sensoryPasses: SensoryPass[];
+  /** Prompt recipes applied to this draft, by id. */
+  recipesUsed: string[];
+  /** Set on drafts forked from another. */
+  branch?: DraftBranch;
 }
 
 export interface PromptRecipe {
@@ -72,13 +236,22 @@ export interface ModelVariantResult {
   providerId: ProviderId;
   providerLabel: string;
   model: string;
+  /** Set when the provider's fallback chain served the variant with a different model. */
+  servedModel?: string;
   status: ModelVariantStatus;
   costEstimate: number;
   estimatedTokens: number;
   tokensUsed?: number;
+  /** Input and output split of `tokensUsed`, when known. */
+  usage?: TokenUsage;
+  /** Reconciled after the call from the provider's reported usage (or counted locally when it reports none). */
+  actualCost?: number;
+  /** False when `actualCost` was counted locally rather than reported by the provider. */
+  costMeasured?: boolean;
   content?: string;
   error?: string;
   durationMs?: number;
+  cached?: boolean;
   createdAt: string;
 }
 
@@ -89,6 +262,9 @@ export interface ModelABExperiment {
   summary?: string;
   variants: ModelVariantResult[];
   winnerId?: string | null;
+  /** Preset every variant was sampled with. */
+  presetName?: string;
+  params?: GenerationParams;
 }
 
 export type ContinuityEntryType = "character" | "plot" | "world";
@@ -121,6 +297,13 @@ export interface SensoryPass {
   kind: SensoryPassType;
   createdAt: string;
   response: string;
+  cached?: boolean;
+  /** Number of sections a long draft was rewritten in; absent when it went in one request. */
+  sections?: number;
+  /** Who wrote the pass, for the provenance of the draft if it is adopted. */
+  source?: GenerationSource;
+  /** Scene the pass rewrote; passes from before chapters existed refer to the active scene. */
+  sceneId?: string;
 }
 
 interface WorkspaceState {
@@ -133,8 +316,13 @@ interface WorkspaceContextValue {
   drafts: StoryDraft[];
   activeDraft: StoryDraft | null;
   createDraft: (input: { metadata: StoryMetadata; prompt: string; summary?: string }) => StoryDraft;
-  updateDraft: (draftId: string, patch: Partial<StoryDraft>) => void;
-  appendContent: (draftId: string, content: string, timestamp?: string) => void;
+  /**
+   * `patch.content` is the text of one scene, `change.sceneId` or the active
+   * one; the draft's own `content` is recompiled from its chapters. A content
+   * change adds a revision to that scene unless `change.transient` is set.
+   */
+  updateDraft: (draftId: string, patch: Partial<StoryDraft>, change?: DraftChange) => void;
+  appendContent: (draftId: string, sceneId: string, content: string, timestamp?: string) => void;
   addFeedback: (draftId: string, feedback: Omit<FeedbackThread, "id" | "createdAt">) => FeedbackThread;
   selectDraft: (draftId: string) => void;
   resetWorkspace: () => void;
@@ -146,10 +334,107 @@ interface WorkspaceContextValue {
   updateContinuityEntry: (draftId: string, entryId: string, patch: Partial<ContinuityEntryInput>) => void;
   deleteContinuityEntry: (draftId: string, entryId: string) => void;
   addSensoryPass: (draftId: string, pass: SensoryPass) => void;
+  /** Marks a feedback suggestion accepted or rejected; pass `content` to apply an accepted edit in the same step. */
+  resolveFeedbackIssue: (
+    draftId: string,
+    threadId: string,
+    issueId: string,
+    status: SuggestionStatus,
+    content?: string,
+    provenance?: ProvenanceInput
+  ) => void;
+  labelRevision: (draftId: string, revisionId: string, label: string) => void;
+  /** Brings back the text of an earlier revision, recorded as a new "restore" revision. */
+  restoreRevision: (draftId: string, revisionId: string) => void;
+  selectScene: (draftId: string, sceneId: string) => void;
+  /** Adds a chapter holding one empty scene. */
+  addChapter: (draftId: string, title?: string) => Chapter;
+  updateChapter: (draftId: string, chapterId: string, patch: Partial<ChapterDetails>) => void;
+  /** Deletes a chapter and its scenes; ignored when it would leave the draft without a scene. */
+  deleteChapter: (draftId: string, chapterId: string) => void;
+  addScene: (draftId: string, chapterId: string, title?: string) => Scene;
+  updateScene: (draftId: string, sceneId: string, patch: Partial<SceneDetails>) => void;
+  /** Ignored for the draft's last scene. */
+  deleteScene: (draftId: string, sceneId: string) => void;
+  moveChapter: (draftId: string, chapterId: string, toIndex: number) => void;
+  moveScene: (draftId: string, sceneId: string, toChapterId: string, toIndex: number) => void;
+  /** Copies a draft's text as it stands into a new branch linked to it, and makes the branch active. */
+  forkDraft: (draftId: string, name?: string) => StoryDraft | undefined;
+  /** Brings the chosen scenes of `sourceId` into `draftId`, replacing the scenes they share. */
+  mergeScenes: (draftId: string, sourceId: string, sceneIds: string[]) => void;
+  recordRecipeUse: (draftId: string, recipeId: string) => void;
+  /** Oldest first; the last entry is what `undo` reverts. */
+  undoStack: UndoSummary[];
+  /** Oldest first; the last entry is what `redo` reapplies. */
+  redoStack: UndoSummary[];
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  /** Set while the workspace cannot be saved to browser storage, e.g. because it is full. */
+  storageWarning: string | null;
 }
 
 const STORAGE_KEY = "sf:workspace";
 
+/** Oldest records are dropped past this; the published summary only needs the recent history. */
+const MAX_PROVENANCE = 200;
+
+function createProvenance(input: ProvenanceInput): ProvenanceRecord {
+  return { ...input, id: generateId("prov"), createdAt: new Date().toISOString() };
+}
+
+function withProvenance(draft: StoryDraft, record: ProvenanceRecord | undefined) {
+  return record ? [...(draft.provenance ?? []), record].slice(-MAX_PROVENANCE) : draft.provenance ?? [];
+}
+
+const PROVENANCE_CAUSES: Record<ProvenanceKind, RevisionCause> = {
+  generation: "generate",
+  continuation: "continue",
+  "ab-variant": "adopt-variant",
+  "sensory-pass": "sensory-pass",
+  suggestion: "suggestion",
+  rewrite: "rewrite",
+};
+
+/** Sets the chapters and recompiles the manuscript from them. */
+function withChapters(draft: StoryDraft, chapters: Chapter[]): StoryDraft {
+  return { ...draft, chapters, content: compileManuscript(chapters) };
+}
+
+/** Writes one scene's text, recording a revision unless `meta` is unset. */
+function writeScene(draft: StoryDraft, sceneId: string | undefined, content: string, meta: RevisionMeta | undefined) {
+  const target = findScene(draft.chapters, sceneId ?? draft.activeSceneId)?.scene ?? firstScene(draft.chapters);
+  if (!target) return draft;
+  const chapters = mapScene(draft.chapters, target.id, (scene) => ({
+    ...scene,
+    content,
+    status: scene.status === "outline" && content.trim() ? "drafted" : scene.status,
+    revisions: meta ? recordRevision(scene.revisions, content, meta) : scene.revisions,
+  }));
+  return withChapters(draft, chapters);
+}
+
+/** Drafts saved before chapters existed become one chapter with one scene, keeping their text and history. */
+function legacyChapters(draft: StoryDraft, revisions: DraftRevision[] | undefined): Chapter[] {
+  if (draft.chapters?.length) return draft.chapters;
+  const content = draft.content ?? "";
+  const history = revisions ?? seedRevisions(content, draft.updatedAt ?? new Date().toISOString());
+  return [createChapter("Chapter 1", [createScene("Scene 1", content, history)])];
+}
+
+/** Drafts saved before provenance existed kept only the latest source in `generatedBy`. */
+function legacyProvenance(draft: StoryDraft & { generatedBy?: GenerationSource }): ProvenanceRecord[] {
+  if (draft.provenance) return draft.provenance;
+  if (!draft.generatedBy) return [];
+  return [
+    {
+      ...draft.generatedBy,
+      id: generateId("prov"),
+      kind: "generation",
+      createdAt: draft.generatedAt ?? draft.updatedAt ?? new Date().toISOString(),
+    },
+  ];
+}
+
 function normaliseRecipe(recipe: PromptRecipe): PromptRecipe {
   return {
     ...recipe,
@@ -208,17 +493,25 @@ function loadInitialState(): WorkspaceState {
   }
   try {
     const parsed = JSON.parse(stored) as Partial<WorkspaceState> & { drafts?: StoryDraft[]; promptRecipes?: PromptRecipe[] };
-    const drafts = (parsed.drafts || []).map((draft) => ({
-      ...draft,
-      summary: draft.summary ?? "",
-      updatedAt: draft.updatedAt ?? draft.generatedAt ?? new Date().toISOString(),
-      feedbackThreads: draft.feedbackThreads ?? [],
-      abExperiments: (draft.abExperiments || []).map(normaliseExperiment),
-      continuity: {
-        entries: draft.continuity?.entries ? draft.continuity.entries.map(normaliseContinuityEntry) : [],
-      },
-      sensoryPasses: (draft.sensoryPasses || []).map(normaliseSensoryPass),
-    }));
+    const drafts = (parsed.drafts || []).map(({ revisions, ...draft }: StoryDraft & { revisions?: DraftRevision[] }) => {
+      const chapters = legacyChapters(draft, revisions);
+      return {
+        ...draft,
+        summary: draft.summary ?? "",
+        updatedAt: draft.updatedAt ?? draft.generatedAt ?? new Date().toISOString(),
+        feedbackThreads: draft.feedbackThreads ?? [],
+        abExperiments: (draft.abExperiments || []).map(normaliseExperiment),
+        continuity: {
+          entries: draft.continuity?.entries ? draft.continuity.entries.map(normaliseContinuityEntry) : [],
+        },
+        sensoryPasses: (draft.sensoryPasses || []).map(normaliseSensoryPass),
+        provenance: legacyProvenance(draft),
+        recipesUsed: draft.recipesUsed ?? [],
+        chapters,
+        content: compileManuscript(chapters),
+        activeSceneId: findScene(chapters, draft.activeSceneId)?.scene.id ?? firstScene(chapters)?.id ?? "",
+      };
+    });
     const promptRecipes = (parsed.promptRecipes || []).map(normaliseRecipe);
     return {
       drafts,
@@ -231,16 +524,81 @@ function loadInitialState(): WorkspaceState {
   }
 }
 
+let storageWarning: string | null = null;
+const storageListeners = new Set<() => void>();
+
+function setStorageWarning(next: string | null) {
+  if (next === storageWarning) return;
+  storageWarning = next;
+  // Reducers run while React renders; subscribers hear about it afterwards.
+  queueMicrotask(() => storageListeners.forEach((listener) => listener()));
+}
+
+function subscribeToStorageWarning(listener: () => void) {
+  storageListeners.add(listener);
+  return () => {
+    storageListeners.delete(listener);
+  };
+}
+
+function getStorageWarning() {
+  return storageWarning;
+}
+
+function isQuotaError(error: unknown) {
+  return error instanceof DOMException && (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+}
+
+/** A failed save must not throw out of the reducer; the workspace keeps working and warns instead. */
 function persist(state: WorkspaceState) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  if (pendingPersist) {
+    clearTimeout(pendingPersist.timer);
+    pendingPersist = null;
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    setStorageWarning(null);
+  } catch (error) {
+    console.error("Failed to save workspace", error);
+    setStorageWarning(
+      isQuotaError(error)
+        ? "Browser storage is full, so recent changes to your drafts are not being saved. Copy or download your work before reloading the page."
+        : "Your drafts could not be saved to browser storage. Copy or download your work before reloading the page."
+    );
+  }
+}
+
+/** Streamed text arrives a token at a time, so its saves wait for a pause instead of serialising the workspace per chunk. */
+const STREAM_PERSIST_DELAY_MS = 1000;
+
+let pendingPersist: { state: WorkspaceState; timer: ReturnType<typeof setTimeout> } | null = null;
+
+function persistSoon(state: WorkspaceState) {
+  if (pendingPersist) clearTimeout(pendingPersist.timer);
+  pendingPersist = { state, timer: setTimeout(flushPersist, STREAM_PERSIST_DELAY_MS) };
+}
+
+function flushPersist() {
+  if (pendingPersist) persist(pendingPersist.state);
 }
 
 const WorkspaceContext = createContext<WorkspaceContextValue | undefined>(undefined);
 
 type WorkspaceAction =
   | { type: "create"; draft: StoryDraft }
-  | { type: "update"; draftId: string; patch: Partial<StoryDraft> }
-  | { type: "append"; draftId: string; content: string; timestamp?: string }
+  | { type: "fork"; draft: StoryDraft }
+  | { type: "merge_scenes"; draftId: string; sourceId: string; sceneIds: string[] }
+  | { type: "recipe_use"; draftId: string; recipeId: string }
+  | {
+      type: "update";
+      draftId: string;
+      patch: Partial<StoryDraft>;
+      provenance?: ProvenanceRecord;
+      /** Unset for transient changes, which leave the history alone. */
+      revision?: RevisionMeta;
+      sceneId?: string;
+    }
+  | { type: "append"; draftId: string; sceneId: string; content: string; timestamp?: string }
   | { type: "feedback"; draftId: string; feedback: FeedbackThread }
   | { type: "select"; draftId: string }
   | { type: "reset" }
@@ -249,39 +607,92 @@ type WorkspaceAction =
   | { type: "continuity_add"; draftId: string; entry: ContinuityEntry }
   | { type: "continuity_update"; draftId: string; entry: ContinuityEntry }
   | { type: "continuity_delete"; draftId: string; entryId: string }
-  | { type: "sensory_pass_add"; draftId: string; pass: SensoryPass };
+  | { type: "sensory_pass_add"; draftId: string; pass: SensoryPass }
+  | {
+      type: "feedback_issue";
+      draftId: string;
+      threadId: string;
+      issueId: string;
+      status: SuggestionStatus;
+      content?: string;
+      provenance?: ProvenanceRecord;
+    }
+  | { type: "revision_label"; draftId: string; revisionId: string; label: string }
+  | { type: "revision_restore"; draftId: string; revisionId: string }
+  | { type: "scene_select"; draftId: string; sceneId: string }
+  | { type: "chapter_add"; draftId: string; chapter: Chapter }
+  | { type: "chapter_update"; draftId: string; chapterId: string; patch: Partial<ChapterDetails> }
+  | { type: "chapter_delete"; draftId: string; chapterId: string }
+  | { type: "chapter_move"; draftId: string; chapterId: string; toIndex: number }
+  | { type: "scene_add"; draftId: string; chapterId: string; scene: Scene }
+  | { type: "scene_update"; draftId: string; sceneId: string; patch: Partial<SceneDetails> }
+  | { type: "scene_delete"; draftId: string; sceneId: string }
+  | { type: "scene_move"; draftId: string; sceneId: string; toChapterId: string; toIndex: number };
+
+/** Applies `update` to one draft and persists; returning the same draft leaves the state untouched. */
+function mapDraft(state: WorkspaceState, draftId: string, update: (draft: StoryDraft) => StoryDraft): WorkspaceState {
+  const draft = state.drafts.find((entry) => entry.id === draftId);
+  if (!draft) return state;
+  const updated = update(draft);
+  if (updated === draft) return state;
+  const next = {
+    ...state,
+    drafts: state.drafts.map((entry) => (entry.id === draftId ? { ...updated, updatedAt: new Date().toISOString() } : entry)),
+  };
+  persist(next);
+  return next;
+}
+
+/** The active scene stays put unless it was removed, in which case the first remaining scene takes over. */
+function withActiveScene(draft: StoryDraft): StoryDraft {
+  if (findScene(draft.chapters, draft.activeSceneId)) return draft;
+  return { ...draft, activeSceneId: firstScene(draft.chapters)?.id ?? "" };
+}
+
+function sceneWithRevision(draft: StoryDraft, revisionId: string) {
+  return draft.chapters
+    .flatMap((chapter) => chapter.scenes)
+    .find((scene) => scene.revisions.some((revision) => revision.id === revisionId));
+}
 
 function reducer(state: WorkspaceState, action: WorkspaceAction): WorkspaceState {
   switch (action.type) {
-    case "create": {
+    case "create":
+    case "fork": {
       const drafts = [action.draft, ...state.drafts];
       const next = { ...state, drafts, activeDraftId: action.draft.id };
       persist(next);
       return next;
     }
     case "update": {
-      const drafts = state.drafts.map((draft) =>
-        draft.id === action.draftId
-          ? { ...draft, ...action.patch, updatedAt: new Date().toISOString() }
-          : draft
-      );
+      const { content, ...patch } = action.patch;
+      const drafts = state.drafts.map((draft) => {
+        if (draft.id !== action.draftId) return draft;
+        const updated = {
+          ...draft,
+          ...patch,
+          provenance: withProvenance(draft, action.provenance),
+          updatedAt: new Date().toISOString(),
+        };
+        return content === undefined ? updated : writeScene(updated, action.sceneId, content, action.revision);
+      });
       const next = { ...state, drafts };
       persist(next);
       return next;
     }
     case "append": {
-      const drafts = state.drafts.map((draft) =>
-        draft.id === action.draftId
-          ? {
-              ...draft,
-              content: draft.content + action.content,
-              generatedAt: action.timestamp ?? new Date().toISOString(),
-              updatedAt: new Date().toISOString(),
-            }
-          : draft
-      );
+      const drafts = state.drafts.map((draft) => {
+        if (draft.id !== action.draftId) return draft;
+        const scene = findScene(draft.chapters, action.sceneId)?.scene;
+        if (!scene) return draft;
+        return {
+          ...writeScene(draft, scene.id, scene.content + action.content, undefined),
+          generatedAt: action.timestamp ?? new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+      });
       const next = { ...state, drafts };
-      persist(next);
+      persistSoon(next);
       return next;
     }
     case "feedback": {
@@ -387,25 +798,305 @@ function reducer(state: WorkspaceState, action: WorkspaceAction): WorkspaceState
       persist(next);
       return next;
     }
+    case "feedback_issue": {
+      const drafts = state.drafts.map((draft) => {
+        if (draft.id !== action.draftId) return draft;
+        const feedbackThreads = draft.feedbackThreads.map((thread) =>
+          thread.id === action.threadId && thread.structured
+            ? {
+                ...thread,
+                structured: {
+                  ...thread.structured,
+                  issues: thread.structured.issues.map((issue) =>
+                    issue.id === action.issueId ? { ...issue, status: action.status } : issue
+                  ),
+                },
+              }
+            : thread
+        );
+        const updated = {
+          ...draft,
+          feedbackThreads,
+          provenance: withProvenance(draft, action.provenance),
+          updatedAt: new Date().toISOString(),
+        };
+        if (action.content === undefined) return updated;
+        const sceneId = draft.feedbackThreads.find((thread) => thread.id === action.threadId)?.sceneId;
+        return writeScene(updated, sceneId, action.content, { cause: "suggestion", provenanceId: action.provenance?.id });
+      });
+      const next = { ...state, drafts };
+      persist(next);
+      return next;
+    }
+    case "revision_label":
+      return mapDraft(state, action.draftId, (draft) => {
+        const scene = sceneWithRevision(draft, action.revisionId);
+        if (!scene) return draft;
+        return {
+          ...draft,
+          chapters: mapScene(draft.chapters, scene.id, (entry) => ({
+            ...entry,
+            revisions: entry.revisions.map((revision) =>
+              revision.id === action.revisionId ? { ...revision, label: action.label.trim() || undefined } : revision
+            ),
+          })),
+        };
+      });
+    case "revision_restore":
+      return mapDraft(state, action.draftId, (draft) => {
+        const scene = sceneWithRevision(draft, action.revisionId);
+        if (!scene) return draft;
+        const index = scene.revisions.findIndex((revision) => revision.id === action.revisionId);
+        const content = revisionContent(scene.revisions, index);
+        return writeScene(draft, scene.id, content, { cause: "restore", restoredFrom: action.revisionId });
+      });
+    case "scene_select": {
+      // Moving between scenes is navigation, not an edit, so `updatedAt` stays.
+      const drafts = state.drafts.map((draft) =>
+        draft.id === action.draftId && findScene(draft.chapters, action.sceneId)
+          ? { ...draft, activeSceneId: action.sceneId }
+          : draft
+      );
+      const next = { ...state, drafts };
+      persist(next);
+      return next;
+    }
+    case "chapter_add":
+      return mapDraft(state, action.draftId, (draft) => ({
+        ...withChapters(draft, [...draft.chapters, action.chapter]),
+        activeSceneId: action.chapter.scenes[0]?.id ?? draft.activeSceneId,
+      }));
+    case "chapter_update":
+      return mapDraft(state, action.draftId, (draft) =>
+        withChapters(
+          draft,
+          draft.chapters.map((chapter) => (chapter.id === action.chapterId ? { ...chapter, ...action.patch } : chapter))
+        )
+      );
+    case "chapter_delete":
+      return mapDraft(state, action.draftId, (draft) => {
+        const chapters = draft.chapters.filter((chapter) => chapter.id !== action.chapterId);
+        if (!sceneCount(chapters)) return draft;
+        return withActiveScene(withChapters(draft, chapters));
+      });
+    case "chapter_move":
+      return mapDraft(state, action.draftId, (draft) =>
+        withChapters(draft, moveChapter(draft.chapters, action.chapterId, action.toIndex))
+      );
+    case "scene_add":
+      return mapDraft(state, action.draftId, (draft) => ({
+        ...withChapters(
+          draft,
+          draft.chapters.map((chapter) =>
+            chapter.id === action.chapterId ? { ...chapter, scenes: [...chapter.scenes, action.scene] } : chapter
+          )
+        ),
+        activeSceneId: action.scene.id,
+      }));
+    case "scene_update":
+      return mapDraft(state, action.draftId, (draft) =>
+        withChapters(draft, mapScene(draft.chapters, action.sceneId, (scene) => ({ ...scene, ...action.patch })))
+      );
+    case "scene_delete":
+      return mapDraft(state, action.draftId, (draft) => {
+        if (sceneCount(draft.chapters) < 2) return draft;
+        const chapters = draft.chapters.map((chapter) => ({
+          ...chapter,
+          scenes: chapter.scenes.filter((scene) => scene.id !== action.sceneId),
+        }));
+        return withActiveScene(withChapters(draft, chapters));
+      });
+    case "scene_move":
+      return mapDraft(state, action.draftId, (draft) =>
+        withChapters(draft, moveScene(draft.chapters, action.sceneId, action.toChapterId, action.toIndex))
+      );
+    case "merge_scenes": {
+      const source = state.drafts.find((draft) => draft.id === action.sourceId);
+      if (!source || !action.sceneIds.length) return state;
+      return mapDraft(state, action.draftId, (draft) =>
+        withChapters(draft, mergeScenes(draft.chapters, source.chapters, action.sceneIds))
+      );
+    }
+    case "recipe_use":
+      return mapDraft(state, action.draftId, (draft) =>
+        draft.recipesUsed.includes(action.recipeId)
+          ? draft
+          : { ...draft, recipesUsed: [...draft.recipesUsed, action.recipeId] }
+      );
     default:
       return state;
   }
 }
 
+const UPDATE_LABELS: Partial<Record<keyof StoryDraft, string>> = {
+  prompt: "Edit prompt",
+  summary: "Edit summary",
+  metadata: "Edit story details",
+  presetId: "Change generation preset",
+  abExperiments: "Update A/B experiments",
+};
+
+/** Names each action for the undo history; selection and updates that change nothing are left out. */
+function describeAction(action: WorkspaceAction, before: WorkspaceState): UndoStep | null {
+  const quoted = (text: string) => `“${text}”`;
+  const chapters = "draftId" in action ? before.drafts.find((draft) => draft.id === action.draftId)?.chapters ?? [] : [];
+  const chapterTitle = (chapterId: string) => chapters.find((chapter) => chapter.id === chapterId)?.title ?? "Untitled";
+  const sceneTitle = (sceneId: string) => findScene(chapters, sceneId)?.scene.title ?? "Untitled";
+  switch (action.type) {
+    case "update": {
+      const draft = before.drafts.find((entry) => entry.id === action.draftId);
+      if (!draft) return null;
+      const scene = findScene(draft.chapters, action.sceneId ?? draft.activeSceneId)?.scene;
+      const changed = (Object.keys(action.patch) as Array<keyof StoryDraft>).filter((key) =>
+        key === "content" ? action.patch.content !== scene?.content : action.patch[key] !== draft[key]
+      );
+      if (!changed.length) return null;
+      if (changed.includes("content")) {
+        if (!action.revision) return { label: "Streamed text", target: draft.id, transient: true };
+        const { cause } = action.revision;
+        return {
+          label: REVISION_CAUSE_LABELS[cause],
+          target: draft.id,
+          settles: true,
+          groupKey: cause === "manual" || cause === "memory" ? `content:${draft.id}:${cause}` : undefined,
+        };
+      }
+      return {
+        label: (changed.length === 1 && UPDATE_LABELS[changed[0]]) || "Edit draft",
+        target: draft.id,
+        groupKey: `update:${draft.id}:${changed.sort().join(",")}`,
+      };
+    }
+    case "append":
+      return { label: "Streamed text", target: action.draftId, transient: true };
+    case "create":
+      return { label: `Create draft ${quoted(action.draft.metadata.title)}`, target: action.draft.id };
+    case "feedback":
+      return { label: "Add feedback", target: action.draftId };
+    case "select":
+      return null;
+    case "reset":
+      return { label: "Clear all drafts" };
+    case "prompt_upsert": {
+      const exists = before.promptRecipes.some((recipe) => recipe.id === action.recipe.id);
+      return { label: `${exists ? "Edit" : "Save"} prompt recipe ${quoted(action.recipe.title)}` };
+    }
+    case "prompt_delete": {
+      const recipe = before.promptRecipes.find((entry) => entry.id === action.recipeId);
+      return { label: `Delete prompt recipe${recipe ? ` ${quoted(recipe.title)}` : ""}` };
+    }
+    case "continuity_add":
+      return { label: `Add continuity entry ${quoted(action.entry.label)}`, target: action.draftId };
+    case "continuity_update":
+      return { label: `Edit continuity entry ${quoted(action.entry.label)}`, target: action.draftId };
+    case "continuity_delete": {
+      const entry = before.drafts
+        .find((draft) => draft.id === action.draftId)
+        ?.continuity.entries.find((item) => item.id === action.entryId);
+      return { label: `Delete continuity entry${entry ? ` ${quoted(entry.label)}` : ""}`, target: action.draftId };
+    }
+    case "sensory_pass_add":
+      return { label: "Add sensory pass", target: action.draftId };
+    case "feedback_issue":
+      return {
+        label: action.status === "accepted" ? "Accept suggestion" : "Reject suggestion",
+        target: action.draftId,
+        settles: action.content !== undefined,
+      };
+    case "revision_label":
+      return { label: "Label revision", target: action.draftId };
+    case "revision_restore":
+      return { label: "Restore revision", target: action.draftId, settles: true };
+    case "scene_select":
+      return null;
+    case "chapter_add":
+      return { label: `Add chapter ${quoted(action.chapter.title)}`, target: action.draftId };
+    case "chapter_update": {
+      const keys = Object.keys(action.patch).sort().join(",");
+      return {
+        label: `Edit chapter ${quoted(chapterTitle(action.chapterId))}`,
+        target: action.draftId,
+        groupKey: `chapter:${action.chapterId}:${keys}`,
+      };
+    }
+    case "chapter_delete":
+      return { label: `Delete chapter ${quoted(chapterTitle(action.chapterId))}`, target: action.draftId };
+    case "chapter_move":
+      return { label: `Move chapter ${quoted(chapterTitle(action.chapterId))}`, target: action.draftId };
+    case "scene_add":
+      return { label: `Add scene ${quoted(action.scene.title)}`, target: action.draftId };
+    case "scene_update": {
+      const keys = Object.keys(action.patch).sort().join(",");
+      return {
+        label: `Edit scene ${quoted(sceneTitle(action.sceneId))}`,
+        target: action.draftId,
+        groupKey: `scene:${action.sceneId}:${keys}`,
+      };
+    }
+    case "scene_delete":
+      return { label: `Delete scene ${quoted(sceneTitle(action.sceneId))}`, target: action.draftId };
+    case "scene_move":
+      return { label: `Move scene ${quoted(sceneTitle(action.sceneId))}`, target: action.draftId };
+    case "fork":
+      return { label: `Fork ${quoted(action.draft.branch?.name ?? action.draft.metadata.title)}`, target: action.draft.id };
+    case "merge_scenes": {
+      const source = before.drafts.find((draft) => draft.id === action.sourceId);
+      const count = action.sceneIds.length;
+      return {
+        label: `Merge ${count} scene${count === 1 ? "" : "s"} from ${quoted(source ? branchName(source) : "branch")}`,
+        target: action.draftId,
+      };
+    }
+    case "recipe_use":
+      return null;
+    default:
+      return null;
+  }
+}
+
+const workspaceReducer = undoable<WorkspaceState, WorkspaceAction>(reducer, {
+  describe: describeAction,
+  restore: (state, entry, current) => {
+    // Show the draft the step touched, else stay on the one in view, so undo never jumps somewhere unrelated.
+    const inView = [entry.target, current.activeDraftId].find(
+      (id) => id && state.drafts.some((draft) => draft.id === id)
+    );
+    const next = { ...state, activeDraftId: inView ?? state.activeDraftId };
+    persist(next);
+    return next;
+  },
+});
+
 export function WorkspaceProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(reducer, undefined, loadInitialState);
+  const [history, dispatch] = useReducer(workspaceReducer, undefined, () => initialUndoState(loadInitialState()));
+  const state = history.present;
+  const storageWarning = useSyncExternalStore(subscribeToStorageWarning, getStorageWarning);
+
+  useEffect(() => {
+    // Keep text streamed just before a reload or tab close.
+    window.addEventListener("pagehide", flushPersist);
+    return () => {
+      window.removeEventListener("pagehide", flushPersist);
+      flushPersist();
+    };
+  }, []);
 
   const createDraft = useCallback<WorkspaceContextValue["createDraft"]>(({ metadata, prompt, summary }) => {
+    const chapter = createChapter("Chapter 1");
     const draft: StoryDraft = {
       id: generateId("draft"),
       metadata,
       prompt,
       summary: summary ?? "",
       content: "",
+      chapters: [chapter],
+      activeSceneId: chapter.scenes[0].id,
       feedbackThreads: [],
       abExperiments: [],
       continuity: { entries: [] },
       sensoryPasses: [],
+      provenance: [],
+      recipesUsed: [],
       generatedAt: undefined,
       updatedAt: new Date().toISOString(),
     };
@@ -413,12 +1104,21 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     return draft;
   }, []);
 
-  const updateDraft = useCallback<WorkspaceContextValue["updateDraft"]>((draftId, patch) => {
-    dispatch({ type: "update", draftId, patch });
+  const updateDraft = useCallback<WorkspaceContextValue["updateDraft"]>((draftId, patch, change = {}) => {
+    const provenance = change.provenance && createProvenance(change.provenance);
+    const cause = change.cause ?? (provenance ? PROVENANCE_CAUSES[provenance.kind] : "manual");
+    dispatch({
+      type: "update",
+      draftId,
+      patch,
+      provenance,
+      revision: change.transient ? undefined : { cause, provenanceId: provenance?.id },
+      sceneId: change.sceneId,
+    });
   }, []);
 
-  const appendContent = useCallback<WorkspaceContextValue["appendContent"]>((draftId, content, timestamp) => {
-    dispatch({ type: "append", draftId, content, timestamp });
+  const appendContent = useCallback<WorkspaceContextValue["appendContent"]>((draftId, sceneId, content, timestamp) => {
+    dispatch({ type: "append", draftId, sceneId, content, timestamp });
   }, []);
 
   const addFeedback = useCallback<WorkspaceContextValue["addFeedback"]>((draftId, feedback) => {
@@ -533,6 +1233,109 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     dispatch({ type: "sensory_pass_add", draftId, pass: normalized });
   }, []);
 
+  const resolveFeedbackIssue = useCallback<WorkspaceContextValue["resolveFeedbackIssue"]>(
+    (draftId, threadId, issueId, status, content, provenance) => {
+      dispatch({
+        type: "feedback_issue",
+        draftId,
+        threadId,
+        issueId,
+        status,
+        content,
+        provenance: provenance && createProvenance(provenance),
+      });
+    },
+    []
+  );
+
+  const labelRevision = useCallback<WorkspaceContextValue["labelRevision"]>((draftId, revisionId, label) => {
+    dispatch({ type: "revision_label", draftId, revisionId, label });
+  }, []);
+
+  const restoreRevision = useCallback<WorkspaceContextValue["restoreRevision"]>((draftId, revisionId) => {
+    dispatch({ type: "revision_restore", draftId, revisionId });
+  }, []);
+
+  const selectScene = useCallback<WorkspaceContextValue["selectScene"]>((draftId, sceneId) => {
+    dispatch({ type: "scene_select", draftId, sceneId });
+  }, []);
+
+  const addChapter = useCallback<WorkspaceContextValue["addChapter"]>(
+    (draftId, title) => {
+      const chapters = state.drafts.find((draft) => draft.id === draftId)?.chapters ?? [];
+      const chapter = createChapter(title?.trim() || `Chapter ${chapters.length + 1}`);
+      dispatch({ type: "chapter_add", draftId, chapter });
+      return chapter;
+    },
+    [state.drafts]
+  );
+
+  const updateChapter = useCallback<WorkspaceContextValue["updateChapter"]>((draftId, chapterId, patch) => {
+    dispatch({ type: "chapter_update", draftId, chapterId, patch });
+  }, []);
+
+  const deleteChapter = useCallback<WorkspaceContextValue["deleteChapter"]>((draftId, chapterId) => {
+    dispatch({ type: "chapter_delete", draftId, chapterId });
+  }, []);
+
+  const addScene = useCallback<WorkspaceContextValue["addScene"]>(
+    (draftId, chapterId, title) => {
+      const chapter = state.drafts
+        .find((draft) => draft.id === draftId)
+        ?.chapters.find((entry) => entry.id === chapterId);
+      const scene = createScene(title?.trim() || `Scene ${(chapter?.scenes.length ?? 0) + 1}`);
+      dispatch({ type: "scene_add", draftId, chapterId, scene });
+      return scene;
+    },
+    [state.drafts]
+  );
+
+  const updateScene = useCallback<WorkspaceContextValue["updateScene"]>((draftId, sceneId, patch) => {
+    dispatch({ type: "scene_update", draftId, sceneId, patch });
+  }, []);
+
+  const deleteScene = useCallback<WorkspaceContextValue["deleteScene"]>((draftId, sceneId) => {
+    dispatch({ type: "scene_delete", draftId, sceneId });
+  }, []);
+
+  const moveChapterTo = useCallback<WorkspaceContextValue["moveChapter"]>((draftId, chapterId, toIndex) => {
+    dispatch({ type: "chapter_move", draftId, chapterId, toIndex });
+  }, []);
+
+  const moveSceneTo = useCallback<WorkspaceContextValue["moveScene"]>((draftId, sceneId, toChapterId, toIndex) => {
+    dispatch({ type: "scene_move", draftId, sceneId, toChapterId, toIndex });
+  }, []);
+
+  const forkDraft = useCallback<WorkspaceContextValue["forkDraft"]>(
+    (draftId, name) => {
+      const draft = state.drafts.find((entry) => entry.id === draftId);
+      if (!draft) return undefined;
+      const fork = forkOf(draft, name?.trim() || nextBranchName(state.drafts, draftId));
+      dispatch({ type: "fork", draft: fork });
+      return fork;
+    },
+    [state.drafts]
+  );
+
+  const mergeSceneSelection = useCallback<WorkspaceContextValue["mergeScenes"]>((draftId, sourceId, sceneIds) => {
+    dispatch({ type: "merge_scenes", draftId, sourceId, sceneIds });
+  }, []);
+
+  const recordRecipeUse = useCallback<WorkspaceContextValue["recordRecipeUse"]>((draftId, recipeId) => {
+    dispatch({ type: "recipe_use", draftId, recipeId });
+  }, []);
+
+  const undo = useCallback<WorkspaceContextValue["undo"]>((steps) => {
+    dispatch({ type: "undo", steps });
+  }, []);
+
+  const redo = useCallback<WorkspaceContextValue["redo"]>((steps) => {
+    dispatch({ type: "redo", steps });
+  }, []);
+
+  const undoStack = useMemo(() => summariseEntries(history.past), [history.past]);
+  const redoStack = useMemo(() => summariseEntries(history.future), [history.future]);
+
   const value = useMemo<WorkspaceContextValue>(() => {
     const activeDraft = state.activeDraftId
       ? state.drafts.find((draft) => draft.id === state.activeDraftId) ?? null
@@ -555,6 +1358,26 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
       updateContinuityEntry,
       deleteContinuityEntry,
       addSensoryPass,
+      resolveFeedbackIssue,
+      labelRevision,
+      restoreRevision,
+      selectScene,
+      addChapter,
+      updateChapter,
+      deleteChapter,
+      addScene,
+      updateScene,
+      deleteScene,
+      moveChapter: moveChapterTo,
+      moveScene: moveSceneTo,
+      forkDraft,
+      mergeScenes: mergeSceneSelection,
+      recordRecipeUse,
+      undoStack,
+      redoStack,
+      undo,
+      redo,
+      storageWarning,
     };
   }, [
     state,
@@ -571,6 +1394,26 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     updateContinuityEntry,
     deleteContinuityEntry,
     addSensoryPass,
+    resolveFeedbackIssue,
+    labelRevision,
+    restoreRevision,
+    selectScene,
+    addChapter,
+    updateChapter,
+    deleteChapter,
+    addScene,
+    updateScene,
+    deleteScene,
+    moveChapterTo,
+    moveSceneTo,
+    forkDraft,
+    mergeSceneSelection,
+    recordRecipeUse,
+    undoStack,
+    redoStack,
+    undo,
+    redo,
+    storageWarning,
   ]);
 
   return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
@@ -0,0 +1,177 @@
+import type { Chapter, Scene, StoryDraft } from "../context/WorkspaceContext";
+import { generateId } from "../utils/crypto";
+import { findScene } from "./manuscript";
+import { DraftRevision, recordRevision, revisionContent } from "./revisions";
+
+/** Name shown for a draft that was not forked from another. */
+export const MAIN_BRANCH = "Main";
+
+export function branchName(draft: StoryDraft) {
+  return draft.branch?.name ?? MAIN_BRANCH;
+}
+
+export function nextBranchName(drafts: StoryDraft[], parentId: string) {
+  const siblings = drafts.filter((draft) => draft.branch?.parentId === parentId).length;
+  return `Branch ${siblings + 1}`;
+}
+
+/**
+ * A copy of `draft` as it stands, linked back to it. Chapters and scenes keep
+ * their ids so branches can be compared and merged scene by scene. Revision
+ * history stays with the parent: each scene keeps only the revision it was
+ * forked at, as a snapshot, so the branch can still go back to that text.
+ * Continuity, recipes and experiments come along; feedback and passes stay
+ * with the parent, whose text they were about.
+ */
+export function forkDraft(draft: StoryDraft, name: string, now = new Date()): StoryDraft {
+  const forkedAt = now.toISOString();
+  const baseRevisions: Record<string, string> = {};
+  draft.chapters.forEach((chapter) =>
+    chapter.scenes.forEach((scene) => {
+      const newest = scene.revisions[scene.revisions.length - 1];
+      if (newest) baseRevisions[scene.id] = newest.id;
+    })
+  );
+  return {
+    ...draft,
+    id: generateId("draft"),
+    chapters: draft.chapters.map((chapter) => ({
+      ...chapter,
+      scenes: chapter.scenes.map((scene) => ({ ...scene, revisions: forkPoint(scene.revisions) })),
+    })),
+    continuity: { entries: [...draft.continuity.entries] },
+    abExperiments: [...draft.abExperiments],
+    recipesUsed: [...draft.recipesUsed],
+    feedbackThreads: [],
+    sensoryPasses: [],
+    updatedAt: forkedAt,
+    branch: { parentId: draft.id, name, forkedAt, baseRevisions },
+  };
+}
+
+/**
+ * The newest revision on its own, as a full snapshot. It keeps its id so
+ * `baseRevisions` still points at it, but is filed as earlier text so the
+ * branch's first typing does not fold into it.
+ */
+function forkPoint(revisions: DraftRevision[]): DraftRevision[] {
+  const newest = revisions[revisions.length - 1];
+  if (!newest) return [];
+  const snapshot = revisionContent(revisions, revisions.length - 1);
+  return [{ ...newest, cause: "original", snapshot, delta: undefined, provenanceId: undefined, restoredFrom: undefined }];
+}
+
+/** Scenes of a branch whose text has moved on from the revision it was forked at. */
+export function scenesChangedSinceFork(draft: StoryDraft) {
+  const base = draft.branch?.baseRevisions;
+  if (!base) return 0;
+  return draft.chapters
+    .flatMap((chapter) => chapter.scenes)
+    .filter((scene) => scene.revisions[scene.revisions.length - 1]?.id !== base[scene.id]).length;
+}
+
+export interface BranchNode {
+  draft: StoryDraft;
+  depth: number;
+}
+
+/** Drafts in lineage order: each parent followed by its branches, oldest fork first. */
+export function branchTree(drafts: StoryDraft[]): BranchNode[] {
+  const ids = new Set(drafts.map((draft) => draft.id));
+  const children = new Map<string, StoryDraft[]>();
+  const roots: StoryDraft[] = [];
+  drafts.forEach((draft) => {
+    const parentId = draft.branch?.parentId;
+    if (parentId && ids.has(parentId) && parentId !== draft.id) {
+      children.set(parentId, [...(children.get(parentId) ?? []), draft]);
+    } else {
+      roots.push(draft);
+    }
+  });
+
+  const nodes: BranchNode[] = [];
+  const visit = (draft: StoryDraft, depth: number) => {
+    nodes.push({ draft, depth });
+    [...(children.get(draft.id) ?? [])]
+      .sort((a, b) => (a.branch?.forkedAt ?? "").localeCompare(b.branch?.forkedAt ?? ""))
+      .forEach((child) => visit(child, depth + 1));
+  };
+  roots.forEach((root) => visit(root, 0));
+  return nodes;
+}
+
+/** "added" and "removed" are from the point of view of the base draft: the other branch has or lacks the scene. */
+export type SceneComparisonKind = "same" | "changed" | "added" | "removed";
+
+export interface SceneComparison {
+  sceneId: string;
+  title: string;
+  chapterTitle: string;
+  kind: SceneComparisonKind;
+  base?: Scene;
+  other?: Scene;
+}
+
+/** Pairs the scenes of two branches by id: the base draft's order first, then scenes only the other has. */
+export function compareBranches(base: StoryDraft, other: StoryDraft): SceneComparison[] {
+  const rows: SceneComparison[] = [];
+  base.chapters.forEach((chapter) =>
+    chapter.scenes.forEach((scene) => {
+      const match = findScene(other.chapters, scene.id)?.scene;
+      rows.push({
+        sceneId: scene.id,
+        title: scene.title,
+        chapterTitle: chapter.title,
+        kind: !match ? "removed" : match.content === scene.content ? "same" : "changed",
+        base: scene,
+        other: match,
+      });
+    })
+  );
+  other.chapters.forEach((chapter) =>
+    chapter.scenes.forEach((scene) => {
+      if (findScene(base.chapters, scene.id)) return;
+      rows.push({ sceneId: scene.id, title: scene.title, chapterTitle: chapter.title, kind: "added", other: scene });
+    })
+  );
+  return rows;
+}
+
+/**
+ * Brings the chosen scenes of `source` into `target`. A scene both have takes
+ * the source's text and details, recorded as a "merge" revision. A scene only
+ * the source has is added with its history, into the chapter of the same id
+ * at the same position, or into a copy of that chapter when the target lacks it.
+ */
+export function mergeScenes(target: Chapter[], source: Chapter[], sceneIds: string[], now = new Date()): Chapter[] {
+  let chapters = target;
+  source.forEach((sourceChapter, chapterIndex) =>
+    sourceChapter.scenes.forEach((scene, sceneIndex) => {
+      if (!sceneIds.includes(scene.id)) return;
+      const existing = findScene(chapters, scene.id);
+      if (existing) {
+        const merged: Scene = {
+          ...scene,
+          revisions: recordRevision(existing.scene.revisions, scene.content, { cause: "merge" }, now),
+        };
+        chapters = chapters.map((chapter) =>
+          chapter.id === existing.chapter.id
+            ? { ...chapter, scenes: chapter.scenes.map((entry) => (entry.id === scene.id ? merged : entry)) }
+            : chapter
+        );
+        return;
+      }
+      if (!chapters.some((chapter) => chapter.id === sourceChapter.id)) {
+        const copy: Chapter = { ...sourceChapter, scenes: [] };
+        const index = Math.min(chapterIndex, chapters.length);
+        chapters = [...chapters.slice(0, index), copy, ...chapters.slice(index)];
+      }
+      chapters = chapters.map((chapter) => {
+        if (chapter.id !== sourceChapter.id) return chapter;
+        const index = Math.min(sceneIndex, chapter.scenes.length);
+        return { ...chapter, scenes: [...chapter.scenes.slice(0, index), scene, ...chapter.scenes.slice(index)] };
+      });
+    })
+  );
+  return chapters;
+}
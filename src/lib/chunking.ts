@@ -0,0 +1,116 @@
+import type { ProviderDescriptor } from "../context/ProviderContext";
+import { PROMPT_OVERHEAD_TOKENS, contextWindowFor, estimateTokens } from "./continuation";
+
+/**
+ * Upper bound on one section, even for models that could read more. Editors
+ * give sharper notes on a few thousand words than on a whole manuscript.
+ */
+export const SECTION_TOKENS = 3500;
+
+/** A section opens at a scene break once the current one has this share of the budget. */
+const SCENE_BREAK_FILL = 0.4;
+
+/** Lines authors use between scenes or chapters: `***`, `* * *`, `---`, `#` headings, "Chapter 3". */
+const SCENE_BREAK = /^(?:[*#~_=-]\s*){3,}$|^#{1,6}\s+\S|^(?:chapter|part|book|scene|interlude|prologue|epilogue)\b/i;
+
+const SENTENCE_END = /(?<=[.!?]["”’)]?)\s+(?=\S)/g;
+
+export interface DraftSection {
+  /** 1-based position in the draft. */
+  index: number;
+  /** Character offsets into the full draft; `text` is exactly `draft.slice(start, end)`. */
+  start: number;
+  end: number;
+  text: string;
+  /** The chapter or scene heading the section opens with, when there is one. */
+  heading?: string;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  tokens: number;
+  sceneBreak: boolean;
+}
+
+function paragraphSpans(draft: string): Span[] {
+  const spans: Span[] = [];
+  const pattern = /\S[\s\S]*?(?=\n\s*\n|\s*$)/g;
+  for (const match of draft.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const text = match[0];
+    spans.push({
+      start,
+      end: start + text.length,
+      tokens: estimateTokens(text),
+      sceneBreak: !text.includes("\n") && SCENE_BREAK.test(text.trim()),
+    });
+  }
+  return spans;
+}
+
+/** Splits one paragraph that is too long on its own at sentence ends. */
+function sentenceSpans(draft: string, span: Span, budget: number): Span[] {
+  const pieces: Span[] = [];
+  let start = span.start;
+  let end = span.start;
+  const text = draft.slice(span.start, span.end);
+  const cuts = [...text.matchAll(SENTENCE_END)].map((match) => span.start + (match.index ?? 0)).concat(span.end);
+  cuts.forEach((cut) => {
+    if (estimateTokens(draft.slice(start, cut)) > budget && end > start) {
+      pieces.push({ start, end, tokens: estimateTokens(draft.slice(start, end)), sceneBreak: false });
+      start = draft.slice(end, cut).search(/\S/) + end;
+    }
+    end = cut;
+  });
+  pieces.push({ start, end: span.end, tokens: estimateTokens(draft.slice(start, span.end)), sceneBreak: false });
+  return pieces;
+}
+
+/**
+ * Cuts a draft into sections of at most `budgetTokens`, preferring scene
+ * breaks, then paragraph ends, then sentence ends. Sections are exact slices
+ * of the draft, so quotes from a section still anchor in the whole text.
+ */
+export function splitDraft(draft: string, budgetTokens: number): DraftSection[] {
+  const budget = Math.max(200, budgetTokens);
+  const spans = paragraphSpans(draft).flatMap((span) => (span.tokens > budget ? sentenceSpans(draft, span, budget) : [span]));
+  const groups: Span[][] = [];
+  let current: Span[] = [];
+  let used = 0;
+
+  spans.forEach((span) => {
+    const sceneCut = span.sceneBreak && used >= budget * SCENE_BREAK_FILL;
+    if (current.length && (sceneCut || used + span.tokens > budget)) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(span);
+    used += span.tokens + 1;
+  });
+  if (current.length) groups.push(current);
+
+  return groups.map((group, index) => {
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const first = draft.slice(group[0].start, group[0].end).trim();
+    return {
+      index: index + 1,
+      start,
+      end,
+      text: draft.slice(start, end),
+      heading: group[0].sceneBreak && /[A-Za-z0-9]/.test(first) ? first.replace(/^#+\s*/, "").slice(0, 60) : undefined,
+    };
+  });
+}
+
+/** Tokens of draft that fit one request next to the prompt and the reply. */
+export function sectionBudget(provider: ProviderDescriptor, model: string, outputTokens: number) {
+  const available = contextWindowFor(provider, model) - outputTokens - PROMPT_OVERHEAD_TOKENS;
+  return Math.max(256, Math.min(SECTION_TOKENS, available));
+}
+
+export function sectionLabel(section: DraftSection, total: number) {
+  return `Section ${section.index} of ${total}${section.heading ? ` · ${section.heading}` : ""}`;
+}
@@ -1,5 +1,29 @@
-import { AIClient, AIClientError, FeedbackBuildRequest, StoryBuildRequest, fetchWithHandling } from "./base";
-import { composeFeedbackPrompt, composeStorySystemPrompt, composeStoryUserPrompt } from "../prompts/storyTemplates";
+import {
+  AIClient,
+  AIClientError,
+  AIResponse,
+  ContinuationBuildRequest,
+  FeedbackBuildRequest,
+  GenerationParams,
+  RequestControls,
+  StoryBuildRequest,
+  StreamHandlers,
+  TokenUsage,
+  definedFields,
+  feedbackTokenLimit,
+  fetchJson,
+  fetchWithRetry,
+  isTruncationReason,
+  parseEventData,
+  readEventStream,
+  stopSequences,
+} from "./base";
+import {
+  composeContinuationPrompt,
+  composeFeedbackPrompt,
+  composeStorySystemPrompt,
+  composeStoryUserPrompt,
+} from "../prompts/storyTemplates";
 
 const envUrl = import.meta.env.VITE_ANTHROPIC_BASE_URL?.trim();
 const ANTHROPIC_URL =
@@ -8,10 +32,16 @@ const ANTHROPIC_URL =
     : import.meta.env.DEV
     ? "/__dreamscribe/anthropic"
     : "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_MODELS_URL =
+  envUrl && envUrl.length > 0
+    ? envUrl.replace(/\/messages$/, "/models")
+    : import.meta.env.DEV
+    ? "/__dreamscribe/anthropic-models"
+    : "https://api.anthropic.com/v1/models";
 const ANTHROPIC_VERSION = "2023-06-01";
 
-async function postAnthropic(apiKey: string, body: unknown) {
-  const response = await fetchWithHandling(
+async function sendAnthropic(apiKey: string, body: unknown, controls: RequestControls = {}) {
+  const response = await fetchWithRetry(
     ANTHROPIC_URL,
     {
       method: "POST",
@@ -21,8 +51,10 @@ async function postAnthropic(apiKey: string, body: unknown) {
         "anthropic-version": ANTHROPIC_VERSION,
       },
       body: JSON.stringify(body),
+      signal: controls.signal,
     },
-    "Anthropic"
+    "Anthropic",
+    controls.retry
   );
 
   if (!response.ok) {
@@ -33,51 +65,162 @@ async function postAnthropic(apiKey: string, body: unknown) {
     throw new AIClientError(message, response.status, payload);
   }
 
+  return response;
+}
+
+async function postAnthropic(apiKey: string, body: unknown, controls: RequestControls = {}) {
+  const response = await sendAnthropic(apiKey, body, controls);
   return response.json();
 }
 
+type AnthropicUsage = { input_tokens?: number; output_tokens?: number };
+
+type AnthropicStreamEvent = {
+  type?: string;
+  message?: { usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: AnthropicUsage;
+  error?: { message?: string };
+};
+
+function toUsage(usage: AnthropicUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const total =
+    usage.input_tokens !== undefined || usage.output_tokens !== undefined
+      ? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0)
+      : undefined;
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens, totalTokens: total };
+}
+
+/**
+ * Anthropic takes temperature (at most 1), top_p and stop sequences. Current
+ * models reject temperature and top_p together, so top_p is only sent when the
+ * preset leaves temperature unset. There are no penalties or seed.
+ */
+function sampling(params: GenerationParams | undefined, temperature: number) {
+  const useTopP = params?.topP !== undefined && params.temperature === undefined;
+  return definedFields({
+    temperature: useTopP ? undefined : Math.min(1, params?.temperature ?? temperature),
+    top_p: useTopP ? params?.topP : undefined,
+    stop_sequences: stopSequences(params, 16),
+  });
+}
+
+function buildStoryBody(request: StoryBuildRequest, userPrompt = composeStoryUserPrompt(request.metadata, request.prompt, request.continuity)) {
+  return {
+    model: request.model ?? request.provider.defaultModel,
+    max_tokens: request.maxTokens ?? 1500,
+    ...sampling(request.params, 0.7),
+    system: composeStorySystemPrompt(request.metadata, request.continuity),
+    messages: [
+      {
+        role: "user",
+        content: [{ type: "text", text: userPrompt }],
+      },
+    ],
+  };
+}
+
+async function streamMessages(
+  request: StoryBuildRequest,
+  body: ReturnType<typeof buildStoryBody>,
+  handlers: StreamHandlers
+): Promise<AIResponse> {
+  const response = await sendAnthropic(request.apiKey, { ...body, stream: true }, request);
+  let text = "";
+  const usage: AnthropicUsage = {};
+  let stopReason: string | undefined;
+  await readEventStream(response, "Anthropic", (event) => {
+    const data = parseEventData<AnthropicStreamEvent>(event, "Anthropic");
+    switch (data.type) {
+      case "message_start":
+        Object.assign(usage, data.message?.usage);
+        break;
+      case "content_block_delta":
+        if (data.delta?.type === "text_delta" && data.delta.text) {
+          text += data.delta.text;
+          handlers.onChunk({ delta: data.delta.text, text, usage: toUsage(usage) });
+        }
+        break;
+      case "message_delta":
+        Object.assign(usage, data.usage);
+        stopReason = data.delta?.stop_reason ?? stopReason;
+        break;
+      case "error":
+        throw new AIClientError(`Anthropic stream failed: ${data.error?.message ?? "unknown error"}`, undefined, data);
+    }
+  });
+  const content = text.trim();
+  if (!content) {
+    throw new AIClientError("Anthropic returned an empty response", undefined, usage);
+  }
+  return {
+    content,
+    tokensUsed: usage.output_tokens,
+    usage: toUsage(usage),
+    stopReason,
+    truncated: isTruncationReason(stopReason),
+  };
+}
+
 export const anthropicClient: AIClient = {
   async generateStory(request: StoryBuildRequest) {
-    const body = {
-      model: request.model ?? request.provider.defaultModel,
-      max_tokens: request.maxTokens ?? 1500,
-      temperature: request.temperature ?? 0.7,
-      system: composeStorySystemPrompt(request.metadata),
-      messages: [
-        {
-          role: "user",
-          content: [{ type: "text", text: composeStoryUserPrompt(request.metadata, request.prompt) }],
-        },
-      ],
-    };
-
-    const data = await postAnthropic(request.apiKey, body);
+    const data = await postAnthropic(request.apiKey, buildStoryBody(request), request);
     const text = data.content?.[0]?.text?.trim();
     if (!text) {
       throw new AIClientError("Anthropic returned an empty response", undefined, data);
     }
-    return { content: text, tokensUsed: data.usage?.output_tokens, raw: data };
+    return { content: text, tokensUsed: data.usage?.output_tokens, usage: toUsage(data.usage), raw: data };
+  },
+
+  async streamStory(request: StoryBuildRequest, handlers) {
+    return streamMessages(request, buildStoryBody(request), handlers);
+  },
+
+  async continueStory(request: ContinuationBuildRequest, handlers) {
+    const userPrompt = composeContinuationPrompt(
+      request.metadata,
+      request.draft,
+      request.words,
+      request.prompt,
+      request.trimmed,
+      request.continuity
+    );
+    return streamMessages(request, buildStoryBody(request, userPrompt), handlers);
   },
 
   async requestFeedback(request: FeedbackBuildRequest) {
+    const json = request.format === "json";
     const body = {
       model: request.model ?? request.provider.defaultModel,
-      max_tokens: 900,
-      temperature: 0.3,
+      max_tokens: feedbackTokenLimit(request),
+      ...sampling(request.params, 0.3),
       system: "You are a precise, encouraging fiction editor.",
       messages: [
         {
           role: "user",
-          content: [{ type: "text", text: composeFeedbackPrompt(request.metadata, request.draft, request.instruction) }],
+          content: [{ type: "text", text: composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity) }],
         },
+        // No JSON mode here; prefilling the opening brace keeps the reply to a bare object.
+        ...(json ? [{ role: "assistant", content: [{ type: "text", text: "{" }] }] : []),
       ],
     };
 
-    const data = await postAnthropic(request.apiKey, body);
+    const data = await postAnthropic(request.apiKey, body, request);
     const text = data.content?.[0]?.text?.trim();
     if (!text) {
       throw new AIClientError("Anthropic returned an empty feedback response", undefined, data);
     }
-    return { content: text, tokensUsed: data.usage?.output_tokens, raw: data };
+    return { content: json ? `{${text}` : text, tokensUsed: data.usage?.output_tokens, usage: toUsage(data.usage), raw: data };
+  },
+
+  async listModels(request) {
+    const data = await fetchJson<{ data?: Array<{ id: string; display_name?: string; created_at?: string }> }>(
+      `${ANTHROPIC_MODELS_URL}?limit=100`,
+      { "x-api-key": request.apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      "Anthropic",
+      request
+    );
+    return (data.data ?? []).map((model) => ({ id: model.id, label: model.display_name, createdAt: model.created_at }));
   },
 };
@@ -1,16 +1,70 @@
 ﻿import { StoryMetadata } from "../../context/WorkspaceContext";
 import { ProviderDescriptor, ProviderId } from "../../context/ProviderContext";
+import type { QueueOptions } from "../scheduler";
+import type { CostReport } from "../pricing";
+import type { UsageTag } from "../usageLedger";
+
+/**
+ * Sampling settings shared by every provider. Unset fields fall back to the
+ * client's defaults; each client sends only what its API accepts.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  stop?: string[];
+  seed?: number;
+}
 
 export interface StoryBuildRequest {
   provider: ProviderDescriptor;
   apiKey: string;
   metadata: StoryMetadata;
   prompt: string;
-  temperature?: number;
+  /** Continuity notes for the `{{continuity}}` template variable. */
+  continuity?: string;
+  params?: GenerationParams;
   model?: string;
   maxTokens?: number;
+  signal?: AbortSignal;
+  retry?: RetryOptions;
+  onFallback?: (event: FallbackEvent) => void;
+  /** Skip the response cache lookup; the fresh reply still replaces any stored one. */
+  bypassCache?: boolean;
+  /** Priority and label in the request scheduler's queue. */
+  queue?: QueueOptions;
+  /** What the spend ledger files this request under. */
+  ledger?: UsageTag;
+  /** Providers to try in order when this one is down (5xx, timeout, network). */
+  failover?: FailoverTarget[];
+  onProviderFailover?: (event: ProviderFailoverEvent) => void;
+}
+
+/** Another provider a story request may move to, with its own key and model. */
+export interface FailoverTarget {
+  provider: ProviderDescriptor;
+  apiKey: string;
+  model?: string;
+  retry?: RetryOptions;
+}
+
+/**
+ * Asks for the passage that follows `draft`. `prompt` carries optional
+ * direction for the next beat and may be empty.
+ */
+export interface ContinuationBuildRequest extends StoryBuildRequest {
+  /** The draft so far; `storyEngine.continueStory` trims it to the tail that fits the model. */
+  draft: string;
+  /** Approximate length of the new passage. */
+  words: number;
+  /** Set by the engine when the start of the draft was left out. */
+  trimmed?: boolean;
 }
 
+/** "json" asks for the structured feedback schema, using the provider's JSON mode where it has one. */
+export type FeedbackFormat = "text" | "json";
+
 export interface FeedbackBuildRequest {
   provider: ProviderDescriptor;
   apiKey: string;
@@ -18,18 +72,147 @@ export interface FeedbackBuildRequest {
   draft: string;
   focus: "grammar" | "dialogue" | "flow" | "custom";
   instruction: string;
+  format?: FeedbackFormat;
+  continuity?: string;
+  /** Feedback keeps each client's low editing temperature unless this sets one. */
+  params?: GenerationParams;
+  /** Overrides the reply budget from `feedbackTokenLimit`. */
+  maxTokens?: number;
   model?: string;
+  signal?: AbortSignal;
+  retry?: RetryOptions;
+  onFallback?: (event: FallbackEvent) => void;
+  bypassCache?: boolean;
+  queue?: QueueOptions;
+  ledger?: UsageTag;
+}
+
+/** Cancellation and retry settings every client forwards to its HTTP calls. */
+export type RequestControls = Pick<StoryBuildRequest, "signal" | "retry">;
+
+export interface RetryPolicy {
+  /** Total attempts including the first request; 1 disables retries. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Upper bound on time spent across all attempts and waits. */
+  maxTotalMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  maxTotalMs: 60000,
+};
+
+export interface RetryAttempt {
+  providerLabel: string;
+  /** The attempt that just failed, starting at 1. */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  status?: number;
+  reason: string;
+  /** True when the delay came from `Retry-After` or rate-limit reset headers. */
+  fromHeaders: boolean;
+}
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
 }
 
 export interface AIResponse {
   content: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
   raw?: unknown;
+  /** The model that actually produced `content`, set by the fallback runner. */
+  model?: string;
+  /** The model the caller asked for; differs from `model` after a fallback. */
+  requestedModel?: string;
+  /** The provider's own stop/finish reason, when it reports one. */
+  stopReason?: string;
+  /** True when output stopped at the token limit rather than at a natural end. */
+  truncated?: boolean;
+  /** True when served from the response cache instead of the provider. */
+  cached?: boolean;
+  /** The provider that produced `content`; differs from the request's after a provider failover. */
+  providerId?: ProviderId;
+  providerLabel?: string;
+  /** Estimated and reconciled spend, attached by the story engine. */
+  cost?: CostReport;
+}
+
+/**
+ * Coarse error buckets used to decide whether a fallback chain steps down.
+ * Providers phrase errors differently, so classification is by status first.
+ */
+export type AIErrorClass =
+  | "model_unavailable"
+  | "rate_limited"
+  | "server"
+  | "timeout"
+  | "network"
+  | "auth"
+  | "invalid_request"
+  | "cancelled"
+  | "unknown";
+
+export interface FallbackEvent {
+  providerLabel: string;
+  failedModel: string;
+  nextModel: string;
+  errorClass: AIErrorClass;
+  message: string;
+}
+
+export interface ProviderFailoverEvent {
+  fromProviderId: ProviderId;
+  fromProvider: string;
+  toProviderId: ProviderId;
+  toProvider: string;
+  errorClass: AIErrorClass;
+  message: string;
+}
+
+export interface StreamChunk {
+  delta: string;
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface StreamHandlers {
+  onChunk: (chunk: StreamChunk) => void;
+}
+
+export interface ModelListRequest extends RequestControls {
+  provider: ProviderDescriptor;
+  apiKey: string;
+}
+
+/** One model as reported by a vendor's list-models endpoint. */
+export interface ModelCatalogueEntry {
+  id: string;
+  label?: string;
+  createdAt?: string;
+  deprecated?: boolean;
 }
 
 export interface AIClient {
   generateStory: (request: StoryBuildRequest) => Promise<AIResponse>;
+  streamStory: (request: StoryBuildRequest, handlers: StreamHandlers) => Promise<AIResponse>;
+  /** Streams the next passage of an existing draft. */
+  continueStory: (request: ContinuationBuildRequest, handlers: StreamHandlers) => Promise<AIResponse>;
   requestFeedback: (request: FeedbackBuildRequest) => Promise<AIResponse>;
+  listModels: (request: ModelListRequest) => Promise<ModelCatalogueEntry[]>;
 }
 
 export type ClientRegistry = Record<Exclude<ProviderId, `custom:${string}`>, AIClient>;
@@ -41,35 +224,405 @@ export class AIClientError extends Error {
   }
 }
 
+export class AIRequestTimeoutError extends AIClientError {
+  constructor(providerLabel: string, public readonly timeoutMs: number) {
+    super(`${providerLabel} request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "AIRequestTimeoutError";
+  }
+}
+
+/** Raised when the caller aborts a request; `partialContent` holds any text streamed before the stop. */
+export class AIRequestCancelledError extends AIClientError {
+  constructor(public readonly partialContent = "") {
+    super("Request cancelled");
+    this.name = "AIRequestCancelledError";
+  }
+}
+
+/** The request never reached the API: DNS, CORS, offline or a missing dev proxy. */
+export class AINetworkError extends AIClientError {
+  constructor(message: string, payload?: unknown) {
+    super(message, undefined, payload);
+    this.name = "AINetworkError";
+  }
+}
+
+export function isCancellation(error: unknown): error is AIRequestCancelledError {
+  return error instanceof AIRequestCancelledError;
+}
+
+const MODEL_ERROR_PATTERN = /model[^.]*(not found|does not exist|not supported|unavailable|no access|not available)|unknown model|invalid model/i;
+
+export function classifyError(error: unknown): AIErrorClass {
+  if (isCancellation(error)) return "cancelled";
+  if (error instanceof AIRequestTimeoutError) return "timeout";
+  if (error instanceof AINetworkError) return "network";
+  if (!(error instanceof AIClientError)) return "unknown";
+  const status = error.status;
+  if (status === 404) return "model_unavailable";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "rate_limited";
+  if (status !== undefined && status >= 500) return "server";
+  if (status === 408) return "timeout";
+  if (status !== undefined && status >= 400) {
+    // Some providers answer an unknown model with a 400 rather than a 404.
+    const detail = `${error.message} ${error.payload ? JSON.stringify(error.payload) : ""}`;
+    return MODEL_ERROR_PATTERN.test(detail) ? "model_unavailable" : "invalid_request";
+  }
+  return "unknown";
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/** JSON feedback quotes the draft back, so it needs more room than prose notes. */
+export function feedbackTokenLimit(request: Pick<FeedbackBuildRequest, "format" | "maxTokens">) {
+  return request.maxTokens ?? (request.format === "json" ? 1800 : 900);
+}
+
+/** Drops unset fields so a request body only names the parameters the caller chose. */
+export function definedFields<T extends Record<string, unknown>>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/** Stop sequences without blanks, capped at the provider's limit. */
+export function stopSequences(params: GenerationParams | undefined, limit: number) {
+  const stop = (params?.stop ?? []).filter((sequence) => sequence.trim().length > 0).slice(0, limit);
+  return stop.length ? stop : undefined;
+}
+
+const TRUNCATION_REASONS = new Set(["length", "max_tokens", "max_output_tokens", "MAX_TOKENS"]);
+
+/** Maps each vendor's spelling of "ran out of output tokens" onto one flag. */
+export function isTruncationReason(reason: string | null | undefined) {
+  return Boolean(reason && TRUNCATION_REASONS.has(reason));
+}
+
 export function assertKey(apiKey: string, provider: ProviderDescriptor) {
   if (!apiKey) {
     throw new AIClientError(`Missing API key for ${provider.label}`);
   }
 }
 
-export function withTimeout<T>(promise: Promise<T>, ms = 60000): Promise<T> {
-  let timeoutId: ReturnType<typeof setTimeout>;
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    timeoutId = setTimeout(() => reject(new AIClientError("Request timed out")), ms);
-  });
-  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timeoutId));
-}
+const DEFAULT_TIMEOUT_MS = 60000;
 
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Fetches through a private AbortController so that both the timeout and the
+ * caller's `init.signal` cancel the underlying request. The timeout covers the
+ * wait for the headers; after that the body is guarded by `guardBody`.
+ */
 export async function fetchWithHandling(
   url: RequestInfo | URL,
   init: RequestInit | undefined,
-  providerLabel: string
+  providerLabel: string,
+  timeoutMs = DEFAULT_TIMEOUT_MS
 ): Promise<Response> {
+  const external = init?.signal ?? undefined;
+  if (external?.aborted) {
+    throw new AIRequestCancelledError();
+  }
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  external?.addEventListener("abort", forwardAbort, { once: true });
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const release = () => external?.removeEventListener("abort", forwardAbort);
+
   try {
-    return await withTimeout(fetch(url, init));
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return guardBody(response, controller, release, providerLabel, timeoutMs);
   } catch (error) {
+    release();
+    if (timedOut) {
+      throw new AIRequestTimeoutError(providerLabel, timeoutMs);
+    }
+    if (external?.aborted || isAbortError(error)) {
+      throw new AIRequestCancelledError();
+    }
     if (error instanceof TypeError) {
-      throw new AIClientError(
+      throw new AINetworkError(
         `${providerLabel} request failed before reaching the API. If you're running locally, ensure the dev proxy is active (npm run dev) or configure a VITE_${providerLabel.replace(/\s+/g, "_").toUpperCase()}_BASE_URL override.`,
-        undefined,
         { cause: String(error) }
       );
     }
     throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Re-wraps the body so the request stays cancellable until it has been read:
+ * the caller's signal still aborts it, and a body that goes quiet for
+ * `timeoutMs` between chunks fails with `AIRequestTimeoutError`. `release`
+ * runs once the body ends, fails or is cancelled.
+ */
+function guardBody(
+  response: Response,
+  controller: AbortController,
+  release: () => void,
+  providerLabel: string,
+  timeoutMs: number
+): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+  const reader = response.body.getReader();
+  let idleId: ReturnType<typeof setTimeout> | undefined;
+  const body = new ReadableStream<Uint8Array>(
+    {
+      async pull(target) {
+        let timedOut = false;
+        idleId = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs);
+        try {
+          const { done, value } = await reader.read();
+          clearTimeout(idleId);
+          if (done) {
+            release();
+            target.close();
+          } else {
+            target.enqueue(value);
+          }
+        } catch (error) {
+          clearTimeout(idleId);
+          release();
+          target.error(timedOut ? new AIRequestTimeoutError(providerLabel, timeoutMs) : error);
+        }
+      },
+      cancel(reason) {
+        clearTimeout(idleId);
+        release();
+        return reader.cancel(reason);
+      },
+    },
+    // Pull only when the caller reads, so the idle timer never runs ahead of them.
+    { highWaterMark: 0 }
+  );
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    if (field === "data") data.push(value);
+  }
+  return data.length ? { event, data: data.join("\n") } : null;
+}
+
+/**
+ * Reads a `text/event-stream` body and invokes `onEvent` for every complete event.
+ * Providers differ in framing details, so callers interpret `data` themselves.
+ */
+export async function readEventStream(
+  response: Response,
+  providerLabel: string,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new AIClientError(`${providerLabel} returned an empty stream`);
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw new AIRequestCancelledError();
+      }
+      throw error;
+    }
+    const { done, value } = chunk;
+    buffer += decoder.decode(value, { stream: !done });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? "" : blocks.pop() ?? "";
+    for (const block of blocks) {
+      const parsed = parseEventBlock(block);
+      if (parsed) onEvent(parsed);
+    }
+    if (done) break;
+  }
+}
+
+export function parseEventData<T>(event: ServerSentEvent, providerLabel: string): T {
+  try {
+    return JSON.parse(event.data) as T;
+  } catch (error) {
+    throw new AIClientError(`${providerLabel} sent a malformed stream event`, undefined, { data: event.data });
+  }
+}
+
+/** Resolves after `ms`, or rejects with `AIRequestCancelledError` as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AIRequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIRequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function parseResetValue(value: string, now: number): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Reads how long the server asked us to wait. Understands `retry-after-ms`,
+ * `Retry-After` (seconds or HTTP date) and Anthropic's
+ * `anthropic-ratelimit-{requests,tokens,input-tokens,output-tokens}-reset`
+ * timestamps, which only count when the matching `-remaining` header is 0.
+ */
+export function parseRetryAfter(headers: Headers, now = Date.now()): number | undefined {
+  const retryAfterMs = Number(headers.get("retry-after-ms"));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const parsed = parseResetValue(retryAfter, now);
+    if (parsed !== undefined) return parsed;
+  }
+  let anthropicReset: number | undefined;
+  for (const bucket of ["requests", "tokens", "input-tokens", "output-tokens"]) {
+    const remaining = headers.get(`anthropic-ratelimit-${bucket}-remaining`);
+    const reset = headers.get(`anthropic-ratelimit-${bucket}-reset`);
+    if (remaining === null || reset === null || Number(remaining) > 0) continue;
+    const parsed = parseResetValue(reset, now);
+    if (parsed !== undefined) {
+      anthropicReset = Math.max(anthropicReset ?? 0, parsed);
+    }
+  }
+  return anthropicReset;
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number) {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // "Equal jitter": keep half the exponential step, randomise the other half.
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function isRetryableError(error: unknown) {
+  const errorClass = classifyError(error);
+  return errorClass === "timeout" || errorClass === "network";
+}
+
+/**
+ * Runs `send` under the caller's retry policy. Rate limits (429), overloads
+ * and 5xx responses, timeouts and network failures are retried with
+ * exponential backoff, preferring any wait the server advertises. Retrying
+ * stops once the next wait would exceed `maxTotalMs`; the last response or
+ * error is then handed back unchanged so clients keep their own error messages.
+ * Only the request itself is retried, never a stream that already started.
+ */
+export async function withRetry(
+  send: () => Promise<Response>,
+  providerLabel: string,
+  retry: RetryOptions = {},
+  signal?: AbortSignal
+): Promise<Response> {
+  const policy = retry.policy ?? DEFAULT_RETRY_POLICY;
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt += 1) {
+    let response: Response | undefined;
+    let failure: unknown;
+    try {
+      response = await send();
+      if (response.ok || !RETRYABLE_STATUSES.has(response.status)) {
+        return response;
+      }
+    } catch (error) {
+      if (!isRetryableError(error)) throw error;
+      failure = error;
+    }
+
+    const hinted = response ? parseRetryAfter(response.headers) : undefined;
+    const delayMs = hinted ?? backoffDelay(policy, attempt);
+    const elapsed = Date.now() - startedAt;
+    if (attempt >= maxAttempts || elapsed + delayMs > policy.maxTotalMs) {
+      if (response) return response;
+      throw failure;
+    }
+
+    await response?.body?.cancel().catch(() => undefined);
+    retry.onRetry?.({
+      providerLabel,
+      attempt,
+      maxAttempts,
+      delayMs,
+      status: response?.status,
+      reason: response ? `HTTP ${response.status}` : failure instanceof Error ? failure.message : String(failure),
+      fromHeaders: hinted !== undefined,
+    });
+    await sleep(delayMs, signal);
+  }
+}
+
+export function fetchWithRetry(
+  url: RequestInfo | URL,
+  init: RequestInit | undefined,
+  providerLabel: string,
+  retry: RetryOptions = {}
+): Promise<Response> {
+  return withRetry(() => fetchWithHandling(url, init, providerLabel), providerLabel, retry, init?.signal ?? undefined);
+}
+
+/** GETs a JSON resource (model lists and similar metadata) with the usual error shaping. */
+export async function fetchJson<T>(
+  url: string,
+  headers: Record<string, string>,
+  providerLabel: string,
+  controls: RequestControls = {}
+): Promise<T> {
+  const response = await fetchWithRetry(url, { method: "GET", headers, signal: controls.signal }, providerLabel, controls.retry);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => undefined);
+    const detail =
+      (payload as { error?: { message?: string } } | undefined)?.error?.message?.trim() ?? "";
+    const message = detail
+      ? `${providerLabel} error (${response.status}): ${detail}`
+      : `${providerLabel} error (${response.status})`;
+    throw new AIClientError(message, response.status, payload);
   }
+  return (await response.json()) as T;
 }
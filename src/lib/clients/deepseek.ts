@@ -1,5 +1,29 @@
-import { AIClient, AIClientError, FeedbackBuildRequest, StoryBuildRequest, fetchWithHandling } from "./base";
-import { composeFeedbackPrompt, composeStorySystemPrompt, composeStoryUserPrompt } from "../prompts/storyTemplates";
+import {
+  AIClient,
+  AIClientError,
+  AIResponse,
+  ContinuationBuildRequest,
+  FeedbackBuildRequest,
+  GenerationParams,
+  RequestControls,
+  StoryBuildRequest,
+  StreamHandlers,
+  TokenUsage,
+  definedFields,
+  feedbackTokenLimit,
+  fetchJson,
+  fetchWithRetry,
+  isTruncationReason,
+  parseEventData,
+  readEventStream,
+  stopSequences,
+} from "./base";
+import {
+  composeContinuationPrompt,
+  composeFeedbackPrompt,
+  composeStorySystemPrompt,
+  composeStoryUserPrompt,
+} from "../prompts/storyTemplates";
 
 const envUrl = import.meta.env.VITE_DEEPSEEK_BASE_URL?.trim();
 const DEEPSEEK_URL =
@@ -8,9 +32,15 @@ const DEEPSEEK_URL =
     : import.meta.env.DEV
     ? "/__dreamscribe/deepseek"
     : "https://api.deepseek.com/chat/completions";
+const DEEPSEEK_MODELS_URL =
+  envUrl && envUrl.length > 0
+    ? envUrl.replace(/\/chat\/completions$/, "/models")
+    : import.meta.env.DEV
+    ? "/__dreamscribe/deepseek-models"
+    : "https://api.deepseek.com/models";
 
-async function postDeepSeek(apiKey: string, body: unknown) {
-  const response = await fetchWithHandling(
+async function sendDeepSeek(apiKey: string, body: unknown, controls: RequestControls = {}) {
+  const response = await fetchWithRetry(
     DEEPSEEK_URL,
     {
       method: "POST",
@@ -19,8 +49,10 @@ async function postDeepSeek(apiKey: string, body: unknown) {
         Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: controls.signal,
     },
-    "DeepSeek"
+    "DeepSeek",
+    controls.retry
   );
 
   if (!response.ok) {
@@ -31,45 +63,139 @@ async function postDeepSeek(apiKey: string, body: unknown) {
     throw new AIClientError(message, response.status, payload);
   }
 
+  return response;
+}
+
+async function postDeepSeek(apiKey: string, body: unknown, controls: RequestControls = {}) {
+  const response = await sendDeepSeek(apiKey, body, controls);
   return response.json();
 }
 
+type DeepSeekUsage = { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+
+type DeepSeekStreamChunk = {
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: DeepSeekUsage | null;
+};
+
+function toUsage(usage: DeepSeekUsage | null | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens, totalTokens: usage.total_tokens };
+}
+
+/** DeepSeek follows chat completions, up to 16 stop sequences, but ignores `seed`. */
+function sampling(params: GenerationParams | undefined, temperature: number) {
+  return definedFields({
+    temperature: params?.temperature ?? temperature,
+    top_p: params?.topP,
+    presence_penalty: params?.presencePenalty,
+    frequency_penalty: params?.frequencyPenalty,
+    stop: stopSequences(params, 16),
+  });
+}
+
+function buildStoryBody(request: StoryBuildRequest, userPrompt = composeStoryUserPrompt(request.metadata, request.prompt, request.continuity)) {
+  return {
+    model: request.model ?? request.provider.defaultModel,
+    ...sampling(request.params, 0.65),
+    max_tokens: request.maxTokens ?? 1400,
+    messages: [
+      { role: "system", content: composeStorySystemPrompt(request.metadata, request.continuity) },
+      { role: "user", content: userPrompt },
+    ],
+  };
+}
+
+async function streamChat(
+  request: StoryBuildRequest,
+  body: ReturnType<typeof buildStoryBody>,
+  handlers: StreamHandlers
+): Promise<AIResponse> {
+  const response = await sendDeepSeek(
+    request.apiKey,
+    { ...body, stream: true, stream_options: { include_usage: true } },
+    request
+  );
+  let text = "";
+  let usage: DeepSeekUsage | undefined;
+  let stopReason: string | undefined;
+  await readEventStream(response, "DeepSeek", (event) => {
+    if (event.data === "[DONE]") return;
+    const data = parseEventData<DeepSeekStreamChunk>(event, "DeepSeek");
+    usage = data.usage ?? usage;
+    stopReason = data.choices?.[0]?.finish_reason ?? stopReason;
+    const delta = data.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      handlers.onChunk({ delta, text });
+    }
+  });
+  const content = text.trim();
+  if (!content) {
+    throw new AIClientError("DeepSeek returned an empty response", undefined, usage);
+  }
+  return {
+    content,
+    tokensUsed: usage?.total_tokens,
+    usage: toUsage(usage),
+    stopReason,
+    truncated: isTruncationReason(stopReason),
+  };
+}
+
 export const deepSeekClient: AIClient = {
   async generateStory(request: StoryBuildRequest) {
-    const body = {
-      model: request.model ?? request.provider.defaultModel,
-      temperature: request.temperature ?? 0.65,
-      max_tokens: request.maxTokens ?? 1400,
-      messages: [
-        { role: "system", content: composeStorySystemPrompt(request.metadata) },
-        { role: "user", content: composeStoryUserPrompt(request.metadata, request.prompt) },
-      ],
-    };
-
-    const data = await postDeepSeek(request.apiKey, body);
+    const data = await postDeepSeek(request.apiKey, buildStoryBody(request), request);
     const content = data.choices?.[0]?.message?.content?.trim();
     if (!content) {
       throw new AIClientError("DeepSeek returned an empty response", undefined, data);
     }
-    return { content, tokensUsed: data.usage?.total_tokens, raw: data };
+    return { content, tokensUsed: data.usage?.total_tokens, usage: toUsage(data.usage), raw: data };
+  },
+
+  async streamStory(request: StoryBuildRequest, handlers) {
+    return streamChat(request, buildStoryBody(request), handlers);
+  },
+
+  async continueStory(request: ContinuationBuildRequest, handlers) {
+    const userPrompt = composeContinuationPrompt(
+      request.metadata,
+      request.draft,
+      request.words,
+      request.prompt,
+      request.trimmed,
+      request.continuity
+    );
+    return streamChat(request, buildStoryBody(request, userPrompt), handlers);
   },
 
   async requestFeedback(request: FeedbackBuildRequest) {
     const body = {
       model: request.model ?? request.provider.defaultModel,
-      temperature: 0.4,
-      max_tokens: 900,
+      ...sampling(request.params, 0.4),
+      max_tokens: feedbackTokenLimit(request),
       messages: [
         { role: "system", content: "You are a careful fiction editor." },
-        { role: "user", content: composeFeedbackPrompt(request.metadata, request.draft, request.instruction) },
+        { role: "user", content: composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity) },
       ],
+      ...(request.format === "json" ? { response_format: { type: "json_object" } } : {}),
     };
 
-    const data = await postDeepSeek(request.apiKey, body);
+    const data = await postDeepSeek(request.apiKey, body, request);
     const content = data.choices?.[0]?.message?.content?.trim();
     if (!content) {
       throw new AIClientError("DeepSeek returned an empty feedback response", undefined, data);
     }
-    return { content, tokensUsed: data.usage?.total_tokens, raw: data };
+    return { content, tokensUsed: data.usage?.total_tokens, usage: toUsage(data.usage), raw: data };
+  },
+
+  async listModels(request) {
+    const data = await fetchJson<{ data?: Array<{ id: string }> }>(
+      DEEPSEEK_MODELS_URL,
+      { Authorization: `Bearer ${request.apiKey}` },
+      "DeepSeek",
+      request
+    );
+    return (data.data ?? []).map((model) => ({ id: model.id }));
   },
 };
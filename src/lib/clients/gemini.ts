@@ -1,5 +1,29 @@
-import { AIClient, AIClientError, FeedbackBuildRequest, StoryBuildRequest, fetchWithHandling } from "./base";
-import { composeFeedbackPrompt, composeStorySystemPrompt, composeStoryUserPrompt } from "../prompts/storyTemplates";
+import {
+  AIClient,
+  AIClientError,
+  AIResponse,
+  ContinuationBuildRequest,
+  FeedbackBuildRequest,
+  GenerationParams,
+  RequestControls,
+  StoryBuildRequest,
+  StreamHandlers,
+  TokenUsage,
+  definedFields,
+  feedbackTokenLimit,
+  fetchJson,
+  fetchWithRetry,
+  isTruncationReason,
+  parseEventData,
+  readEventStream,
+  stopSequences,
+} from "./base";
+import {
+  composeContinuationPrompt,
+  composeFeedbackPrompt,
+  composeStorySystemPrompt,
+  composeStoryUserPrompt,
+} from "../prompts/storyTemplates";
 
 const envUrl = import.meta.env.VITE_GEMINI_BASE_URL?.trim();
 const GEMINI_BASE =
@@ -14,8 +38,18 @@ function geminiEndpoint(model: string, apiKey: string) {
   return `${prefix}/v1/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`;
 }
 
-async function postGemini(url: string, body: unknown) {
-  const response = await fetchWithHandling(
+function geminiModelsEndpoint(apiKey: string) {
+  const prefix = GEMINI_BASE.endsWith("/") ? GEMINI_BASE.slice(0, -1) : GEMINI_BASE;
+  return `${prefix}/v1/models?pageSize=200&key=${encodeURIComponent(apiKey)}`;
+}
+
+function geminiStreamEndpoint(model: string, apiKey: string) {
+  const prefix = GEMINI_BASE.endsWith("/") ? GEMINI_BASE.slice(0, -1) : GEMINI_BASE;
+  return `${prefix}/v1/models/${model}:streamGenerateContent?alt=sse&key=${encodeURIComponent(apiKey)}`;
+}
+
+async function sendGemini(url: string, body: unknown, controls: RequestControls = {}) {
+  const response = await fetchWithRetry(
     url,
     {
       method: "POST",
@@ -23,8 +57,10 @@ async function postGemini(url: string, body: unknown) {
         "Content-Type": "application/json",
       },
       body: JSON.stringify(body),
+      signal: controls.signal,
     },
-    "Gemini"
+    "Gemini",
+    controls.retry
   );
 
   if (!response.ok) {
@@ -35,10 +71,38 @@ async function postGemini(url: string, body: unknown) {
     throw new AIClientError(message, response.status, payload);
   }
 
+  return response;
+}
+
+type GeminiUsage = { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+
+type GeminiCandidate = {
+  content?: { parts?: Array<{ text?: string }> };
+  finishReason?: string;
+};
+
+/** A generateContent reply, and each event of its streaming form. */
+type GeminiResponse = {
+  candidates?: GeminiCandidate[];
+  usageMetadata?: GeminiUsage;
+  error?: { message?: string };
+};
+
+async function postGemini(url: string, body: unknown, controls: RequestControls = {}): Promise<GeminiResponse> {
+  const response = await sendGemini(url, body, controls);
   return response.json();
 }
 
-function extractText(candidate: any): string | undefined {
+function toUsage(usage: GeminiUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.promptTokenCount,
+    outputTokens: usage.candidatesTokenCount,
+    totalTokens: usage.totalTokenCount,
+  };
+}
+
+function extractText(candidate: GeminiCandidate | undefined): string | undefined {
   const parts = candidate?.content?.parts;
   if (!Array.isArray(parts)) return undefined;
   return parts
@@ -48,67 +112,106 @@ function extractText(candidate: any): string | undefined {
     .trim();
 }
 
-function modelFallbacks(model: string): string[] {
-  const fallbacks: string[] = [model];
-  if (/^gemini-1\.5-flash$/.test(model)) fallbacks.push("gemini-1.5-flash-001");
-  if (/^gemini-1\.5-flash-8b$/.test(model)) fallbacks.push("gemini-1.5-flash-8b-001");
-  if (/^gemini-1\.5-pro$/.test(model)) fallbacks.push("gemini-1.5-pro-001");
-  if (/^gemini-pro$/.test(model)) fallbacks.push("gemini-1.5-pro", "gemini-1.5-pro-001");
-  return Array.from(new Set(fallbacks));
+/** Gemini's generationConfig accepts the full set, with at most five stop sequences. */
+function sampling(params: GenerationParams | undefined, temperature: number) {
+  return definedFields({
+    temperature: params?.temperature ?? temperature,
+    topP: params?.topP,
+    presencePenalty: params?.presencePenalty,
+    frequencyPenalty: params?.frequencyPenalty,
+    stopSequences: stopSequences(params, 5),
+    seed: params?.seed,
+  });
+}
+
+function buildStoryBody(request: StoryBuildRequest, userPrompt = composeStoryUserPrompt(request.metadata, request.prompt, request.continuity)) {
+  return {
+    contents: [
+      {
+        role: "user",
+        parts: [
+          {
+            text:
+              composeStorySystemPrompt(request.metadata, request.continuity) +
+              "\n\n" +
+              userPrompt,
+          },
+        ],
+      },
+    ],
+    generationConfig: {
+      ...sampling(request.params, 0.75),
+      maxOutputTokens: request.maxTokens ?? 1400,
+    },
+  } as const;
+}
+
+async function streamGemini(
+  request: StoryBuildRequest,
+  body: ReturnType<typeof buildStoryBody>,
+  handlers: StreamHandlers
+): Promise<AIResponse> {
+  const model = request.model ?? request.provider.defaultModel;
+  const response = await sendGemini(geminiStreamEndpoint(model, request.apiKey), body, request);
+  let text = "";
+  let usage: GeminiUsage | undefined;
+  let stopReason: string | undefined;
+  await readEventStream(response, "Gemini", (event) => {
+    const data = parseEventData<GeminiResponse>(event, "Gemini");
+    if (data.error) {
+      throw new AIClientError(`Gemini stream failed: ${data.error.message ?? "unknown error"}`, undefined, data);
+    }
+    usage = data.usageMetadata ?? usage;
+    stopReason = data.candidates?.[0]?.finishReason ?? stopReason;
+    const parts = data.candidates?.[0]?.content?.parts;
+    const delta = Array.isArray(parts) ? parts.map((part) => part?.text ?? "").join("") : "";
+    if (delta) {
+      text += delta;
+      handlers.onChunk({ delta, text, usage: toUsage(usage) });
+    }
+  });
+  const content = text.trim();
+  if (!content) {
+    throw new AIClientError("Gemini returned an empty response", undefined, usage);
+  }
+  return {
+    content,
+    tokensUsed: usage?.totalTokenCount,
+    usage: toUsage(usage),
+    stopReason,
+    truncated: isTruncationReason(stopReason),
+  };
 }
 
 export const geminiClient: AIClient = {
   async generateStory(request: StoryBuildRequest) {
+    const body = buildStoryBody(request);
     const model = request.model ?? request.provider.defaultModel;
-    const body = {
-      contents: [
-        {
-          role: "user",
-          parts: [
-            {
-              text:
-                composeStorySystemPrompt(request.metadata) +
-                "\n\n" +
-                composeStoryUserPrompt(request.metadata, request.prompt),
-            },
-          ],
-        },
-      ],
-      generationConfig: {
-        temperature: request.temperature ?? 0.75,
-        maxOutputTokens: request.maxTokens ?? 1400,
-      },
-    } as const;
-
-    const candidates = modelFallbacks(model);
-    let lastErr: unknown;
-    for (const m of candidates) {
-      try {
-        const url = geminiEndpoint(m, request.apiKey);
-        const data = await postGemini(url, body);
-        const candidate = data.candidates?.[0];
-        const text = extractText(candidate);
-        if (!text) {
-          throw new AIClientError("Gemini returned an empty response", undefined, data);
-        }
-        return { content: text, raw: data };
-      } catch (err) {
-        const e = err as AIClientError;
-        const msg = String((e && (e.message || (e as any).payload)) || "").toLowerCase();
-        const is404 = (e && e.status === 404) || msg.includes("not found");
-        if (!is404 || m === candidates[candidates.length - 1]) {
-          lastErr = err;
-          break;
-        }
-        lastErr = err;
-        // try next fallback
-      }
+    const data = await postGemini(geminiEndpoint(model, request.apiKey), body, request);
+    const text = extractText(data.candidates?.[0]);
+    if (!text) {
+      throw new AIClientError("Gemini returned an empty response", undefined, data);
     }
-    throw lastErr as Error;
+    return { content: text, tokensUsed: data.usageMetadata?.totalTokenCount, usage: toUsage(data.usageMetadata), raw: data };
+  },
+
+  async streamStory(request: StoryBuildRequest, handlers) {
+    return streamGemini(request, buildStoryBody(request), handlers);
+  },
+
+  async continueStory(request: ContinuationBuildRequest, handlers) {
+    const userPrompt = composeContinuationPrompt(
+      request.metadata,
+      request.draft,
+      request.words,
+      request.prompt,
+      request.trimmed,
+      request.continuity
+    );
+    return streamGemini(request, buildStoryBody(request, userPrompt), handlers);
   },
 
   async requestFeedback(request: FeedbackBuildRequest) {
-    const model = request.model ?? request.provider.defaultModel;
     const body = {
       contents: [
         {
@@ -118,40 +221,37 @@ export const geminiClient: AIClient = {
               text:
                 "You are an expert fiction editor offering constructive feedback." +
                 "\n\n" +
-                composeFeedbackPrompt(request.metadata, request.draft, request.instruction),
+                composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity),
             },
           ],
         },
       ],
       generationConfig: {
-        temperature: 0.35,
-        maxOutputTokens: 900,
+        ...sampling(request.params, 0.35),
+        maxOutputTokens: feedbackTokenLimit(request),
+        ...(request.format === "json" ? { responseMimeType: "application/json" } : {}),
       },
     } as const;
 
-    const candidates = modelFallbacks(model);
-    let lastErr: unknown;
-    for (const m of candidates) {
-      try {
-        const url = geminiEndpoint(m, request.apiKey);
-        const data = await postGemini(url, body);
-        const candidate = data.candidates?.[0];
-        const text = extractText(candidate);
-        if (!text) {
-          throw new AIClientError("Gemini returned an empty feedback response", undefined, data);
-        }
-        return { content: text, raw: data };
-      } catch (err) {
-        const e = err as AIClientError;
-        const msg = String((e && (e.message || (e as any).payload)) || "").toLowerCase();
-        const is404 = (e && e.status === 404) || msg.includes("not found");
-        if (!is404 || m === candidates[candidates.length - 1]) {
-          lastErr = err;
-          break;
-        }
-        lastErr = err;
-      }
+    const model = request.model ?? request.provider.defaultModel;
+    const data = await postGemini(geminiEndpoint(model, request.apiKey), body, request);
+    const text = extractText(data.candidates?.[0]);
+    if (!text) {
+      throw new AIClientError("Gemini returned an empty feedback response", undefined, data);
     }
-    throw lastErr as Error;
+    return { content: text, tokensUsed: data.usageMetadata?.totalTokenCount, usage: toUsage(data.usageMetadata), raw: data };
+  },
+
+  async listModels(request) {
+    type GeminiModel = { name: string; displayName?: string; description?: string; supportedGenerationMethods?: string[] };
+    const data = await fetchJson<{ models?: GeminiModel[] }>(geminiModelsEndpoint(request.apiKey), {}, "Gemini", request);
+    return (data.models ?? [])
+      .filter((model) => model.supportedGenerationMethods?.includes("generateContent"))
+      .map((model) => ({
+        id: model.name.replace(/^models\//, ""),
+        label: model.displayName,
+        // Google only signals retirement in the free-text description.
+        deprecated: /deprecat|discontinu/i.test(model.description ?? ""),
+      }));
   },
 };
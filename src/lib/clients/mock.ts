@@ -0,0 +1,477 @@
+import {
+  AIClient,
+  AIClientError,
+  AIRequestTimeoutError,
+  AIResponse,
+  ContinuationBuildRequest,
+  FeedbackBuildRequest,
+  StoryBuildRequest,
+  StreamHandlers,
+  TokenUsage,
+  sleep,
+  withRetry,
+} from "./base";
+import {
+  composeContinuationPrompt,
+  composeFeedbackPrompt,
+  composeStorySystemPrompt,
+  composeStoryUserPrompt,
+} from "../prompts/storyTemplates";
+import type { StoryMetadata } from "../../context/WorkspaceContext";
+
+export type MockFailureMode = "none" | "404" | "429" | "500" | "timeout";
+
+export interface MockConfig {
+  /** Delay before the mock "server" answers each attempt. */
+  latencyMs: number;
+  /** Delay between streamed chunks. */
+  chunkDelayMs: number;
+  failure: MockFailureMode;
+  /** How many attempts per request fail before one succeeds; `null` fails every attempt. */
+  failAttempts: number | null;
+}
+
+export const DEFAULT_MOCK_CONFIG: MockConfig = {
+  latencyMs: 600,
+  chunkDelayMs: 35,
+  failure: "none",
+  failAttempts: null,
+};
+
+const STORAGE_MOCK_KEY = "sf:mock-config";
+const LABEL = "Offline mock";
+
+let currentConfig: MockConfig | null = null;
+
+export function getMockConfig(): MockConfig {
+  if (!currentConfig) {
+    try {
+      const stored = localStorage.getItem(STORAGE_MOCK_KEY);
+      currentConfig = stored ? { ...DEFAULT_MOCK_CONFIG, ...(JSON.parse(stored) as Partial<MockConfig>) } : DEFAULT_MOCK_CONFIG;
+    } catch (error) {
+      console.error(`Failed to parse ${STORAGE_MOCK_KEY}`, error);
+      currentConfig = DEFAULT_MOCK_CONFIG;
+    }
+  }
+  return currentConfig;
+}
+
+export function setMockConfig(config: MockConfig) {
+  currentConfig = config;
+  localStorage.setItem(STORAGE_MOCK_KEY, JSON.stringify(config));
+}
+
+/** FNV-1a, so identical metadata + prompt + model always yield the same seed. */
+function hashSeed(input: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const STOP_WORDS = new Set([
+  "about",
+  "after",
+  "again",
+  "their",
+  "there",
+  "these",
+  "those",
+  "where",
+  "which",
+  "while",
+  "would",
+  "should",
+  "could",
+  "story",
+  "write",
+  "scene",
+  "with",
+  "from",
+  "into",
+  "that",
+  "this",
+  "have",
+  "make",
+  "what",
+  "when",
+]);
+
+const NAMES = ["Mara", "Ilya", "Wren", "Odile", "Tomas", "Kasimir", "Juno", "Saoirse"];
+const NOUNS = ["lantern", "letter", "doorway", "river", "signal", "garden", "machine", "promise", "map", "bell"];
+const PLACES = ["the station", "the old quarter", "the harbour", "the attic", "the greenhouse", "the border road"];
+const SENSES = [
+  "The air tasted of rain and rust.",
+  "Somewhere below, a radio hissed between stations.",
+  "Light pooled in the corners like something spilled.",
+  "The floorboards remembered every footstep.",
+  "A cold draught carried the smell of cut grass.",
+  "Far off, a bell counted out an hour nobody needed.",
+];
+
+const TEMPLATES = [
+  "{S} {be} still thinking about the {K} when the {N} began to change.",
+  "Nobody in {place} spoke of the {K} anymore, but {S} {be} certain it had not finished with {O}.",
+  "It was the kind of {A} evening that belonged in a {G} story, and {S} knew it.",
+  "{P} hands shook only a little as {S} reached for the {N}.",
+  "If the {K} was a warning, then the {N} was an answer nobody had asked for.",
+  "{S} counted three heartbeats, then stepped into {place}.",
+  "There had been rules once, simple ones, about the {K} and the {N}.",
+  "{S} {be} not brave, exactly; {S} simply could not bear to leave the {K} behind.",
+  "Every {A} detail mattered now: the {N}, the silence, the way the {K} refused to stay hidden.",
+  "\"You came back for the {K},\" someone said, and {S} did not deny it.",
+  "By the time the {N} went dark, {S} understood what \"{T}\" had always meant.",
+  "The {K} was smaller than {S} remembered, and far heavier.",
+];
+
+interface Voice {
+  subject: string;
+  object: string;
+  possessive: string;
+  be: string;
+}
+
+function voiceFor(perspective: string, random: () => number): Voice {
+  const normalized = perspective.toLowerCase();
+  if (normalized.includes("first")) return { subject: "I", object: "me", possessive: "My", be: "was" };
+  if (normalized.includes("second")) return { subject: "you", object: "you", possessive: "Your", be: "were" };
+  const name = NAMES[Math.floor(random() * NAMES.length)];
+  return { subject: name, object: name, possessive: `${name}'s`, be: "was" };
+}
+
+function keywordsFrom(prompt: string, metadata: StoryMetadata) {
+  const words = `${prompt} ${metadata.title}`
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .filter((word) => word.length > 3 && !STOP_WORDS.has(word));
+  const unique = Array.from(new Set(words));
+  return unique.length ? unique : ["secret"];
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function capitalize(sentence: string) {
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
+
+const LENGTH_WORDS: Record<StoryMetadata["targetLength"], number> = {
+  short: 420,
+  medium: 900,
+  long: 1600,
+};
+
+function composeProse(metadata: StoryMetadata, prompt: string, model: string, maxTokens?: number, lengthWords?: number) {
+  const seed = hashSeed([model, metadata.title, metadata.genre, metadata.tone, metadata.perspective, prompt].join("|"));
+  const random = createRandom(seed);
+  const voice = voiceFor(metadata.perspective, random);
+  const keywords = keywordsFrom(prompt, metadata);
+  const adjectives = metadata.tone
+    .split(/[,;/]|\band\b/)
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean);
+  const genre = metadata.genre.trim().toLowerCase() || "quiet";
+  const targetWords = lengthWords ?? LENGTH_WORDS[metadata.targetLength] ?? 600;
+  const wordBudget = Math.round((maxTokens ?? 1400) * 0.75);
+
+  const paragraphs: string[] = [];
+  let words = 0;
+  let lastTemplate = "";
+  while (words < targetWords) {
+    const sentences: string[] = [];
+    const count = 3 + Math.floor(random() * 3);
+    for (let index = 0; index < count; index += 1) {
+      if (random() < 0.2) {
+        sentences.push(pick(SENSES, random));
+        continue;
+      }
+      let template = pick(TEMPLATES, random);
+      if (template === lastTemplate) {
+        template = TEMPLATES[(TEMPLATES.indexOf(template) + 1) % TEMPLATES.length];
+      }
+      lastTemplate = template;
+      const sentence = template
+        .replace(/\{S\}/g, voice.subject)
+        .replace(/\{O\}/g, voice.object)
+        .replace(/\{P\}/g, voice.possessive)
+        .replace(/\{be\}/g, voice.be)
+        .replace(/\{K\}/g, () => pick(keywords, random))
+        .replace(/\{N\}/g, () => pick(NOUNS, random))
+        .replace(/\{A\}/g, () => (adjectives.length ? pick(adjectives, random) : "strange"))
+        .replace(/\{G\}/g, genre)
+        .replace(/\{T\}/g, metadata.title || "the story")
+        .replace(/\{place\}/g, () => pick(PLACES, random));
+      sentences.push(capitalize(sentence));
+    }
+    const paragraph = sentences.join(" ");
+    paragraphs.push(paragraph);
+    words += paragraph.split(/\s+/).length;
+  }
+  const content = paragraphs.join("\n\n");
+  if (targetWords <= wordBudget) {
+    return { content, seed, truncated: false };
+  }
+
+  // Like a real provider at its token limit: stop mid-sentence.
+  const pieces = content.match(/\S+\s*/g) ?? [];
+  return { content: pieces.slice(0, wordBudget).join("").trimEnd(), seed, truncated: true };
+}
+
+function analyseDraft(draft: string) {
+  const sentences = draft
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+  const words = draft.split(/\s+/).filter(Boolean);
+  const longest = sentences.reduce((best, sentence) => (sentence.length > best.length ? sentence : best), "");
+  const dialogueLines = draft.split("\n").filter((line) => /["“”]/.test(line)).length;
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    const normalized = word.toLowerCase().replace(/[^a-z']/g, "");
+    if (normalized.length < 5 || STOP_WORDS.has(normalized)) continue;
+    counts.set(normalized, (counts.get(normalized) ?? 0) + 1);
+  }
+  const repeated = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return {
+    wordCount: words.length,
+    sentenceCount: sentences.length,
+    averageLength: sentences.length ? Math.round(words.length / sentences.length) : 0,
+    longest,
+    dialogueLines,
+    repeated,
+  };
+}
+
+/** Splits a long sentence at the conjunction or comma nearest its middle; empty when there is nowhere to split. */
+function splitSentence(sentence: string) {
+  const middle = sentence.length / 2;
+  const breaks = Array.from(sentence.matchAll(/,\s+(?:and|but|so|while)\s+|;\s+|,\s+/g));
+  if (!breaks.length) return "";
+  const best = breaks.reduce((closest, match) =>
+    Math.abs((match.index ?? 0) - middle) < Math.abs((closest.index ?? 0) - middle) ? match : closest
+  );
+  const index = best.index ?? 0;
+  const rest = sentence.slice(index + best[0].length);
+  return `${sentence.slice(0, index)}. ${capitalize(rest)}`;
+}
+
+function composeStructuredFeedback(request: FeedbackBuildRequest) {
+  const stats = analyseDraft(request.draft);
+  const sentences = request.draft.split(/(?<=[.!?])\s+/).map((sentence) => sentence.trim()).filter(Boolean);
+  const issues = [];
+  if (stats.longest) {
+    issues.push({
+      severity: stats.longest.split(/\s+/).length > 35 ? "major" : "moderate",
+      category: "pacing",
+      comment: `At ${stats.longest.split(/\s+/).length} words this is the longest sentence; splitting it lets the beat land.`,
+      quote: stats.longest,
+      replacement: splitSentence(stats.longest),
+    });
+  }
+  if (stats.repeated && stats.repeated[1] > 2) {
+    const word = stats.repeated[0];
+    const echo = sentences.filter((sentence) => sentence.toLowerCase().includes(word))[1];
+    if (echo) {
+      issues.push({
+        severity: "minor",
+        category: "word choice",
+        comment: `"${word}" appears ${stats.repeated[1]} times; this is one of the repeats worth varying.`,
+        quote: echo,
+        replacement: "",
+      });
+    }
+  }
+  if (stats.dialogueLines === 0 && sentences.length) {
+    issues.push({
+      severity: "minor",
+      category: "dialogue",
+      comment: "There is no dialogue yet; a short exchange around here would break up the narration.",
+      quote: sentences[sentences.length - 1],
+      replacement: "",
+    });
+  }
+  const focus = request.focus === "custom" ? request.instruction : `${request.focus} pass`;
+  return JSON.stringify(
+    {
+      summary: `Offline review of "${request.metadata.title || "Untitled"}" (${stats.wordCount} words) focused on ${focus}. Sentences average ${stats.averageLength} words; the notes are generated locally from the draft's statistics.`,
+      issues,
+    },
+    null,
+    2
+  );
+}
+
+function composeFeedback(request: FeedbackBuildRequest) {
+  if (request.format === "json") return composeStructuredFeedback(request);
+  const stats = analyseDraft(request.draft);
+  const bullets = [
+    `- Sentences average ${stats.averageLength} words across ${stats.sentenceCount} sentences; vary the rhythm around key beats.`,
+    stats.longest
+      ? `- Consider splitting the longest sentence: "${stats.longest.slice(0, 140)}${stats.longest.length > 140 ? "…" : ""}"`
+      : "- Add a few sentences so there is something to tighten.",
+    stats.repeated && stats.repeated[1] > 2
+      ? `- "${stats.repeated[0]}" appears ${stats.repeated[1]} times; swap in a synonym or cut a repetition.`
+      : "- Word choice is varied; keep leaning on concrete nouns.",
+    stats.dialogueLines === 0
+      ? "- There is no dialogue yet; a short exchange would break up the narration."
+      : `- ${stats.dialogueLines} line(s) of dialogue; make sure each speaker sounds distinct.`,
+  ];
+  const focus = request.focus === "custom" ? request.instruction : `${request.focus} pass`;
+  return [
+    `Summary: Offline review of "${request.metadata.title || "Untitled"}" (${stats.wordCount} words) focused on ${focus}. The ${request.metadata.tone.toLowerCase() || "current"} tone comes through; the notes below are generated locally from the draft's statistics.`,
+    ...bullets,
+  ].join("\n");
+}
+
+function estimateUsage(prompt: string, content: string): TokenUsage {
+  const inputTokens = Math.ceil(prompt.length / 4);
+  const outputTokens = Math.ceil(content.length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+function errorResponse(status: number, message: string, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify({ error: { message, type: "mock_error", code: String(status) } }), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Plays the part of a remote API: waits the configured latency, then either
+ * answers or injects the configured failure. Runs through `withRetry`, so
+ * 429/500/timeout exercise the same retry path as the real clients. A 404
+ * only rejects models other than the provider default, so the fallback chain
+ * can step down and recover.
+ */
+async function simulateRequest(request: StoryBuildRequest | FeedbackBuildRequest, config: MockConfig) {
+  const model = request.model ?? request.provider.defaultModel;
+  let attempt = 0;
+  const response = await withRetry(
+    async () => {
+      attempt += 1;
+      await sleep(config.latencyMs, request.signal);
+      const failing = config.failure !== "none" && (config.failAttempts === null || attempt <= config.failAttempts);
+      if (!failing) {
+        return new Response(null, { status: 204 });
+      }
+      switch (config.failure) {
+        case "404":
+          return model === request.provider.defaultModel
+            ? new Response(null, { status: 204 })
+            : errorResponse(404, `The model \`${model}\` does not exist or you do not have access to it.`);
+        case "429":
+          return errorResponse(429, "Rate limit reached for requests (simulated).", { "Retry-After": "1" });
+        case "500":
+          return errorResponse(500, "The server had an error while processing your request (simulated).");
+        default:
+          throw new AIRequestTimeoutError(LABEL, config.latencyMs);
+      }
+    },
+    LABEL,
+    request.retry,
+    request.signal
+  );
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => undefined);
+    const detail = (payload as { error?: { message?: string } } | undefined)?.error?.message ?? "";
+    throw new AIClientError(`${LABEL} error (${response.status}): ${detail}`, response.status, payload);
+  }
+  return model;
+}
+
+function storyResponse(request: StoryBuildRequest, model: string): AIResponse {
+  const { content, seed, truncated } = composeProse(request.metadata, request.prompt, model, request.maxTokens);
+  const prompt = composeStorySystemPrompt(request.metadata, request.continuity) + composeStoryUserPrompt(request.metadata, request.prompt, request.continuity);
+  const usage = estimateUsage(prompt, content);
+  return {
+    content,
+    tokensUsed: usage.totalTokens,
+    usage,
+    raw: { mock: true, model, seed },
+    stopReason: truncated ? "length" : "stop",
+    truncated,
+  };
+}
+
+function continuationResponse(request: ContinuationBuildRequest, model: string): AIResponse {
+  // Seeding on the draft's last lines makes each continuation differ as the draft grows.
+  const seedText = `${request.prompt}\n${request.draft.slice(-240)}`;
+  const { content, seed, truncated } = composeProse(request.metadata, seedText, model, request.maxTokens, request.words);
+  const prompt =
+    composeStorySystemPrompt(request.metadata, request.continuity) +
+    composeContinuationPrompt(request.metadata, request.draft, request.words, request.prompt, request.trimmed, request.continuity);
+  const usage = estimateUsage(prompt, content);
+  return {
+    content,
+    tokensUsed: usage.totalTokens,
+    usage,
+    raw: { mock: true, model, seed, trimmed: request.trimmed },
+    stopReason: truncated ? "length" : "stop",
+    truncated,
+  };
+}
+
+async function streamResponse(response: AIResponse, handlers: StreamHandlers, config: MockConfig, signal?: AbortSignal) {
+  const pieces = response.content.match(/\S+\s*/g) ?? [];
+  let text = "";
+  for (let index = 0; index < pieces.length; index += 3) {
+    const delta = pieces.slice(index, index + 3).join("");
+    text += delta;
+    handlers.onChunk({ delta, text });
+    await sleep(config.chunkDelayMs, signal);
+  }
+  return response;
+}
+
+export const mockClient: AIClient = {
+  async generateStory(request: StoryBuildRequest) {
+    const model = await simulateRequest(request, getMockConfig());
+    return storyResponse(request, model);
+  },
+
+  async streamStory(request: StoryBuildRequest, handlers) {
+    const config = getMockConfig();
+    const model = await simulateRequest(request, config);
+    return streamResponse(storyResponse(request, model), handlers, config, request.signal);
+  },
+
+  async continueStory(request: ContinuationBuildRequest, handlers) {
+    const config = getMockConfig();
+    const model = await simulateRequest(request, config);
+    return streamResponse(continuationResponse(request, model), handlers, config, request.signal);
+  },
+
+  async requestFeedback(request: FeedbackBuildRequest) {
+    const model = await simulateRequest(request, getMockConfig());
+    const content = composeFeedback(request);
+    const usage = estimateUsage(
+      composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity),
+      content
+    );
+    return { content, tokensUsed: usage.totalTokens, usage, raw: { mock: true, model } };
+  },
+
+  async listModels(request) {
+    await sleep(getMockConfig().latencyMs, request.signal);
+    return [
+      { id: "mock-storyteller", label: "Mock storyteller" },
+      { id: "mock-storyteller-draft", label: "Mock storyteller (draft)" },
+      { id: "mock-storyteller-legacy", label: "Mock storyteller (legacy)", deprecated: true },
+    ];
+  },
+};
@@ -1,5 +1,28 @@
-import { AIClient, AIClientError, FeedbackBuildRequest, StoryBuildRequest, fetchWithHandling } from "./base";
-import { composeFeedbackPrompt, composeStorySystemPrompt, composeStoryUserPrompt } from "../prompts/storyTemplates";
+import {
+  AIClient,
+  AIClientError,
+  AIResponse,
+  ContinuationBuildRequest,
+  FeedbackBuildRequest,
+  GenerationParams,
+  ModelCatalogueEntry,
+  RequestControls,
+  StoryBuildRequest,
+  definedFields,
+  feedbackTokenLimit,
+  fetchJson,
+  fetchWithRetry,
+  isTruncationReason,
+  parseEventData,
+  readEventStream,
+} from "./base";
+import {
+  composeContinuationPrompt,
+  composeFeedbackPrompt,
+  composeStorySystemPrompt,
+  composeStoryUserPrompt,
+} from "../prompts/storyTemplates";
+import { FEEDBACK_JSON_SCHEMA } from "../feedback";
 
 const envUrl = import.meta.env.VITE_OPENAI_BASE_URL?.trim();
 const OPENAI_URL =
@@ -15,8 +38,12 @@ const OPENAI_MODELS_URL =
     ? "/__dreamscribe/openai-models"
     : "https://api.openai.com/v1/models";
 
-async function postResponses(apiKey: string, body: unknown) {
-  const response = await fetchWithHandling(
+// The list endpoint also returns embeddings, audio and image models.
+const TEXT_MODEL_PATTERN = /^(gpt-|o\d|chatgpt-)/;
+const NON_TEXT_PATTERN = /(embedding|tts|whisper|dall-e|audio|realtime|transcribe|image|search|moderation)/;
+
+async function sendResponses(apiKey: string, body: unknown, controls: RequestControls = {}) {
+  const response = await fetchWithRetry(
     OPENAI_URL,
     {
       method: "POST",
@@ -25,8 +52,10 @@ async function postResponses(apiKey: string, body: unknown) {
         Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: controls.signal,
     },
-    "OpenAI"
+    "OpenAI",
+    controls.retry
   );
 
   if (!response.ok) {
@@ -37,19 +66,12 @@ async function postResponses(apiKey: string, body: unknown) {
     throw new AIClientError(message, response.status, payload);
   }
 
-  return response.json();
+  return response;
 }
 
-function buildCandidateOrder(preferred: string | undefined, providerDefault: string) {
-  const candidates = [
-    preferred ?? providerDefault,
-    providerDefault,
-    "gpt-4o-mini",
-    "gpt-4o",
-    "gpt-4o-mini-2024-07-18",
-    "gpt-4o-2024-08-06",
-  ];
-  return Array.from(new Set(candidates.filter(Boolean)));
+async function postResponses(apiKey: string, body: unknown, controls: RequestControls = {}) {
+  const response = await sendResponses(apiKey, body, controls);
+  return response.json();
 }
 
 type OpenAIResponse = {
@@ -58,9 +80,24 @@ type OpenAIResponse = {
   response?: Array<{
     content?: Array<{ type?: string; text?: string }>;
   }>;
-  usage?: { total_tokens?: number; output_tokens?: number };
+  usage?: { total_tokens?: number; input_tokens?: number; output_tokens?: number };
+  status?: string;
+  incomplete_details?: { reason?: string } | null;
+};
+
+type OpenAIStreamEvent = {
+  type?: string;
+  delta?: string;
+  response?: OpenAIResponse;
+  error?: { message?: string };
+  message?: string;
 };
 
+function toUsage(usage: OpenAIResponse["usage"]) {
+  if (!usage) return undefined;
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens, totalTokens: usage.total_tokens };
+}
+
 function extractText(data: OpenAIResponse) {
   if (Array.isArray(data.output_text) && data.output_text.length) {
     return data.output_text.join("\n").trim();
@@ -85,152 +122,174 @@ function extractText(data: OpenAIResponse) {
   return "";
 }
 
-async function generateWithFallback<T>(
-  apiKey: string,
-  models: string[],
-  buildBody: (model: string) => unknown,
-  parse: (data: OpenAIResponse) => T
-): Promise<T> {
-  let lastError: unknown;
-  const available = await filterAvailableModels(apiKey, models);
-  if (available.length === 0) {
-    throw new AIClientError(
-      "OpenAI models unavailable. This API key does not have access to gpt-4o or gpt-4o-mini.",
-      404
-    );
-  }
-  for (const model of available) {
-    try {
-      const data = await postResponses(apiKey, buildBody(model));
-      return parse(data);
-    } catch (error) {
-      const aiError = error as unknown;
-      if (aiError instanceof AIClientError && aiError.status === 404) {
-        lastError = aiError;
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw lastError instanceof Error
-    ? lastError
-    : new AIClientError("OpenAI returned 404 for all fallback models");
+/** The Responses API takes temperature and top_p only; penalties, stop sequences and seed are chat-completions settings. */
+function sampling(params: GenerationParams | undefined, temperature: number) {
+  return definedFields({ temperature: params?.temperature ?? temperature, top_p: params?.topP });
 }
 
-const availabilityCache = new Map<string, { timestamp: number; models: Set<string> }>();
-const CACHE_TTL = 60 * 60 * 1000; // 1 hour
+function buildStoryBody(
+  request: StoryBuildRequest,
+  model: string,
+  userPrompt = composeStoryUserPrompt(request.metadata, request.prompt, request.continuity)
+) {
+  return {
+    model,
+    max_output_tokens: request.maxTokens ?? 1400,
+    ...sampling(request.params, 0.7),
+    input: [
+      {
+        role: "system",
+        content: [{ type: "text", text: composeStorySystemPrompt(request.metadata, request.continuity) }],
+      },
+      {
+        role: "user",
+        content: [{ type: "text", text: userPrompt }],
+      },
+    ],
+  };
+}
 
-async function filterAvailableModels(apiKey: string, candidates: string[]): Promise<string[]> {
-  const cache = availabilityCache.get(apiKey);
-  const now = Date.now();
-  if (cache && now - cache.timestamp < CACHE_TTL) {
-    return candidates.filter((model) => cache.models.has(model));
-  }
+function buildFeedbackBody(request: FeedbackBuildRequest, model: string) {
+  return {
+    model,
+    max_output_tokens: feedbackTokenLimit(request),
+    ...sampling(request.params, 0.4),
+    input: [
+      {
+        role: "system",
+        content: [{ type: "text", text: "You are a world-class fiction editor offering constructive critiques." }],
+      },
+      {
+        role: "user",
+        content: [{ type: "text", text: composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity) }],
+      },
+    ],
+    ...(request.format === "json"
+      ? { text: { format: { type: "json_schema", name: "story_feedback", schema: FEEDBACK_JSON_SCHEMA, strict: true } } }
+      : {}),
+  };
+}
 
-  const available = new Set<string>();
-  await Promise.all(
-    candidates.map(async (model) => {
-      if (!model) return;
-      try {
-        const response = await fetchWithHandling(
-          `${OPENAI_MODELS_URL}/${encodeURIComponent(model)}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-            },
-          },
-          "OpenAI"
-        );
-        if (response.ok) {
-          available.add(model);
+async function streamResponses(
+  apiKey: string,
+  body: Record<string, unknown>,
+  onDelta: (delta: string, text: string) => void,
+  controls: RequestControls
+): Promise<AIResponse> {
+  const response = await sendResponses(apiKey, { ...body, stream: true }, controls);
+  let text = "";
+  let final: OpenAIResponse | undefined;
+  await readEventStream(response, "OpenAI", (event) => {
+    const data = parseEventData<OpenAIStreamEvent>(event, "OpenAI");
+    switch (data.type) {
+      case "response.output_text.delta":
+        if (data.delta) {
+          text += data.delta;
+          onDelta(data.delta, text);
         }
-      } catch (error) {
-        // swallow to continue checking other models
-      }
-    })
-  );
-
-  if (available.size === 0) {
-    availabilityCache.set(apiKey, { timestamp: now, models: new Set() });
-    return [];
+        break;
+      case "response.completed":
+      case "response.incomplete":
+        final = data.response;
+        break;
+      case "response.failed":
+      case "error":
+        throw new AIClientError(
+          `OpenAI stream failed: ${data.error?.message ?? data.message ?? "unknown error"}`,
+          undefined,
+          data
+        );
+    }
+  });
+  const content = text.trim();
+  if (!content) {
+    throw new AIClientError("OpenAI returned an empty response", undefined, final);
   }
-
-  availabilityCache.set(apiKey, { timestamp: now, models: available });
-  return candidates.filter((model) => available.has(model));
+  const stopReason = final?.incomplete_details?.reason ?? final?.status;
+  return {
+    content,
+    tokensUsed: final?.usage?.total_tokens ?? final?.usage?.output_tokens,
+    usage: toUsage(final?.usage),
+    raw: final,
+    stopReason,
+    truncated: isTruncationReason(stopReason),
+  };
 }
 
 export const openAIClient: AIClient = {
   async generateStory(request: StoryBuildRequest) {
-    const system = composeStorySystemPrompt(request.metadata);
-    const user = composeStoryUserPrompt(request.metadata, request.prompt);
-    const candidates = buildCandidateOrder(request.model, request.provider.defaultModel);
+    const model = request.model ?? request.provider.defaultModel;
+    const data: OpenAIResponse = await postResponses(request.apiKey, buildStoryBody(request, model), request);
+    const content = extractText(data);
+    if (!content) {
+      throw new AIClientError("OpenAI returned an empty response", undefined, data);
+    }
+    const stopReason = data.incomplete_details?.reason ?? data.status;
+    return {
+      content,
+      tokensUsed: data.usage?.total_tokens ?? data.usage?.output_tokens,
+      usage: toUsage(data.usage),
+      raw: data,
+      stopReason,
+      truncated: isTruncationReason(stopReason),
+    };
+  },
 
-    return await generateWithFallback(
+  async streamStory(request: StoryBuildRequest, handlers) {
+    const model = request.model ?? request.provider.defaultModel;
+    return streamResponses(
       request.apiKey,
-      candidates,
-      (model) => ({
-        model,
-        max_output_tokens: request.maxTokens ?? 1400,
-        temperature: request.temperature ?? 0.7,
-        input: [
-          {
-            role: "system",
-            content: [{ type: "text", text: system }],
-          },
-          {
-            role: "user",
-            content: [{ type: "text", text: user }],
-          },
-        ],
-      }),
-      (data) => {
-        const content = extractText(data);
-        if (!content) {
-          throw new AIClientError("OpenAI returned an empty response", undefined, data);
-        }
-        return {
-          content,
-          tokensUsed: data.usage?.total_tokens ?? data.usage?.output_tokens,
-          raw: data,
-        };
-      }
+      buildStoryBody(request, model),
+      (delta, text) => handlers.onChunk({ delta, text }),
+      request
+    );
+  },
+
+  async continueStory(request: ContinuationBuildRequest, handlers) {
+    const model = request.model ?? request.provider.defaultModel;
+    const userPrompt = composeContinuationPrompt(
+      request.metadata,
+      request.draft,
+      request.words,
+      request.prompt,
+      request.trimmed,
+      request.continuity
+    );
+    return streamResponses(
+      request.apiKey,
+      buildStoryBody(request, model, userPrompt),
+      (delta, text) => handlers.onChunk({ delta, text }),
+      request
     );
   },
 
   async requestFeedback(request: FeedbackBuildRequest) {
-    const prompt = composeFeedbackPrompt(request.metadata, request.draft, request.instruction);
-    const candidates = buildCandidateOrder(request.model, request.provider.defaultModel);
+    const model = request.model ?? request.provider.defaultModel;
+    const data: OpenAIResponse = await postResponses(request.apiKey, buildFeedbackBody(request, model), request);
+    const content = extractText(data);
+    if (!content) {
+      throw new AIClientError("OpenAI returned an empty feedback response", undefined, data);
+    }
+    return {
+      content,
+      tokensUsed: data.usage?.total_tokens ?? data.usage?.output_tokens,
+      usage: toUsage(data.usage),
+      raw: data,
+    };
+  },
 
-    return await generateWithFallback(
-      request.apiKey,
-      candidates,
-      (model) => ({
-        model,
-        max_output_tokens: 900,
-        temperature: 0.4,
-        input: [
-          {
-            role: "system",
-            content: [{ type: "text", text: "You are a world-class fiction editor offering constructive critiques." }],
-          },
-          {
-            role: "user",
-            content: [{ type: "text", text: prompt }],
-          },
-        ],
-      }),
-      (data) => {
-        const content = extractText(data);
-        if (!content) {
-          throw new AIClientError("OpenAI returned an empty feedback response", undefined, data);
-        }
-        return {
-          content,
-          tokensUsed: data.usage?.total_tokens ?? data.usage?.output_tokens,
-          raw: data,
-        };
-      }
+  async listModels(request) {
+    const data = await fetchJson<{ data?: Array<{ id: string; created?: number }> }>(
+      OPENAI_MODELS_URL,
+      { Authorization: `Bearer ${request.apiKey}` },
+      "OpenAI",
+      request
     );
+    return (data.data ?? [])
+      .filter((model) => TEXT_MODEL_PATTERN.test(model.id) && !NON_TEXT_PATTERN.test(model.id))
+      .map<ModelCatalogueEntry>((model) => ({
+        id: model.id,
+        createdAt: model.created ? new Date(model.created * 1000).toISOString() : undefined,
+      }));
   },
 };
@@ -0,0 +1,326 @@
+import {
+  AIClient,
+  AIClientError,
+  AIResponse,
+  ContinuationBuildRequest,
+  FeedbackBuildRequest,
+  GenerationParams,
+  RequestControls,
+  StoryBuildRequest,
+  StreamHandlers,
+  TokenUsage,
+  definedFields,
+  feedbackTokenLimit,
+  fetchJson,
+  fetchWithRetry,
+  isTruncationReason,
+  parseEventData,
+  readEventStream,
+  stopSequences,
+} from "./base";
+import {
+  composeContinuationPrompt,
+  composeFeedbackPrompt,
+  composeStorySystemPrompt,
+  composeStoryUserPrompt,
+} from "../prompts/storyTemplates";
+import type { CustomConnector, ProviderDescriptor } from "../../context/ProviderContext";
+
+type ChatUsage = { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+type ResponsesUsage = { input_tokens?: number; output_tokens?: number; total_tokens?: number };
+
+type ChatCompletion = {
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: ChatUsage | null;
+};
+
+type ResponsesContent = { type?: string; text?: string };
+
+/** Output entries hold their text in `content` parts; some servers put `text` on the entry itself. */
+type ResponsesOutputEntry = ResponsesContent & { content?: ResponsesContent[] };
+
+type ResponsesResult = {
+  output_text?: string | string[];
+  output?: ResponsesOutputEntry[];
+  usage?: ResponsesUsage;
+  status?: string;
+  incomplete_details?: { reason?: string } | null;
+};
+
+type ChatStreamChunk = {
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: ChatUsage | null;
+};
+
+/** Only text deltas, the closing response and failures are read; other event types pass through. */
+type ResponsesStreamEvent = {
+  type?: string;
+  delta?: string;
+  response?: ResponsesResult;
+  error?: { message?: string };
+};
+
+interface PromptPair {
+  system: string;
+  user: string;
+  /** Used when `params` sets no temperature. */
+  temperature: number;
+  params?: GenerationParams;
+  maxTokens: number;
+}
+
+function requireConnector(provider: ProviderDescriptor): CustomConnector {
+  if (!provider.connector?.baseUrl) {
+    throw new AIClientError(`${provider.label} has no base URL configured. Re-register it with a connector.`);
+  }
+  return provider.connector;
+}
+
+function endpointFor(connector: CustomConnector) {
+  return `${connector.baseUrl.replace(/\/+$/, "")}/${connector.dialect === "responses" ? "responses" : "chat/completions"}`;
+}
+
+function authHeaders(connector: CustomConnector, apiKey: string): Record<string, string> {
+  if (!apiKey || connector.authStyle === "none") return {};
+  switch (connector.authStyle) {
+    case "x-api-key":
+      return { "x-api-key": apiKey };
+    case "api-key":
+      return { "api-key": apiKey };
+    default:
+      return { Authorization: `Bearer ${apiKey}` };
+  }
+}
+
+function buildBody(connector: CustomConnector, model: string, prompts: PromptPair) {
+  if (connector.dialect === "responses") {
+    return {
+      model,
+      max_output_tokens: prompts.maxTokens,
+      // The responses dialect has no penalties, stop sequences or seed.
+      ...definedFields({ temperature: prompts.params?.temperature ?? prompts.temperature, top_p: prompts.params?.topP }),
+      input: [
+        { role: "system", content: [{ type: "text", text: prompts.system }] },
+        { role: "user", content: [{ type: "text", text: prompts.user }] },
+      ],
+    };
+  }
+  return {
+    model,
+    ...definedFields({
+      temperature: prompts.params?.temperature ?? prompts.temperature,
+      top_p: prompts.params?.topP,
+      presence_penalty: prompts.params?.presencePenalty,
+      frequency_penalty: prompts.params?.frequencyPenalty,
+      stop: stopSequences(prompts.params, 4),
+      seed: prompts.params?.seed,
+    }),
+    max_tokens: prompts.maxTokens,
+    messages: [
+      { role: "system", content: prompts.system },
+      { role: "user", content: prompts.user },
+    ],
+  };
+}
+
+function chatUsage(usage: ChatUsage | null | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens, totalTokens: usage.total_tokens };
+}
+
+function responsesUsage(usage: ResponsesUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens, totalTokens: usage.total_tokens };
+}
+
+function extractResponsesText(data: ResponsesResult): string {
+  if (typeof data.output_text === "string") return data.output_text.trim();
+  if (Array.isArray(data.output_text)) return data.output_text.join("\n").trim();
+  if (Array.isArray(data.output)) {
+    return data.output
+      .flatMap((entry): ResponsesContent[] => (Array.isArray(entry.content) ? entry.content : [entry]))
+      .map((item) => (typeof item.text === "string" ? item.text : ""))
+      .filter(Boolean)
+      .join("\n")
+      .trim();
+  }
+  return "";
+}
+
+async function sendCustom(
+  provider: ProviderDescriptor,
+  apiKey: string,
+  body: Record<string, unknown>,
+  controls: RequestControls = {}
+) {
+  const connector = requireConnector(provider);
+  const response = await fetchWithRetry(
+    endpointFor(connector),
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(connector, apiKey),
+      },
+      body: JSON.stringify(body),
+      signal: controls.signal,
+    },
+    provider.label,
+    controls.retry
+  );
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => undefined);
+    const detail =
+      (payload as { error?: { message?: string } } | undefined)?.error?.message?.trim() ?? "";
+    const message = detail
+      ? `${provider.label} error (${response.status}): ${detail}`
+      : `${provider.label} error (${response.status})`;
+    throw new AIClientError(message, response.status, payload);
+  }
+
+  return response;
+}
+
+async function complete(
+  request: StoryBuildRequest | FeedbackBuildRequest,
+  prompts: PromptPair,
+  emptyMessage: string
+): Promise<AIResponse> {
+  const connector = requireConnector(request.provider);
+  const model = request.model ?? request.provider.defaultModel;
+  const response = await sendCustom(request.provider, request.apiKey, buildBody(connector, model, prompts), request);
+
+  if (connector.dialect === "responses") {
+    const data = (await response.json()) as ResponsesResult;
+    const content = extractResponsesText(data);
+    if (!content) throw new AIClientError(emptyMessage, undefined, data);
+    const stopReason = data.incomplete_details?.reason ?? data.status;
+    return {
+      content,
+      tokensUsed: data.usage?.total_tokens,
+      usage: responsesUsage(data.usage),
+      stopReason,
+      truncated: isTruncationReason(stopReason),
+      raw: data,
+    };
+  }
+
+  const data = (await response.json()) as ChatCompletion;
+  const content = data.choices?.[0]?.message?.content?.trim();
+  if (!content) throw new AIClientError(emptyMessage, undefined, data);
+  const stopReason = data.choices?.[0]?.finish_reason ?? undefined;
+  return {
+    content,
+    tokensUsed: data.usage?.total_tokens,
+    usage: chatUsage(data.usage),
+    stopReason,
+    truncated: isTruncationReason(stopReason),
+    raw: data,
+  };
+}
+
+function storyPrompts(request: StoryBuildRequest, user = composeStoryUserPrompt(request.metadata, request.prompt, request.continuity)): PromptPair {
+  return {
+    system: composeStorySystemPrompt(request.metadata, request.continuity),
+    user,
+    temperature: 0.7,
+    params: request.params,
+    maxTokens: request.maxTokens ?? 1400,
+  };
+}
+
+async function streamCustom(request: StoryBuildRequest, prompts: PromptPair, handlers: StreamHandlers): Promise<AIResponse> {
+  const connector = requireConnector(request.provider);
+  const model = request.model ?? request.provider.defaultModel;
+  const body = buildBody(connector, model, prompts);
+  const streamBody =
+    connector.dialect === "responses"
+      ? { ...body, stream: true }
+      : { ...body, stream: true, stream_options: { include_usage: true } };
+  const response = await sendCustom(request.provider, request.apiKey, streamBody, request);
+  const label = request.provider.label;
+
+  let text = "";
+  let usage: TokenUsage | undefined;
+  let stopReason: string | undefined;
+  await readEventStream(response, label, (event) => {
+    if (event.data === "[DONE]") return;
+    if (connector.dialect === "responses") {
+      const data = parseEventData<ResponsesStreamEvent>(event, label);
+      if (data.type === "response.output_text.delta" && data.delta) {
+        text += data.delta;
+        handlers.onChunk({ delta: data.delta, text });
+      } else if (data.type === "response.completed" || data.type === "response.incomplete") {
+        usage = responsesUsage(data.response?.usage);
+        stopReason = data.response?.incomplete_details?.reason ?? data.response?.status;
+      } else if (data.type === "response.failed" || data.type === "error") {
+        throw new AIClientError(`${label} stream failed: ${data.error?.message ?? "unknown error"}`, undefined, data);
+      }
+      return;
+    }
+    const data = parseEventData<ChatStreamChunk>(event, label);
+    usage = chatUsage(data.usage) ?? usage;
+    stopReason = data.choices?.[0]?.finish_reason ?? stopReason;
+    const delta = data.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      handlers.onChunk({ delta, text });
+    }
+  });
+
+  const content = text.trim();
+  if (!content) {
+    throw new AIClientError(`${label} returned an empty response`, undefined, usage);
+  }
+  return { content, tokensUsed: usage?.totalTokens, usage, stopReason, truncated: isTruncationReason(stopReason) };
+}
+
+/**
+ * Speaks either the chat/completions or the responses dialect, depending on the
+ * connector stored on the provider descriptor. One client serves every custom provider.
+ */
+export const openAICompatibleClient: AIClient = {
+  async generateStory(request: StoryBuildRequest) {
+    return complete(request, storyPrompts(request), `${request.provider.label} returned an empty response`);
+  },
+
+  async streamStory(request: StoryBuildRequest, handlers) {
+    return streamCustom(request, storyPrompts(request), handlers);
+  },
+
+  async continueStory(request: ContinuationBuildRequest, handlers) {
+    const user = composeContinuationPrompt(request.metadata, request.draft, request.words, request.prompt, request.trimmed, request.continuity);
+    return streamCustom(request, storyPrompts(request, user), handlers);
+  },
+
+  async requestFeedback(request: FeedbackBuildRequest) {
+    return complete(
+      request,
+      {
+        system: "You are a careful fiction editor.",
+        user: composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity),
+        temperature: 0.4,
+        params: request.params,
+        // Local servers disagree on JSON-mode flags, so structured feedback relies on the prompt and the tolerant parser.
+        maxTokens: feedbackTokenLimit(request),
+      },
+      `${request.provider.label} returned an empty feedback response`
+    );
+  },
+
+  async listModels(request) {
+    const connector = requireConnector(request.provider);
+    const data = await fetchJson<{ data?: Array<{ id: string; created?: number; deprecated?: boolean }> }>(
+      `${connector.baseUrl.replace(/\/+$/, "")}/models`,
+      authHeaders(connector, request.apiKey),
+      request.provider.label,
+      request
+    );
+    return (data.data ?? []).map((model) => ({
+      id: model.id,
+      createdAt: model.created ? new Date(model.created * 1000).toISOString() : undefined,
+      deprecated: model.deprecated,
+    }));
+  },
+};
@@ -0,0 +1,137 @@
+import type { ProviderDescriptor } from "../context/ProviderContext";
+
+/** Input context sizes in tokens, matched against the model id in order. */
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4o|^gpt-4\.1|^o\d/, 128000],
+  [/^gpt-4-turbo/, 128000],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5/, 16385],
+  [/^claude/, 200000],
+  [/^gemini-1\.5-pro/, 2000000],
+  [/^gemini/, 1000000],
+  [/^deepseek/, 64000],
+  [/^mock/, 8192],
+];
+
+/** Used for custom connectors and anything unrecognised; small enough for most local servers. */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Upper bound on how much of the draft a continuation sends, even when the
+ * model could take more. The tail carries voice and momentum; beyond this the
+ * extra prompt tokens cost more than they help.
+ */
+export const CONTINUATION_CONTEXT_TOKENS = 6000;
+
+/** Room left for the system prompt, metadata and instructions around the excerpt. */
+export const PROMPT_OVERHEAD_TOKENS = 800;
+
+export interface ContinuationContext {
+  excerpt: string;
+  /** True when the start of the draft was dropped to fit. */
+  trimmed: boolean;
+  omittedWords: number;
+}
+
+export function contextWindowFor(provider: ProviderDescriptor, model: string) {
+  if (provider.connector) return DEFAULT_CONTEXT_WINDOW;
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Rough English estimate (about four characters per token); good enough for budgeting. */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+/** Words of new prose to output tokens, with headroom so the model is not cut off mid-sentence. */
+export function continuationMaxTokens(words: number) {
+  return Math.ceil(words * 1.5) + 200;
+}
+
+export function continuationBudget(provider: ProviderDescriptor, model: string, maxTokens: number) {
+  const available = contextWindowFor(provider, model) - maxTokens - PROMPT_OVERHEAD_TOKENS;
+  return Math.max(256, Math.min(CONTINUATION_CONTEXT_TOKENS, available));
+}
+
+/**
+ * Keeps the end of the draft that fits `budgetTokens`. Whole paragraphs are
+ * kept where possible; when even the last paragraph is too long it is cut at
+ * a sentence boundary so the excerpt never opens mid-sentence.
+ */
+export function fitDraftTail(draft: string, budgetTokens: number): ContinuationContext {
+  const text = draft.trim();
+  if (estimateTokens(text) <= budgetTokens) {
+    return { excerpt: text, trimmed: false, omittedWords: 0 };
+  }
+
+  const paragraphs = text.split(/\n{2,}/);
+  const kept: string[] = [];
+  let used = 0;
+  for (let index = paragraphs.length - 1; index >= 0; index -= 1) {
+    const cost = estimateTokens(paragraphs[index]) + 1;
+    if (used + cost > budgetTokens) break;
+    kept.unshift(paragraphs[index]);
+    used += cost;
+  }
+
+  if (!kept.length) {
+    const last = paragraphs[paragraphs.length - 1];
+    const tail = last.slice(-budgetTokens * 4);
+    const sentenceStart = tail.search(/(?<=[.!?]["”’)]?)\s+\S/);
+    kept.push((sentenceStart > 0 ? tail.slice(sentenceStart) : tail.replace(/^\S*\s+/, "")).trim());
+  }
+
+  const excerpt = kept.join("\n\n");
+  return { excerpt, trimmed: true, omittedWords: Math.max(0, countWords(text) - countWords(excerpt)) };
+}
+
+export function countWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+const normalizeText = (text: string) => text.split(/\s+/).map(normalizeWord).filter(Boolean).join(" ");
+
+/** Shorter overlaps are usually coincidence ("and then she said"), not a repeat. */
+const MIN_OVERLAP_WORDS = 8;
+const MIN_REPEATED_PARAGRAPH_WORDS = 12;
+
+/**
+ * Strips what a continuation repeated from the existing text: an opening that
+ * re-states the draft's last words, and whole paragraphs that already appear
+ * verbatim. Comparison ignores case and punctuation.
+ */
+export function removeRepeats(existing: string, addition: string): { text: string; removedWords: number } {
+  const tail = existing.split(/\s+/).filter(Boolean).slice(-200).map(normalizeWord);
+  const pieces = addition.match(/\S+\s*/g) ?? [];
+  const head = pieces.map((piece) => normalizeWord(piece));
+
+  let overlap = 0;
+  for (let size = Math.min(tail.length, head.length); size >= MIN_OVERLAP_WORDS; size -= 1) {
+    const matches = head.slice(0, size).every((word, index) => word === tail[tail.length - size + index]);
+    if (matches) {
+      overlap = size;
+      break;
+    }
+  }
+
+  const known = normalizeText(existing);
+  const paragraphs = pieces
+    .slice(overlap)
+    .join("")
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+  const kept = paragraphs.filter((paragraph) => {
+    const normalized = normalizeText(paragraph);
+    return normalized.split(" ").length < MIN_REPEATED_PARAGRAPH_WORDS || !known.includes(normalized);
+  });
+
+  const text = kept.join("\n\n");
+  return { text, removedWords: Math.max(0, countWords(addition) - countWords(text)) };
+}
+
+/** What a continuation request will actually send for a given draft and model. */
+export function planContinuation(provider: ProviderDescriptor, model: string, draft: string, maxTokens: number) {
+  return fitDraftTail(draft, continuationBudget(provider, model, maxTokens));
+}
@@ -0,0 +1,115 @@
+import type { ProviderDescriptor } from "../context/ProviderContext";
+import { AIErrorClass, AIResponse, FailoverTarget, FallbackEvent, StoryBuildRequest, classifyError } from "./clients/base";
+
+export const DEFAULT_FALLBACK_ON: AIErrorClass[] = ["model_unavailable"];
+
+/** Outages move a request to another provider; bad keys, bad requests and rate limits do not. */
+export const PROVIDER_FAILOVER_ON: AIErrorClass[] = ["server", "timeout", "network"];
+
+/**
+ * Orders the models to try for one request. A requested model that sits in the
+ * provider's chain steps down through the models after it; any other model is
+ * tried first and then hands over to the chain from the provider default, so
+ * a fallback never climbs to a pricier model than the user picked.
+ */
+export function resolveFallbackChain(provider: ProviderDescriptor, requested?: string): string[] {
+  const model = requested ?? provider.defaultModel;
+  const chain = provider.fallbackChain?.length ? provider.fallbackChain : [provider.defaultModel];
+  const position = chain.indexOf(model);
+  if (position !== -1) {
+    return chain.slice(position);
+  }
+  const defaultPosition = chain.indexOf(provider.defaultModel);
+  return Array.from(new Set([model, ...chain.slice(Math.max(0, defaultPosition))]));
+}
+
+interface FallbackOptions {
+  onFallback?: (event: FallbackEvent) => void;
+  /** Checked before each step; streaming callers return false once text has been shown. */
+  canFallback?: () => boolean;
+}
+
+/**
+ * Runs `attempt` against each model in the provider's chain until one succeeds
+ * or an error falls outside the provider's `fallbackOn` classes. The returned
+ * response records both the requested and the serving model.
+ */
+export async function runWithFallback(
+  provider: ProviderDescriptor,
+  requested: string | undefined,
+  attempt: (model: string) => Promise<AIResponse>,
+  options: FallbackOptions = {}
+): Promise<AIResponse> {
+  const candidates = resolveFallbackChain(provider, requested);
+  const triggers = provider.fallbackOn ?? DEFAULT_FALLBACK_ON;
+  const requestedModel = candidates[0];
+
+  for (let index = 0; ; index += 1) {
+    const model = candidates[index];
+    try {
+      const response = await attempt(model);
+      return { ...response, model, requestedModel };
+    } catch (error) {
+      const errorClass = classifyError(error);
+      const nextModel = candidates[index + 1];
+      const canStep = nextModel && triggers.includes(errorClass) && (options.canFallback?.() ?? true);
+      if (!canStep) throw error;
+      options.onFallback?.({
+        providerLabel: provider.label,
+        failedModel: model,
+        nextModel,
+        errorClass,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/** The request as it should be sent to `target`: its key, model and retry policy, and no further failover. */
+export function retarget<R extends StoryBuildRequest>(request: R, target: FailoverTarget): R {
+  return {
+    ...request,
+    provider: target.provider,
+    apiKey: target.apiKey,
+    model: target.model,
+    retry: target.retry ?? request.retry,
+    failover: undefined,
+  };
+}
+
+/**
+ * Runs `attempt` against the requested provider, then each `request.failover`
+ * target in turn while the failure is an outage (`PROVIDER_FAILOVER_ON`). The
+ * response names the provider that actually served it.
+ */
+export async function runWithProviderFailover<R extends StoryBuildRequest>(
+  request: R,
+  attempt: (request: R) => Promise<AIResponse>,
+  options: Pick<FallbackOptions, "canFallback"> = {}
+): Promise<AIResponse> {
+  const targets: FailoverTarget[] = [
+    { provider: request.provider, apiKey: request.apiKey, model: request.model, retry: request.retry },
+    ...(request.failover ?? []).filter((target) => target.provider.id !== request.provider.id),
+  ];
+
+  for (let index = 0; ; index += 1) {
+    const target = targets[index];
+    try {
+      const response = await attempt(retarget(request, target));
+      return { ...response, providerId: target.provider.id, providerLabel: target.provider.label };
+    } catch (error) {
+      const errorClass = classifyError(error);
+      const next = targets[index + 1];
+      const canStep = next && PROVIDER_FAILOVER_ON.includes(errorClass) && (options.canFallback?.() ?? true);
+      if (!canStep) throw error;
+      request.onProviderFailover?.({
+        fromProviderId: target.provider.id,
+        fromProvider: target.provider.label,
+        toProviderId: next.provider.id,
+        toProvider: next.provider.label,
+        errorClass,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import type { FeedbackIssue, FeedbackSection, FeedbackSeverity, StructuredFeedback } from "../context/WorkspaceContext";
+import { generateId } from "../utils/crypto";
+
+/**
+ * JSON schema for structured feedback. Written to satisfy OpenAI's strict
+ * mode (every property required, no extra keys); other providers get it
+ * through the prompt.
+ */
+export const FEEDBACK_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["summary", "issues"],
+  properties: {
+    summary: { type: "string", description: "Two or three sentences on the draft as a whole." },
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["severity", "category", "comment", "quote", "replacement"],
+        properties: {
+          severity: { type: "string", enum: ["minor", "moderate", "major"] },
+          category: { type: "string", description: "Short label such as grammar, dialogue, pacing or clarity." },
+          comment: { type: "string", description: "What is wrong and why the change helps." },
+          quote: { type: "string", description: "An exact, contiguous span copied from the draft." },
+          replacement: { type: "string", description: "Text to put in place of the quote, or an empty string." },
+        },
+      },
+    },
+  },
+} as const;
+
+const SEVERITY_ALIASES: Record<string, FeedbackSeverity> = {
+  minor: "minor",
+  low: "minor",
+  nit: "minor",
+  suggestion: "minor",
+  moderate: "moderate",
+  medium: "moderate",
+  major: "major",
+  high: "major",
+  critical: "major",
+  severe: "major",
+};
+
+/** Pulls the outermost JSON object out of a reply that may wrap it in prose or code fences. */
+function extractJsonObject(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  return candidate.slice(start, end + 1);
+}
+
+function parseLoosely(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    // Common model slips: trailing commas and typographic quotes around keys.
+    const repaired = json.replace(/,\s*([}\]])/g, "$1").replace(/[“”]/g, '"');
+    try {
+      return JSON.parse(repaired);
+    } catch {
+      return null;
+    }
+  }
+}
+
+const asText = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+function toIssue(value: unknown): FeedbackIssue | null {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Record<string, unknown>;
+  const comment = asText(entry.comment) || asText(entry.issue) || asText(entry.explanation) || asText(entry.note);
+  const quote = asText(entry.quote) || asText(entry.original) || asText(entry.span);
+  if (!comment && !quote) return null;
+  return {
+    id: generateId("iss"),
+    severity: SEVERITY_ALIASES[asText(entry.severity).toLowerCase()] ?? "moderate",
+    category: asText(entry.category) || asText(entry.type) || "general",
+    comment,
+    quote,
+    replacement: asText(entry.replacement) || asText(entry.suggestion) || asText(entry.revised),
+    status: "pending",
+  };
+}
+
+/**
+ * Reads a structured feedback reply. Tolerates code fences, surrounding prose,
+ * trailing commas and near-miss field names; returns null when no usable
+ * object is found so callers can fall back to showing the raw text.
+ */
+export function parseStructuredFeedback(text: string): StructuredFeedback | null {
+  const json = extractJsonObject(text);
+  if (!json) return null;
+  const data = parseLoosely(json);
+  if (!data || typeof data !== "object") return null;
+  const record = data as Record<string, unknown>;
+  const list = Array.isArray(record.issues) ? record.issues : Array.isArray(record.suggestions) ? record.suggestions : [];
+  const issues = list.map(toIssue).filter((issue): issue is FeedbackIssue => issue !== null);
+  const summary = asText(record.summary) || asText(record.overview);
+  if (!summary && !issues.length) return null;
+  return { summary, issues };
+}
+
+export interface QuoteLocation {
+  start: number;
+  end: number;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Part of the draft a quote belongs to; without an `end`, only a hint for which occurrence to prefer. */
+export interface QuoteScope {
+  start: number;
+  end?: number;
+}
+
+export function issueScope(issue: Pick<FeedbackIssue, "anchor" | "anchorEnd">): QuoteScope | undefined {
+  return issue.anchor === undefined ? undefined : { start: issue.anchor, end: issue.anchorEnd };
+}
+
+/**
+ * The occurrence inside `scope` closest to its start, or the first one when
+ * there is no scope. A scope with an `end` never settles for a match outside it.
+ */
+function closest(matches: QuoteLocation[], scope?: QuoteScope) {
+  if (!scope) return matches[0] ?? null;
+  const { start, end } = scope;
+  const inside = end === undefined ? matches : matches.filter((match) => match.start >= start && match.end <= end);
+  if (!inside.length) return null;
+  return inside.reduce((best, match) => (Math.abs(match.start - start) < Math.abs(best.start - start) ? match : best));
+}
+
+/**
+ * Finds `quote` in the draft: exactly first, then allowing any run of
+ * whitespace and either style of quotation mark where the quote has one,
+ * since models often re-flow lines or straighten curly quotes. When the quote
+ * appears more than once, the match nearest the start of `scope` wins.
+ */
+export function locateQuote(content: string, quote: string, scope?: QuoteScope): QuoteLocation | null {
+  if (!quote) return null;
+  const exact: QuoteLocation[] = [];
+  for (let index = content.indexOf(quote); index !== -1; index = content.indexOf(quote, index + 1)) {
+    exact.push({ start: index, end: index + quote.length });
+  }
+  const exactMatch = closest(exact, scope);
+  if (exactMatch) return exactMatch;
+
+  const pattern = quote
+    .trim()
+    .split(/\s+/)
+    .map((word) =>
+      escapeRegExp(word)
+        .replace(/["“”]/g, "[\"“”]")
+        .replace(/['‘’]/g, "['‘’]")
+    )
+    .join("\\s+");
+  if (!pattern) return null;
+  const fuzzy = [...content.matchAll(new RegExp(pattern, "g"))].map((match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+  return closest(fuzzy, scope);
+}
+
+/** Returns the draft with the issue's quote replaced, or null when the quote is no longer there. */
+export function applySuggestion(
+  content: string,
+  issue: Pick<FeedbackIssue, "quote" | "replacement" | "anchor" | "anchorEnd">
+): string | null {
+  const location = locateQuote(content, issue.quote, issueScope(issue));
+  if (!location) return null;
+  return content.slice(0, location.start) + issue.replacement + content.slice(location.end);
+}
+
+export interface SectionFeedbackInput {
+  index: number;
+  label: string;
+  start: number;
+  end: number;
+  /** The section's raw reply. */
+  content: string;
+}
+
+/** Plain-text digest of one section's reply, fed to the synthesis call. */
+export function describeSectionFeedback(section: SectionFeedbackInput) {
+  const structured = parseStructuredFeedback(section.content);
+  if (!structured) return `${section.label}\n${section.content.trim()}`;
+  const issues = structured.issues.map((issue) => `- [${issue.severity}] ${issue.category}: ${issue.comment}`);
+  return [section.label, structured.summary, ...issues].filter(Boolean).join("\n");
+}
+
+/**
+ * Joins per-section replies into one feedback result: the synthesis becomes
+ * the summary, and every issue keeps the section it came from so its quote
+ * is matched only in that part of the draft.
+ */
+export function mergeSectionFeedback(sections: SectionFeedbackInput[], synthesis: string): StructuredFeedback {
+  const parsed = sections.map((section) => ({ section, structured: parseStructuredFeedback(section.content) }));
+  const summaries: FeedbackSection[] = parsed.map(({ section, structured }) => ({
+    index: section.index,
+    label: section.label,
+    start: section.start,
+    end: section.end,
+    summary: structured?.summary || (structured ? "" : section.content.trim()),
+  }));
+  const issues = parsed.flatMap(({ section, structured }) =>
+    (structured?.issues ?? []).map((issue) => ({ ...issue, section: section.index, anchor: section.start, anchorEnd: section.end }))
+  );
+  return { summary: synthesis.trim(), issues, sections: summaries };
+}
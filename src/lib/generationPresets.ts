@@ -0,0 +1,164 @@
+import type { ProviderDescriptor } from "../context/ProviderContext";
+import type { GenerationParams } from "./clients/base";
+import { generateId } from "../utils/crypto";
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  description?: string;
+  params: GenerationParams;
+  /** Shipped presets can be duplicated but not edited or deleted. */
+  builtIn?: boolean;
+}
+
+export type GenerationPresetInput = Pick<GenerationPreset, "name" | "description" | "params">;
+
+export const DEFAULT_PRESET_ID = "preset:balanced";
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+  {
+    id: DEFAULT_PRESET_ID,
+    name: "Balanced",
+    description: "The studio default: varied prose that still follows the brief.",
+    params: { temperature: 0.72 },
+    builtIn: true,
+  },
+  {
+    id: "preset:brainstorm",
+    name: "Wild brainstorming",
+    description: "Hot sampling and penalties against repetition, for first drafts and ideas.",
+    params: { temperature: 1.1, topP: 0.95, presencePenalty: 0.6, frequencyPenalty: 0.3 },
+    builtIn: true,
+  },
+  {
+    id: "preset:editing",
+    name: "Tight editing",
+    description: "Cool, focused sampling for continuations that must stay on voice.",
+    params: { temperature: 0.3, topP: 0.85, frequencyPenalty: 0.2 },
+    builtIn: true,
+  },
+];
+
+type ParamKey = keyof GenerationParams;
+
+export const PARAM_LABELS: Record<ParamKey, string> = {
+  temperature: "Temperature",
+  topP: "Top P",
+  presencePenalty: "Presence penalty",
+  frequencyPenalty: "Frequency penalty",
+  stop: "Stop sequences",
+  seed: "Seed",
+};
+
+const ALL_PARAMS: ParamKey[] = ["temperature", "topP", "presencePenalty", "frequencyPenalty", "stop", "seed"];
+
+/** What each client forwards; anything else in a preset is dropped for that provider. */
+function supportedParams(provider: ProviderDescriptor): ParamKey[] {
+  if (provider.connector) {
+    return provider.connector.dialect === "responses" ? ["temperature", "topP"] : ALL_PARAMS;
+  }
+  switch (provider.id) {
+    case "openai":
+      return ["temperature", "topP"];
+    case "anthropic":
+      return ["temperature", "topP", "stop"];
+    case "deepseek":
+      return ["temperature", "topP", "presencePenalty", "frequencyPenalty", "stop"];
+    case "gemini":
+      return ALL_PARAMS;
+    case "mock":
+      // The mock ignores sampling altogether; warning about it would only be noise.
+      return ALL_PARAMS;
+    default:
+      return [];
+  }
+}
+
+/** Labels of the preset's settings that `provider` ignores, for a hint next to the picker. */
+export function unsupportedParams(provider: ProviderDescriptor, params: GenerationParams) {
+  const supported = supportedParams(provider);
+  return ALL_PARAMS.filter((key) => params[key] !== undefined && !supported.includes(key)).map((key) => PARAM_LABELS[key]);
+}
+
+/** One-line summary such as "temp 0.72 · top_p 0.9 · seed 7". */
+export function describeParams(params: GenerationParams) {
+  const parts = [
+    params.temperature !== undefined && `temp ${params.temperature}`,
+    params.topP !== undefined && `top_p ${params.topP}`,
+    params.presencePenalty !== undefined && `presence ${params.presencePenalty}`,
+    params.frequencyPenalty !== undefined && `frequency ${params.frequencyPenalty}`,
+    params.stop?.length && `${params.stop.length} stop sequence${params.stop.length === 1 ? "" : "s"}`,
+    params.seed !== undefined && `seed ${params.seed}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : "Provider defaults";
+}
+
+/** Returns a message for the first out-of-range value, or null when the set is usable everywhere it is sent. */
+export function validateParams(params: GenerationParams): string | null {
+  const inRange = (value: number | undefined, min: number, max: number) =>
+    value === undefined || (Number.isFinite(value) && value >= min && value <= max);
+  if (!inRange(params.temperature, 0, 2)) return "Temperature must be between 0 and 2.";
+  if (!inRange(params.topP, 0, 1)) return "Top P must be between 0 and 1.";
+  if (!inRange(params.presencePenalty, -2, 2)) return "Presence penalty must be between -2 and 2.";
+  if (!inRange(params.frequencyPenalty, -2, 2)) return "Frequency penalty must be between -2 and 2.";
+  if (params.seed !== undefined && !Number.isInteger(params.seed)) return "Seed must be a whole number.";
+  return null;
+}
+
+const STORAGE_PRESETS_KEY = "sf:generation-presets";
+
+let custom: GenerationPreset[] | null = null;
+let combined: GenerationPreset[] | null = null;
+const listeners = new Set<() => void>();
+
+function loadCustom() {
+  if (!custom) {
+    try {
+      const stored = localStorage.getItem(STORAGE_PRESETS_KEY);
+      custom = stored ? (JSON.parse(stored) as GenerationPreset[]) : [];
+    } catch (error) {
+      console.error(`Failed to parse ${STORAGE_PRESETS_KEY}`, error);
+      custom = [];
+    }
+  }
+  return custom;
+}
+
+function saveCustom(next: GenerationPreset[]) {
+  custom = next;
+  combined = null;
+  localStorage.setItem(STORAGE_PRESETS_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener());
+}
+
+/** Built-in presets first, then the user's; the same array until a preset changes. */
+export function getGenerationPresets(): GenerationPreset[] {
+  if (!combined) combined = [...BUILT_IN_PRESETS, ...loadCustom()];
+  return combined;
+}
+
+export function subscribeToPresets(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Falls back to the default preset when `id` is unset or was deleted. */
+export function resolvePreset(id: string | undefined): GenerationPreset {
+  const presets = getGenerationPresets();
+  return presets.find((preset) => preset.id === id) ?? presets[0];
+}
+
+/** Creates a preset, or updates the custom preset `id`. */
+export function saveGenerationPreset(input: GenerationPresetInput, id?: string): GenerationPreset {
+  const existing = loadCustom();
+  const preset: GenerationPreset = { id: id ?? generateId("preset"), ...input };
+  const updating = existing.some((entry) => entry.id === preset.id);
+  saveCustom(updating ? existing.map((entry) => (entry.id === preset.id ? preset : entry)) : [...existing, preset]);
+  return preset;
+}
+
+export function deleteGenerationPreset(id: string) {
+  saveCustom(loadCustom().filter((preset) => preset.id !== id));
+}
@@ -0,0 +1,149 @@
+import type { Chapter, Scene, SceneStatus } from "../context/WorkspaceContext";
+import { generateId } from "../utils/crypto";
+import type { DraftRevision } from "./revisions";
+
+export const SCENE_STATUS_LABELS: Record<SceneStatus, string> = {
+  outline: "Outline",
+  drafted: "Drafted",
+  revised: "Revised",
+};
+
+/** Placed between scenes of one chapter in the compiled manuscript; the section splitter treats it as a scene break. */
+export const SCENE_BREAK = "* * *";
+
+export function createScene(title: string, content = "", revisions: DraftRevision[] = []): Scene {
+  return {
+    id: generateId("scene"),
+    title,
+    content,
+    summary: "",
+    status: content.trim() ? "drafted" : "outline",
+    revisions,
+  };
+}
+
+export function createChapter(title: string, scenes: Scene[] = [createScene("Scene 1")]): Chapter {
+  return { id: generateId("chapter"), title, summary: "", status: "outline", scenes };
+}
+
+/**
+ * The whole story as one text. A manuscript of a single scene compiles to
+ * exactly that scene's text, so drafts that never use chapters read as before.
+ */
+export function compileManuscript(chapters: Chapter[]): string {
+  const scenes = chapters.flatMap((chapter) => chapter.scenes);
+  if (chapters.length === 1 && scenes.length === 1) return scenes[0].content;
+  return chapters
+    .map((chapter) => {
+      const body = chapter.scenes
+        .map((scene) => scene.content.trim())
+        .filter(Boolean)
+        .join(`\n\n${SCENE_BREAK}\n\n`);
+      const heading = chapters.length > 1 ? `# ${chapter.title}` : "";
+      return [heading, body].filter(Boolean).join("\n\n");
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export interface ScenePosition {
+  chapter: Chapter;
+  scene: Scene;
+  chapterIndex: number;
+  sceneIndex: number;
+}
+
+export function findScene(chapters: Chapter[], sceneId: string | undefined): ScenePosition | undefined {
+  for (let chapterIndex = 0; chapterIndex < chapters.length; chapterIndex += 1) {
+    const chapter = chapters[chapterIndex];
+    const sceneIndex = chapter.scenes.findIndex((scene) => scene.id === sceneId);
+    if (sceneIndex !== -1) return { chapter, scene: chapter.scenes[sceneIndex], chapterIndex, sceneIndex };
+  }
+  return undefined;
+}
+
+export function firstScene(chapters: Chapter[]): Scene | undefined {
+  return chapters.find((chapter) => chapter.scenes.length)?.scenes[0];
+}
+
+export function sceneCount(chapters: Chapter[]) {
+  return chapters.reduce((total, chapter) => total + chapter.scenes.length, 0);
+}
+
+export function mapScene(chapters: Chapter[], sceneId: string, update: (scene: Scene) => Scene): Chapter[] {
+  return chapters.map((chapter) =>
+    chapter.scenes.some((scene) => scene.id === sceneId)
+      ? { ...chapter, scenes: chapter.scenes.map((scene) => (scene.id === sceneId ? update(scene) : scene)) }
+      : chapter
+  );
+}
+
+function clampIndex(index: number, length: number) {
+  return Math.max(0, Math.min(index, length));
+}
+
+export function moveChapter(chapters: Chapter[], chapterId: string, toIndex: number): Chapter[] {
+  const chapter = chapters.find((entry) => entry.id === chapterId);
+  if (!chapter) return chapters;
+  const rest = chapters.filter((entry) => entry.id !== chapterId);
+  const index = clampIndex(toIndex, rest.length);
+  return [...rest.slice(0, index), chapter, ...rest.slice(index)];
+}
+
+/** Moves a scene to `toIndex` within `toChapterId`, counted after the scene is taken out. */
+export function moveScene(chapters: Chapter[], sceneId: string, toChapterId: string, toIndex: number): Chapter[] {
+  const position = findScene(chapters, sceneId);
+  if (!position || !chapters.some((chapter) => chapter.id === toChapterId)) return chapters;
+  const without = chapters.map((chapter) =>
+    chapter.id === position.chapter.id ? { ...chapter, scenes: chapter.scenes.filter((scene) => scene.id !== sceneId) } : chapter
+  );
+  return without.map((chapter) => {
+    if (chapter.id !== toChapterId) return chapter;
+    const index = clampIndex(toIndex, chapter.scenes.length);
+    return { ...chapter, scenes: [...chapter.scenes.slice(0, index), position.scene, ...chapter.scenes.slice(index)] };
+  });
+}
+
+/** Perspective for a scene: its own override, then its chapter's, then the story's. */
+export function scenePerspective(position: ScenePosition | undefined, storyPerspective: string) {
+  return position?.scene.pov?.trim() || position?.chapter.pov?.trim() || storyPerspective;
+}
+
+function describeScene(chapters: Chapter[], position: ScenePosition) {
+  const chapterLabel = chapters.length > 1 ? `${position.chapter.title}, ` : "";
+  return `${chapterLabel}${position.scene.title}`;
+}
+
+/** How many neighbouring scene summaries to send on either side of the one being written. */
+const CONTEXT_SCENES = 3;
+
+/**
+ * Notes that place one scene in the manuscript for a model: where it sits,
+ * whose perspective it is in, and the summaries of the scenes around it.
+ * Empty for a manuscript of one scene, which needs no placing.
+ */
+export function composeSceneContext(chapters: Chapter[], sceneId: string, storyPerspective: string): string {
+  const position = findScene(chapters, sceneId);
+  if (!position || sceneCount(chapters) < 2) return "";
+  const ordered = chapters.flatMap((chapter, chapterIndex) =>
+    chapter.scenes.map((scene, sceneIndex) => ({ chapter, scene, chapterIndex, sceneIndex }))
+  );
+  const index = ordered.findIndex((entry) => entry.scene.id === sceneId);
+  const summaryLine = (entry: ScenePosition) => {
+    const summary = entry.scene.summary.trim() || (entry.scene.content.trim() ? "(no summary yet)" : "(not written yet)");
+    return `- ${describeScene(chapters, entry)}: ${summary}`;
+  };
+  const before = ordered.slice(Math.max(0, index - CONTEXT_SCENES), index).map(summaryLine);
+  const after = ordered.slice(index + 1, index + 1 + CONTEXT_SCENES).map(summaryLine);
+  const perspective = scenePerspective(position, storyPerspective);
+
+  return [
+    `Manuscript position: ${describeScene(chapters, position)} (scene ${index + 1} of ${ordered.length}), told in ${perspective}. Write and judge this scene only.`,
+    position.chapter.summary.trim() && `Chapter summary: ${position.chapter.summary.trim()}`,
+    position.scene.summary.trim() && `This scene: ${position.scene.summary.trim()}`,
+    before.length > 0 && `Earlier scenes:\n${before.join("\n")}`,
+    after.length > 0 && `Later scenes:\n${after.join("\n")}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
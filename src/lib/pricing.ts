@@ -0,0 +1,170 @@
+import type { ProviderId } from "../context/ProviderContext";
+import type { AIResponse } from "./clients/base";
+
+/** List prices in USD per million tokens. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/** When the table below was last checked against the vendors' pricing pages. */
+export const PRICING_UPDATED = "2025-06-01";
+
+/** Matched against the model id in order, so more specific patterns come first. */
+const MODEL_PRICING: Array<[RegExp, ModelPricing]> = [
+  [/^gpt-4o-mini/, { input: 0.15, output: 0.6 }],
+  [/^gpt-4o/, { input: 2.5, output: 10 }],
+  [/^gpt-4\.1-nano/, { input: 0.1, output: 0.4 }],
+  [/^gpt-4\.1-mini/, { input: 0.4, output: 1.6 }],
+  [/^gpt-4\.1/, { input: 2, output: 8 }],
+  [/^gpt-4-turbo/, { input: 10, output: 30 }],
+  [/^gpt-4/, { input: 30, output: 60 }],
+  [/^gpt-3\.5/, { input: 0.5, output: 1.5 }],
+  [/^o\d-mini/, { input: 1.1, output: 4.4 }],
+  [/^o1/, { input: 15, output: 60 }],
+  [/^o\d/, { input: 2, output: 8 }],
+  [/^claude-3-haiku/, { input: 0.25, output: 1.25 }],
+  [/^claude.*haiku/, { input: 0.8, output: 4 }],
+  [/^claude.*sonnet/, { input: 3, output: 15 }],
+  [/^claude.*opus/, { input: 15, output: 75 }],
+  [/^gemini-1\.5-flash-8b/, { input: 0.0375, output: 0.15 }],
+  [/^gemini-1\.5-flash/, { input: 0.075, output: 0.3 }],
+  [/^gemini-1\.5-pro/, { input: 1.25, output: 5 }],
+  [/^gemini-2\.0-flash-lite/, { input: 0.075, output: 0.3 }],
+  [/^gemini-2\.0-flash/, { input: 0.1, output: 0.4 }],
+  [/^gemini-2\.5-flash/, { input: 0.3, output: 2.5 }],
+  [/^gemini-2\.5-pro/, { input: 1.25, output: 10 }],
+  [/^deepseek-reasoner/, { input: 0.55, output: 2.19 }],
+  [/^deepseek/, { input: 0.27, output: 1.1 }],
+  [/^mock/, { input: 0, output: 0 }],
+];
+
+/** For models the table does not know yet; roughly each vendor's cheapest current tier. */
+const PROVIDER_PRICING: Partial<Record<string, ModelPricing>> = {
+  openai: { input: 0.15, output: 0.6 },
+  anthropic: { input: 0.8, output: 4 },
+  gemini: { input: 0.075, output: 0.3 },
+  deepseek: { input: 0.27, output: 1.1 },
+  mock: { input: 0, output: 0 },
+};
+
+/** Custom connectors have no published price; treat them like a small hosted model. */
+const DEFAULT_PRICING: ModelPricing = { input: 0.2, output: 0.6 };
+
+export type PricingSource = "model" | "provider" | "default";
+
+export function pricingFor(providerId: ProviderId, model: string): { pricing: ModelPricing; source: PricingSource } {
+  if (!providerId.startsWith("custom:")) {
+    const matched = MODEL_PRICING.find(([pattern]) => pattern.test(model));
+    if (matched) return { pricing: matched[1], source: "model" };
+    const fallback = PROVIDER_PRICING[providerId];
+    if (fallback) return { pricing: fallback, source: "provider" };
+  }
+  return { pricing: DEFAULT_PRICING, source: "default" };
+}
+
+const TOKEN_PIECES = /[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/g;
+
+/**
+ * Approximates a BPE tokenizer without shipping one: common words are a single
+ * token, long words split every four letters, digits group in threes and each
+ * symbol or non-Latin character counts on its own. Within about 10% of the
+ * vendors' counts for English prose, which is what cost estimates need.
+ */
+export function countTokens(text: string) {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECES)) {
+    if (/\s/.test(piece[0])) {
+      // A single space rides along with the next word; line breaks and indentation do not.
+      if (piece !== " ") tokens += 1;
+    } else if (/\d/.test(piece[0])) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/[A-Za-z]/.test(piece[0])) {
+      tokens += piece.length <= 6 ? 1 : 1 + Math.ceil((piece.length - 6) / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/** Expected output for a number of prose words, before any headroom. */
+export function wordsToTokens(words: number) {
+  return Math.ceil(words * 1.35);
+}
+
+export interface CostBreakdown {
+  inputTokens: number;
+  outputTokens: number;
+  /** USD. */
+  cost: number;
+}
+
+export function priceTokens(providerId: ProviderId, model: string, inputTokens: number, outputTokens: number): CostBreakdown {
+  const { pricing } = pricingFor(providerId, model);
+  return {
+    inputTokens,
+    outputTokens,
+    cost: (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000,
+  };
+}
+
+export interface CostReport {
+  estimated: CostBreakdown;
+  actual: CostBreakdown;
+  /** False when the provider reported no usage and `actual` was counted from the text. */
+  measured: boolean;
+}
+
+/**
+ * Prices what a call actually used. Provider usage wins; a bare total is
+ * split using the estimated prompt size, and with no usage at all the output
+ * text is counted locally. Cache hits cost nothing.
+ */
+export function reconcileCost(
+  providerId: ProviderId,
+  model: string,
+  estimated: CostBreakdown,
+  response: Pick<AIResponse, "content" | "usage" | "tokensUsed" | "cached">
+): CostReport {
+  const usage = response.usage;
+  const total = usage?.totalTokens ?? response.tokensUsed;
+  let inputTokens = usage?.inputTokens;
+  let outputTokens = usage?.outputTokens;
+  if (inputTokens === undefined && outputTokens !== undefined && total !== undefined) {
+    inputTokens = Math.max(0, total - outputTokens);
+  }
+  if (outputTokens === undefined && total !== undefined) {
+    outputTokens = Math.max(0, total - (inputTokens ?? estimated.inputTokens));
+  }
+  const measured = outputTokens !== undefined;
+  const actual = priceTokens(
+    providerId,
+    model,
+    inputTokens ?? estimated.inputTokens,
+    outputTokens ?? countTokens(response.content)
+  );
+  return { estimated, actual: response.cached ? { ...actual, cost: 0 } : actual, measured };
+}
+
+/** Sums multi-pass reports; the result only counts as measured when every pass was. */
+export function addCost(total: CostReport | undefined, next: CostReport | undefined): CostReport | undefined {
+  if (!total || !next) return total ?? next;
+  const add = (a: CostBreakdown, b: CostBreakdown): CostBreakdown => ({
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cost: a.cost + b.cost,
+  });
+  return {
+    estimated: add(total.estimated, next.estimated),
+    actual: add(total.actual, next.actual),
+    measured: total.measured && next.measured,
+  };
+}
+
+/** Sub-cent amounts keep enough digits to compare cheap models. */
+export function formatCost(cost: number) {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
+}
@@ -1,37 +1,163 @@
-import { StoryMetadata } from "../../context/WorkspaceContext";
-
-export function composeStorySystemPrompt(metadata: StoryMetadata): string {
-  return [
-    "You are Dreamscribe, an AI co-author who crafts immersive fiction while respecting the author's voice.",
-    "Write with cinematic detail, grounded emotions, and coherent pacing.",
-    `Tone guidance: ${metadata.tone}`,
-    `Genre: ${metadata.genre}`,
-    `Narrative perspective: ${metadata.perspective}`,
-    "Structure scenes with clear beats, rising tension, and satisfying payoff.",
-  ].join(" ");
-}
-
-export function composeStoryUserPrompt(metadata: StoryMetadata, authorPrompt: string): string {
-  return [
-    `Title: ${metadata.title || "Untitled"}`,
-    `Target length: ${lengthLabel(metadata.targetLength)}`,
-    "Author instructions:",
-    authorPrompt.trim(),
-  ].join("\n\n");
-}
-
-export function composeFeedbackPrompt(metadata: StoryMetadata, draft: string, instruction: string): string {
-  return [
-    "You are a developmental editor critiquing a work in progress.",
-    `Story title: ${metadata.title}`,
-    `Genre: ${metadata.genre}`,
-    `Tone: ${metadata.tone}`,
-    "First provide a concise summary of your feedback, then bullet actionable revisions. Quote lines where useful.",
-    "Draft:",
+import { ContinuityEntry, StoryMetadata } from "../../context/WorkspaceContext";
+import type { FeedbackFormat } from "../clients/base";
+import { PromptTemplateKind, TemplateValues, renderActiveTemplate } from "./templates";
+
+/** Values every template can use: the story metadata plus any tracked continuity notes. */
+export function storyTemplateValues(metadata: StoryMetadata, continuity = ""): TemplateValues {
+  return {
+    title: metadata.title || "Untitled",
+    genre: metadata.genre,
+    tone: metadata.tone,
+    perspective: metadata.perspective,
+    continuity,
+  };
+}
+
+/** One line per Continuity Coach entry, in the form templates receive as `{{continuity}}`. */
+export function composeContinuityNotes(entries: ContinuityEntry[]): string {
+  return entries
+    .map((entry) => {
+      const traits = entry.traits.length ? ` (${entry.traits.join(", ")})` : "";
+      const summary = entry.summary.trim() ? `: ${entry.summary.trim()}` : "";
+      return `- ${entry.label} [${entry.type}]${traits}${summary}`;
+    })
+    .join("\n");
+}
+
+export function composeStorySystemPrompt(metadata: StoryMetadata, continuity = ""): string {
+  return renderActiveTemplate("story-system", storyTemplateValues(metadata, continuity));
+}
+
+export function composeStoryUserPrompt(metadata: StoryMetadata, authorPrompt: string, continuity = ""): string {
+  return renderActiveTemplate("story-user", {
+    ...storyTemplateValues(metadata, continuity),
+    prompt: authorPrompt,
+    length: lengthLabel(metadata.targetLength),
+  });
+}
+
+export function composeContinuationPrompt(
+  metadata: StoryMetadata,
+  draft: string,
+  words: number,
+  direction: string,
+  trimmed = false,
+  continuity = ""
+): string {
+  return renderActiveTemplate("continuation", {
+    ...storyTemplateValues(metadata, continuity),
+    draft,
+    words: String(words),
+    prompt: direction,
+    trimmed: trimmed ? "earlier chapters omitted" : "",
+  });
+}
+
+export const FEEDBACK_JSON_INSTRUCTIONS = [
+  "Respond with a single JSON object and nothing else, in this shape:",
+  '{"summary": string, "issues": [{"severity": "minor" | "moderate" | "major", "category": string, "comment": string, "quote": string, "replacement": string}]}',
+  "Each quote must be copied exactly from the draft: a phrase or sentence, never a whole paragraph. replacement is the rewritten text for that quote, or an empty string when the note has no concrete rewrite. List at most 12 issues, most important first.",
+].join("\n");
+
+export const FEEDBACK_TEXT_INSTRUCTIONS =
+  "First provide a concise summary of your feedback, then bullet actionable revisions. Quote lines where useful.";
+
+export function composeFeedbackPrompt(
+  metadata: StoryMetadata,
+  draft: string,
+  instruction: string,
+  format: FeedbackFormat = "text",
+  continuity = ""
+): string {
+  return renderActiveTemplate("feedback", {
+    ...storyTemplateValues(metadata, continuity),
     draft,
-    "Feedback focus:",
     instruction,
-  ].join("\n\n");
+    format: format === "json" ? FEEDBACK_JSON_INSTRUCTIONS : FEEDBACK_TEXT_INSTRUCTIONS,
+  });
+}
+
+export type InstructionTemplateKind = Extract<PromptTemplateKind, `focus-${string}` | `pass-${string}` | `edit-${string}`>;
+
+/**
+ * Feedback focus, revision pass and selection edit instructions, which become
+ * `{{instruction}}` in the feedback template. `prompt` is the author's own
+ * wording, such as the tone a selection should take.
+ */
+export function composeInstruction(kind: InstructionTemplateKind, metadata: StoryMetadata, continuity = "", prompt = ""): string {
+  return renderActiveTemplate(kind, { ...storyTemplateValues(metadata, continuity), prompt });
+}
+
+/** Scopes an edit instruction to a selected passage, with the text around it for context. */
+export function composeSelectionInstruction(
+  metadata: StoryMetadata,
+  instruction: string,
+  before: string,
+  after: string,
+  continuity = ""
+): string {
+  return renderActiveTemplate("selection-edit", { ...storyTemplateValues(metadata, continuity), instruction, before, after });
+}
+
+/** Narrows `instruction` to one section of a draft too long for a single request. */
+export function composeSectionInstruction(metadata: StoryMetadata, instruction: string, section: string, continuity = ""): string {
+  return renderActiveTemplate("section-wrapper", { ...storyTemplateValues(metadata, continuity), instruction, section });
+}
+
+/** Instruction for the call that merges per-section feedback; the section notes go in as the draft. */
+export function composeSynthesisInstruction(metadata: StoryMetadata, instruction: string, continuity = ""): string {
+  return renderActiveTemplate("section-synthesis", { ...storyTemplateValues(metadata, continuity), instruction });
+}
+
+export interface TemplatePreviewInput {
+  metadata: StoryMetadata;
+  draft: string;
+  prompt: string;
+  continuity: string;
+}
+
+/** Every value a template of `kind` can receive, filled from the current draft so editors can preview it. */
+export function previewTemplateValues(kind: PromptTemplateKind, input: TemplatePreviewInput): TemplateValues {
+  const values = storyTemplateValues(input.metadata, input.continuity);
+  switch (kind) {
+    case "story-user":
+      return { ...values, prompt: input.prompt, length: lengthLabel(input.metadata.targetLength) };
+    case "continuation":
+      return { ...values, draft: input.draft, prompt: input.prompt, words: "400", trimmed: "" };
+    case "feedback":
+      return {
+        ...values,
+        draft: input.draft,
+        instruction: renderActiveTemplate("focus-flow", values),
+        format: FEEDBACK_JSON_INSTRUCTIONS,
+      };
+    case "edit-tone":
+      return { ...values, prompt: "wry and understated" };
+    case "selection-edit":
+      return {
+        ...values,
+        instruction: renderActiveTemplate("edit-rewrite", values),
+        before: input.draft.slice(0, 200),
+        after: input.draft.slice(400, 600),
+      };
+    case "section-wrapper":
+      return { ...values, section: "section 2 of 5", instruction: renderActiveTemplate("focus-flow", values) };
+    case "section-synthesis":
+      return { ...values, instruction: renderActiveTemplate("focus-flow", values) };
+    default:
+      return values;
+  }
+}
+
+/** Word counts behind each `lengthLabel`; long form has no upper bound. */
+export const LENGTH_TARGETS: Record<StoryMetadata["targetLength"], { min: number; max?: number }> = {
+  short: { min: 500, max: 1000 },
+  medium: { min: 1000, max: 3000 },
+  long: { min: 3000 },
+};
+
+export function targetWordCount(length: StoryMetadata["targetLength"]): number {
+  return LENGTH_TARGETS[length]?.min ?? 800;
 }
 
 function lengthLabel(length: StoryMetadata["targetLength"]): string {
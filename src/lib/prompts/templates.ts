@@ -0,0 +1,459 @@
+import { generateId } from "../../utils/crypto";
+
+export type PromptTemplateKind =
+  | "story-system"
+  | "story-user"
+  | "continuation"
+  | "feedback"
+  | "focus-grammar"
+  | "focus-dialogue"
+  | "focus-flow"
+  | "pass-sensory"
+  | "pass-dialogue"
+  | "pass-pacing"
+  | "edit-rewrite"
+  | "edit-expand"
+  | "edit-condense"
+  | "edit-tone"
+  | "selection-edit"
+  | "section-wrapper"
+  | "section-synthesis";
+
+export type TemplateVariable =
+  | "title"
+  | "genre"
+  | "tone"
+  | "perspective"
+  | "continuity"
+  | "draft"
+  | "prompt"
+  | "length"
+  | "words"
+  | "trimmed"
+  | "instruction"
+  | "format"
+  | "section"
+  | "before"
+  | "after";
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+export const TEMPLATE_VARIABLES: Record<TemplateVariable, string> = {
+  title: "Story title, or “Untitled”.",
+  genre: "Genre from the story metadata.",
+  tone: "Tone from the story metadata.",
+  perspective: "Narrative perspective from the story metadata, or the chapter's or scene's own when it sets one.",
+  continuity:
+    "Continuity Coach entries, one per line, then where the scene sits in the manuscript and its neighbours' summaries. Empty when neither applies.",
+  draft: "The draft text, or the tail of it a continuation sends.",
+  prompt: "The author's instructions or continuation direction.",
+  length: "Target length label, e.g. “Short story (1,000-3,000 words)”.",
+  words: "Words of new prose a continuation asks for.",
+  trimmed: "“earlier chapters omitted” when the draft was cut to fit, otherwise empty.",
+  instruction: "The feedback focus, or the pass instruction for revision passes.",
+  format: "Reply format rules; structured feedback relies on them.",
+  section: "Which part of a long draft a request covers, e.g. “section 2 of 5 (Chapter Two)”.",
+  before: "The scene text just before a selected passage, or empty at the start of the scene.",
+  after: "The scene text just after a selected passage, or empty at the end of the scene.",
+};
+
+const STORY_VARIABLES: TemplateVariable[] = ["title", "genre", "tone", "perspective", "continuity"];
+
+export interface TemplateKindInfo {
+  label: string;
+  description: string;
+  variables: TemplateVariable[];
+  /** Variables the request cannot work without; templates missing one are rejected. */
+  required: TemplateVariable[];
+  defaultBody: string;
+}
+
+export const TEMPLATE_KINDS: Record<PromptTemplateKind, TemplateKindInfo> = {
+  "story-system": {
+    label: "Story system prompt",
+    description: "Sets the co-author persona for new drafts and continuations.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody: [
+      "You are Dreamscribe, an AI co-author who crafts immersive fiction while respecting the author's voice. Write with cinematic detail, grounded emotions, and coherent pacing. Tone guidance: {{tone}} Genre: {{genre}} Narrative perspective: {{perspective}} Structure scenes with clear beats, rising tension, and satisfying payoff.{{#continuity}}",
+      "",
+      "Continuity notes to respect:",
+      "{{continuity}}{{/continuity}}",
+    ].join("\n"),
+  },
+  "story-user": {
+    label: "Story request",
+    description: "The message that asks for a new draft.",
+    variables: [...STORY_VARIABLES, "prompt", "length"],
+    required: ["prompt"],
+    defaultBody: ["Title: {{title}}", "Target length: {{length}}", "Author instructions:", "{{prompt}}"].join("\n\n"),
+  },
+  continuation: {
+    label: "Continuation request",
+    description: "Asks for new prose after the end of the current draft.",
+    variables: [...STORY_VARIABLES, "draft", "prompt", "words", "trimmed"],
+    required: ["draft"],
+    defaultBody: [
+      "Title: {{title}}",
+      "Continue the story with roughly {{words}} words of new prose. Pick up exactly where the draft stops, keep the same voice and tense, and do not repeat, summarise or rewrite earlier text. Do not add a title or commentary.",
+      "The draft so far{{#trimmed}} ({{trimmed}}){{/trimmed}}:",
+      "{{draft}}{{#prompt}}",
+      "Direction for the next passage:\n{{prompt}}{{/prompt}}",
+    ].join("\n\n"),
+  },
+  feedback: {
+    label: "Feedback request",
+    description: "Wraps every feedback and revision pass request.",
+    variables: [...STORY_VARIABLES, "draft", "instruction", "format"],
+    required: ["draft", "instruction", "format"],
+    defaultBody: [
+      "You are a developmental editor critiquing a work in progress.",
+      "Story title: {{title}}",
+      "Genre: {{genre}}",
+      "Tone: {{tone}}{{#continuity}}",
+      "Continuity notes:\n{{continuity}}{{/continuity}}",
+      "{{format}}",
+      "Draft:",
+      "{{draft}}",
+      "Feedback focus:",
+      "{{instruction}}",
+    ].join("\n\n"),
+  },
+  "focus-grammar": {
+    label: "Feedback focus: grammar",
+    description: "Instruction sent for grammar feedback.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody: "Provide grammar, spelling, and clarity adjustments. Highlight concrete edits.",
+  },
+  "focus-dialogue": {
+    label: "Feedback focus: dialogue",
+    description: "Instruction sent for dialogue feedback.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody: "Evaluate dialogue authenticity, subtext, and pacing. Suggest specific line edits.",
+  },
+  "focus-flow": {
+    label: "Feedback focus: flow",
+    description: "Instruction sent for structure and flow feedback.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody: "Analyze story structure, pacing, and transitions. Recommend improvements.",
+  },
+  "pass-sensory": {
+    label: "Pass: sensory detail",
+    description: "Instruction for the sensory detail revision pass.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody:
+      "Enhance the provided excerpt by weaving in vivid sensory details across sight, sound, smell, taste, and touch. Preserve plot, character voice, and approximate length. Return the rewritten passage only.",
+  },
+  "pass-dialogue": {
+    label: "Pass: dialogue polish",
+    description: "Instruction for the dialogue polish revision pass.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody:
+      "Review the excerpt and return a refined version that tightens dialogue, strengthens subtext, and keeps character voices consistent. Maintain story beats and format.",
+  },
+  "pass-pacing": {
+    label: "Pass: pacing tighten",
+    description: "Instruction for the pacing revision pass.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody:
+      "Identify sluggish portions of the excerpt and rewrite them for brisker pacing while preserving essential information. Respond with the adjusted prose and brief inline notes for major cuts.",
+  },
+  "edit-rewrite": {
+    label: "Selection: rewrite",
+    description: "Instruction for rewriting a selected passage.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody:
+      "Rewrite the passage to read more vividly and smoothly. Keep its events, meaning, point of view and approximate length.",
+  },
+  "edit-expand": {
+    label: "Selection: expand",
+    description: "Instruction for expanding a selected passage.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody:
+      "Expand the passage to roughly twice its length with concrete detail, interiority and beats that fit the scene. Do not move the story past where the passage ends.",
+  },
+  "edit-condense": {
+    label: "Selection: condense",
+    description: "Instruction for condensing a selected passage.",
+    variables: STORY_VARIABLES,
+    required: [],
+    defaultBody:
+      "Condense the passage to about half its length. Keep every plot point and the strongest lines; cut repetition and filler.",
+  },
+  "edit-tone": {
+    label: "Selection: change tone",
+    description: "Instruction for shifting a selected passage to another tone; {{prompt}} is the tone the author asked for.",
+    variables: [...STORY_VARIABLES, "prompt"],
+    required: ["prompt"],
+    defaultBody: "Rewrite the passage in this tone: {{prompt}}. Keep its events and approximate length.",
+  },
+  "selection-edit": {
+    label: "Selection edit request",
+    description: "Wraps the instruction for a selected passage; the passage itself is sent as the draft.",
+    variables: [...STORY_VARIABLES, "instruction", "before", "after"],
+    required: ["instruction"],
+    defaultBody: [
+      "The draft below is one passage the author selected inside a scene. Work on that passage only; it will replace the selection word for word.{{#before}}",
+      "It comes right after:\n{{before}}{{/before}}{{#after}}",
+      "It is followed by:\n{{after}}{{/after}}",
+      "{{instruction}}",
+      "Reply with the replacement passage only: no title, notes, quotation marks or commentary.",
+    ].join("\n\n"),
+  },
+  "section-wrapper": {
+    label: "Long drafts: per-section instruction",
+    description: "Wraps the feedback focus or pass instruction when a long draft is sent one section at a time.",
+    variables: [...STORY_VARIABLES, "section", "instruction"],
+    required: ["section", "instruction"],
+    defaultBody: [
+      "The draft below is {{section}} of a longer manuscript; the other sections are handled separately. Work on this section only and do not summarise the rest of the story.",
+      "{{instruction}}",
+    ].join("\n\n"),
+  },
+  "section-synthesis": {
+    label: "Long drafts: feedback synthesis",
+    description: "Merges per-section feedback on a long draft into one overall assessment.",
+    variables: [...STORY_VARIABLES, "instruction"],
+    required: [],
+    defaultBody: [
+      "The draft below is not prose: it is an editor's notes on a long manuscript, one block per section in story order.",
+      "Write one assessment of the whole manuscript in two to four short paragraphs. Lead with problems that recur across sections, then strengths worth keeping, then anything that only shows up when the sections are read together, such as pacing across chapters or threads that are dropped. Refer to sections by number. Do not repeat individual line edits.",
+      "{{#instruction}}The original focus was: {{instruction}}{{/instruction}}",
+    ].join("\n\n"),
+  },
+};
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  kind: PromptTemplateKind;
+  name: string;
+  /** Oldest first; the last entry is the one in use. */
+  versions: PromptTemplateVersion[];
+  builtIn?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateLibrary {
+  templates: PromptTemplate[];
+  /** Selected template per kind; kinds without an entry use the built-in default. */
+  active: Partial<Record<PromptTemplateKind, string>>;
+}
+
+export interface TemplateValidation {
+  valid: boolean;
+  /** Placeholders this kind of template has no value for. */
+  unknown: string[];
+  missing: TemplateVariable[];
+  syntax: string[];
+}
+
+const STORAGE_TEMPLATES_KEY = "sf:prompt-templates";
+const EMPTY_LIBRARY: PromptTemplateLibrary = { templates: [], active: {} };
+const BUILT_IN_DATE = new Date(0).toISOString();
+
+let currentLibrary: PromptTemplateLibrary | null = null;
+
+export function getTemplateLibrary(): PromptTemplateLibrary {
+  if (!currentLibrary) {
+    try {
+      const stored = localStorage.getItem(STORAGE_TEMPLATES_KEY);
+      currentLibrary = stored ? { ...EMPTY_LIBRARY, ...(JSON.parse(stored) as Partial<PromptTemplateLibrary>) } : EMPTY_LIBRARY;
+    } catch (error) {
+      console.error(`Failed to parse ${STORAGE_TEMPLATES_KEY}`, error);
+      currentLibrary = EMPTY_LIBRARY;
+    }
+  }
+  return currentLibrary;
+}
+
+function setTemplateLibrary(library: PromptTemplateLibrary) {
+  currentLibrary = library;
+  localStorage.setItem(STORAGE_TEMPLATES_KEY, JSON.stringify(library));
+  return library;
+}
+
+export function builtInTemplate(kind: PromptTemplateKind): PromptTemplate {
+  return {
+    id: `builtin:${kind}`,
+    kind,
+    name: "Default",
+    versions: [{ version: 1, body: TEMPLATE_KINDS[kind].defaultBody, createdAt: BUILT_IN_DATE }],
+    builtIn: true,
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  };
+}
+
+export function latestVersion(template: PromptTemplate): PromptTemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+/** The built-in default first, then the user's templates for `kind`. */
+export function listTemplates(kind: PromptTemplateKind): PromptTemplate[] {
+  return [builtInTemplate(kind), ...getTemplateLibrary().templates.filter((template) => template.kind === kind)];
+}
+
+export function getActiveTemplate(kind: PromptTemplateKind): PromptTemplate {
+  const id = getTemplateLibrary().active[kind];
+  return listTemplates(kind).find((template) => template.id === id) ?? builtInTemplate(kind);
+}
+
+export function setActiveTemplate(kind: PromptTemplateKind, templateId: string) {
+  const library = getTemplateLibrary();
+  const active = { ...library.active };
+  if (templateId === builtInTemplate(kind).id) {
+    delete active[kind];
+  } else {
+    active[kind] = templateId;
+  }
+  return setTemplateLibrary({ ...library, active });
+}
+
+function assertValid(kind: PromptTemplateKind, body: string) {
+  const validation = validateTemplate(kind, body);
+  if (!validation.valid) {
+    throw new Error(describeValidation(validation).join(" "));
+  }
+}
+
+export function createTemplate(kind: PromptTemplateKind, name: string, body: string): PromptTemplate {
+  assertValid(kind, body);
+  const now = new Date().toISOString();
+  const template: PromptTemplate = {
+    id: generateId("tpl"),
+    kind,
+    name: name.trim() || "Untitled template",
+    versions: [{ version: 1, body, createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  const library = getTemplateLibrary();
+  setTemplateLibrary({ ...library, templates: [...library.templates, template] });
+  return template;
+}
+
+/**
+ * Saves `body` as a new version of a user template. Earlier versions are kept
+ * so they can be restored; saving an unchanged body only updates the name.
+ */
+export function saveTemplateVersion(templateId: string, body: string, name?: string): PromptTemplate {
+  const library = getTemplateLibrary();
+  const existing = library.templates.find((template) => template.id === templateId);
+  if (!existing) {
+    throw new Error("Built-in templates cannot be edited; save a copy instead.");
+  }
+  assertValid(existing.kind, body);
+  const now = new Date().toISOString();
+  const latest = latestVersion(existing);
+  const updated: PromptTemplate = {
+    ...existing,
+    name: name?.trim() || existing.name,
+    versions:
+      latest.body === body ? existing.versions : [...existing.versions, { version: latest.version + 1, body, createdAt: now }],
+    updatedAt: now,
+  };
+  setTemplateLibrary({
+    ...library,
+    templates: library.templates.map((template) => (template.id === templateId ? updated : template)),
+  });
+  return updated;
+}
+
+export function deleteTemplate(templateId: string) {
+  const library = getTemplateLibrary();
+  const active = Object.fromEntries(
+    Object.entries(library.active).filter(([, id]) => id !== templateId)
+  ) as PromptTemplateLibrary["active"];
+  return setTemplateLibrary({ templates: library.templates.filter((template) => template.id !== templateId), active });
+}
+
+const TOKEN_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Fills `{{name}}` placeholders. `{{#name}}…{{/name}}` keeps its contents only
+ * when `name` has a value, so optional sections disappear cleanly. Runs of
+ * blank lines left behind by empty values are collapsed; the values
+ * themselves (the draft in particular) are inserted untouched.
+ */
+export function renderTemplate(body: string, values: TemplateValues): string {
+  const lookup = (name: string) => (values[name as TemplateVariable] ?? "").trim();
+  const filled: string[] = [];
+  const withSections = body.replace(/\{\{\s*#\s*(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}/g, (_, name: string, inner: string) =>
+    lookup(name) ? inner : ""
+  );
+  return withSections
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+      const value = lookup(name);
+      if (!value) return "";
+      filled.push(value);
+      return `\u0000${filled.length - 1}\u0000`;
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => filled[Number(index)]);
+}
+
+export function validateTemplate(kind: PromptTemplateKind, body: string): TemplateValidation {
+  const info = TEMPLATE_KINDS[kind];
+  const unknown = new Set<string>();
+  const used = new Set<string>();
+  const syntax: string[] = [];
+  const open: string[] = [];
+
+  for (const match of body.matchAll(TOKEN_PATTERN)) {
+    const [token, marker, name] = match;
+    if (!/^\w+$/.test(name)) {
+      syntax.push(`“${token}” is not a valid placeholder.`);
+      continue;
+    }
+    if (!info.variables.includes(name as TemplateVariable)) unknown.add(name);
+    if (marker === "#") {
+      open.push(name);
+    } else if (marker === "/") {
+      const expected = open.pop();
+      if (expected !== name) {
+        syntax.push(expected ? `“{{/${name}}}” closes “{{#${expected}}}”.` : `“{{/${name}}}” has no matching “{{#${name}}}”.`);
+        if (expected) open.push(expected);
+      }
+    } else {
+      used.add(name);
+    }
+  }
+  open.forEach((name) => syntax.push(`“{{#${name}}}” is never closed.`));
+
+  const stray = body.replace(TOKEN_PATTERN, "");
+  if (stray.includes("{{") || stray.includes("}}")) {
+    syntax.push("Unbalanced “{{” or “}}”.");
+  }
+
+  const missing = info.required.filter((name) => !used.has(name));
+  return { valid: !unknown.size && !missing.length && !syntax.length, unknown: [...unknown], missing, syntax };
+}
+
+export function describeValidation(validation: TemplateValidation): string[] {
+  return [
+    ...validation.unknown.map((name) => `Unknown variable {{${name}}}.`),
+    ...validation.missing.map((name) => `Missing required variable {{${name}}}.`),
+    ...validation.syntax,
+  ];
+}
+
+export function renderActiveTemplate(kind: PromptTemplateKind, values: TemplateValues): string {
+  return renderTemplate(latestVersion(getActiveTemplate(kind)).body, values);
+}
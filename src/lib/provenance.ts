@@ -0,0 +1,72 @@
+import type { ProvenanceKind, ProvenanceRecord } from "../context/WorkspaceContext";
+import { formatCost } from "./pricing";
+
+export const PROVENANCE_KIND_LABELS: Record<ProvenanceKind, string> = {
+  generation: "Story generated",
+  continuation: "Draft continued",
+  "ab-variant": "A/B variant adopted",
+  "sensory-pass": "Sensory pass adopted",
+  suggestion: "Suggestion accepted",
+  rewrite: "Selection rewritten",
+};
+
+/** Published with a story: which models wrote how much of it, without the prompts. */
+export interface ProvenanceSummary {
+  /** AI-produced changes recorded on the draft. */
+  changes: number;
+  /** One entry per provider and model, most used first. */
+  models: Array<{ providerLabel: string; model?: string; changes: number }>;
+  presets: string[];
+  inputTokens: number;
+  outputTokens: number;
+  /** USD. */
+  cost: number;
+  /** Words of model text brought into the draft, before any later human edits. */
+  words: number;
+  firstAt: string;
+  lastAt: string;
+}
+
+/** "Anthropic · claude-3-5-sonnet · Balanced preset · 812 tokens · failed over from OpenAI" */
+export function describeProvenance(record: ProvenanceRecord) {
+  const tokens = (record.inputTokens ?? 0) + (record.outputTokens ?? 0);
+  return [
+    record.providerLabel,
+    record.model,
+    record.presetName && `${record.presetName} preset`,
+    record.words !== undefined && `${record.words.toLocaleString()} words`,
+    tokens > 0 && `${tokens.toLocaleString()} tokens`,
+    record.cost !== undefined && record.cost > 0 && formatCost(record.cost),
+    record.cached && "from cache",
+    record.failoverFrom && `failed over from ${record.failoverFrom}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Returns undefined for drafts with no recorded model output. */
+export function summariseProvenance(records: ProvenanceRecord[]): ProvenanceSummary | undefined {
+  if (!records.length) return undefined;
+  const models = new Map<string, ProvenanceSummary["models"][number]>();
+  const presets = new Set<string>();
+  records.forEach((record) => {
+    const key = `${record.providerLabel}\u0000${record.model ?? ""}`;
+    const entry = models.get(key) ?? { providerLabel: record.providerLabel, model: record.model, changes: 0 };
+    entry.changes += 1;
+    models.set(key, entry);
+    if (record.presetName) presets.add(record.presetName);
+  });
+  const sum = (pick: (record: ProvenanceRecord) => number | undefined) =>
+    records.reduce((total, record) => total + (pick(record) ?? 0), 0);
+  return {
+    changes: records.length,
+    models: Array.from(models.values()).sort((a, b) => b.changes - a.changes),
+    presets: Array.from(presets),
+    inputTokens: sum((record) => record.inputTokens),
+    outputTokens: sum((record) => record.outputTokens),
+    cost: sum((record) => record.cost),
+    words: sum((record) => record.words),
+    firstAt: records[0].createdAt,
+    lastAt: records[records.length - 1].createdAt,
+  };
+}
@@ -0,0 +1,231 @@
+import type { AIResponse } from "./clients/base";
+
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  enabled: false,
+  maxEntries: 200,
+  maxBytes: 5 * 1024 * 1024,
+};
+
+export type CachedRequestKind = "story" | "feedback";
+
+export interface CacheEntrySummary {
+  key: string;
+  kind: CachedRequestKind;
+  providerId: string;
+  model: string;
+  bytes: number;
+  hits: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+}
+
+interface CacheRecord extends Omit<CacheEntrySummary, "lastUsedAt"> {
+  /** Epoch milliseconds, indexed so eviction can walk least recently used first. */
+  lastUsedAt: number;
+  response: AIResponse;
+}
+
+const STORAGE_CACHE_KEY = "sf:response-cache";
+const DB_NAME = "dreamscribe-cache";
+const STORE = "responses";
+const LAST_USED_INDEX = "lastUsedAt";
+
+let currentConfig: ResponseCacheConfig | null = null;
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function getResponseCacheConfig(): ResponseCacheConfig {
+  if (!currentConfig) {
+    try {
+      const stored = localStorage.getItem(STORAGE_CACHE_KEY);
+      currentConfig = stored
+        ? { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...(JSON.parse(stored) as Partial<ResponseCacheConfig>) }
+        : DEFAULT_RESPONSE_CACHE_CONFIG;
+    } catch (error) {
+      console.error(`Failed to parse ${STORAGE_CACHE_KEY}`, error);
+      currentConfig = DEFAULT_RESPONSE_CACHE_CONFIG;
+    }
+  }
+  return currentConfig;
+}
+
+export function setResponseCacheConfig(config: ResponseCacheConfig) {
+  currentConfig = config;
+  localStorage.setItem(STORAGE_CACHE_KEY, JSON.stringify(config));
+  if (config.enabled) {
+    void enforceLimits().catch((error) => console.warn("Response cache eviction failed", error));
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "key" });
+        store.createIndex(LAST_USED_INDEX, LAST_USED_INDEX);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/** Trims and collapses whitespace in strings and sorts object keys, so cosmetic differences hash alike. */
+function normalise(value: unknown): unknown {
+  if (typeof value === "string") return value.replace(/\r\n?/g, "\n").replace(/[ \t]+/g, " ").trim();
+  if (Array.isArray(value)) return value.map(normalise);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, normalise((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value ?? null;
+}
+
+/** FNV-1a with two seeds; only used where SubtleCrypto is missing (plain-http origins). */
+function fallbackHash(input: string) {
+  return [0x811c9dc5, 0x01000193]
+    .map((seed) => {
+      let hash = seed;
+      for (let index = 0; index < input.length; index += 1) {
+        hash ^= input.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+      }
+      return (hash >>> 0).toString(16).padStart(8, "0");
+    })
+    .join("");
+}
+
+export async function responseCacheKey(parts: Record<string, unknown>): Promise<string> {
+  const serialised = JSON.stringify(normalise(parts));
+  if (typeof crypto === "undefined" || !crypto.subtle) return `fnv:${fallbackHash(serialised)}`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(serialised));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Returns the stored response and bumps its recency, or null on a miss. */
+export async function readCachedResponse(key: string): Promise<AIResponse | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  const record = (await promisify(store.get(key))) as CacheRecord | undefined;
+  if (!record) return null;
+  store.put({ ...record, hits: record.hits + 1, lastUsedAt: Date.now() });
+  await transactionDone(transaction);
+  return record.response;
+}
+
+export async function writeCachedResponse(
+  key: string,
+  meta: Pick<CacheEntrySummary, "kind" | "providerId" | "model">,
+  response: AIResponse
+) {
+  // Raw payloads can be large and are only useful for debugging the original call.
+  const { raw: _raw, ...stored } = response;
+  const bytes = new Blob([JSON.stringify(stored)]).size;
+  const config = getResponseCacheConfig();
+  if (bytes > config.maxBytes) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  const record: CacheRecord = {
+    key,
+    ...meta,
+    bytes,
+    hits: 0,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: Date.now(),
+    response: stored,
+  };
+  transaction.objectStore(STORE).put(record);
+  await transactionDone(transaction);
+  await enforceLimits();
+}
+
+/** Deletes least recently used entries until both the entry and byte limits hold. */
+async function enforceLimits() {
+  const { maxEntries, maxBytes } = getResponseCacheConfig();
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  const records = (await promisify(store.index(LAST_USED_INDEX).getAll())) as CacheRecord[];
+  let entries = records.length;
+  let bytes = records.reduce((total, record) => total + record.bytes, 0);
+  for (const record of records) {
+    if (entries <= maxEntries && bytes <= maxBytes) break;
+    store.delete(record.key);
+    entries -= 1;
+    bytes -= record.bytes;
+  }
+  await transactionDone(transaction);
+}
+
+export async function listCacheEntries(): Promise<CacheEntrySummary[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readonly");
+  const records = (await promisify(transaction.objectStore(STORE).index(LAST_USED_INDEX).getAll())) as CacheRecord[];
+  return records
+    .reverse()
+    .map(({ response: _response, lastUsedAt, ...summary }) => ({ ...summary, lastUsedAt: new Date(lastUsedAt).toISOString() }));
+}
+
+export async function getResponseCacheStats(): Promise<ResponseCacheStats> {
+  const entries = await listCacheEntries();
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((total, entry) => total + entry.bytes, 0),
+    hits: entries.reduce((total, entry) => total + entry.hits, 0),
+  };
+}
+
+export async function deleteCacheEntry(key: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  transaction.objectStore(STORE).delete(key);
+  await transactionDone(transaction);
+}
+
+export async function clearResponseCache() {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  transaction.objectStore(STORE).clear();
+  await transactionDone(transaction);
+}
@@ -0,0 +1,163 @@
+import { generateId } from "../utils/crypto";
+import { countWords } from "./continuation";
+
+export type RevisionCause =
+  | "original"
+  | "generate"
+  | "continue"
+  | "adopt-variant"
+  | "sensory-pass"
+  | "suggestion"
+  | "manual"
+  | "memory"
+  | "restore"
+  | "merge"
+  | "rewrite";
+
+export const REVISION_CAUSE_LABELS: Record<RevisionCause, string> = {
+  original: "Earlier text",
+  generate: "Generated",
+  continue: "Continued",
+  "adopt-variant": "A/B variant adopted",
+  "sensory-pass": "Sensory pass adopted",
+  suggestion: "Suggestion accepted",
+  manual: "Manual edit",
+  memory: "Memory input",
+  restore: "Restored",
+  merge: "Merged from a branch",
+  rewrite: "Selection rewritten",
+};
+
+/** Replace `remove` characters at `at` with `insert`. */
+export interface RevisionDelta {
+  at: number;
+  remove: number;
+  insert: string;
+}
+
+export interface DraftRevision {
+  id: string;
+  createdAt: string;
+  cause: RevisionCause;
+  /** Set by the author to find a revision again. */
+  label?: string;
+  words: number;
+  /** Full text; every revision without one stores a delta from the revision before it. */
+  snapshot?: string;
+  delta?: RevisionDelta;
+  /** The provenance record of the AI change that produced this text. */
+  provenanceId?: string;
+  /** For "restore": the revision whose text came back. */
+  restoredFrom?: string;
+  /** When the first edit folded into this revision was made; the coalescing window runs from here. */
+  groupStartedAt?: string;
+}
+
+export type RevisionMeta = Pick<DraftRevision, "cause" | "provenanceId" | "restoredFrom">;
+
+/** A full snapshot at least this often, so reading any revision replays a bounded number of deltas. */
+const CHECKPOINT_EVERY = 20;
+
+/** Oldest revisions are dropped past this. */
+export const MAX_REVISIONS = 100;
+
+/** Typing-driven causes fold into one revision, for at most `COALESCE_MS` from the group's first edit. */
+const COALESCE_CAUSES: RevisionCause[] = ["manual", "memory"];
+const COALESCE_MS = 5 * 60_000;
+
+/** Smallest single replacement that turns `before` into `after`: shared prefix and suffix are kept. */
+export function computeDelta(before: string, after: string): RevisionDelta {
+  let start = 0;
+  const shortest = Math.min(before.length, after.length);
+  while (start < shortest && before[start] === after[start]) start += 1;
+  let end = 0;
+  while (end < shortest - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end += 1;
+  return { at: start, remove: before.length - start - end, insert: after.slice(start, after.length - end) };
+}
+
+export function applyDelta(text: string, delta: RevisionDelta) {
+  return text.slice(0, delta.at) + delta.insert + text.slice(delta.at + delta.remove);
+}
+
+/** Rebuilds the text of `revisions[index]` from the nearest snapshot at or before it. */
+export function revisionContent(revisions: DraftRevision[], index: number): string {
+  let base = index;
+  while (base > 0 && revisions[base].snapshot === undefined) base -= 1;
+  let text = revisions[base]?.snapshot ?? "";
+  for (let position = base + 1; position <= index; position += 1) {
+    const delta = revisions[position].delta;
+    text = delta ? applyDelta(text, delta) : revisions[position].snapshot ?? text;
+  }
+  return text;
+}
+
+function sinceSnapshot(revisions: DraftRevision[]) {
+  let count = 0;
+  for (let index = revisions.length - 1; index >= 0 && revisions[index].snapshot === undefined; index -= 1) count += 1;
+  return count;
+}
+
+function createRevision(revisions: DraftRevision[], content: string, meta: RevisionMeta, now: Date): DraftRevision {
+  const record: DraftRevision = {
+    id: generateId("rev"),
+    createdAt: now.toISOString(),
+    cause: meta.cause,
+    words: countWords(content),
+    provenanceId: meta.provenanceId,
+    restoredFrom: meta.restoredFrom,
+  };
+  if (!revisions.length || sinceSnapshot(revisions) + 1 >= CHECKPOINT_EVERY) {
+    return { ...record, snapshot: content };
+  }
+  return { ...record, delta: computeDelta(revisionContent(revisions, revisions.length - 1), content) };
+}
+
+/** Drafts saved before revisions existed start their history from the text they had. */
+export function seedRevisions(content: string, createdAt: string): DraftRevision[] {
+  return content.trim() ? [createRevision([], content, { cause: "original" }, new Date(createdAt))] : [];
+}
+
+/**
+ * Returns the history with `content` appended as its newest revision, or the
+ * same array when the text has not changed. Consecutive manual or memory
+ * edits within a few minutes replace each other instead of piling up.
+ */
+export function recordRevision(
+  revisions: DraftRevision[],
+  content: string,
+  meta: RevisionMeta,
+  now = new Date()
+): DraftRevision[] {
+  let history = revisions;
+  if (history.length ? revisionContent(history, history.length - 1) === content : !content) return history;
+
+  const last = history[history.length - 1];
+  const groupStartedAt = last?.groupStartedAt ?? last?.createdAt;
+  let revision: DraftRevision;
+  if (
+    last &&
+    groupStartedAt &&
+    last.cause === meta.cause &&
+    COALESCE_CAUSES.includes(meta.cause) &&
+    !last.label &&
+    now.getTime() - new Date(groupStartedAt).getTime() < COALESCE_MS
+  ) {
+    history = history.slice(0, -1);
+    revision = { ...createRevision(history, content, meta, now), groupStartedAt };
+  } else {
+    revision = createRevision(history, content, meta, now);
+  }
+  const next = [...history, revision];
+  if (next.length <= MAX_REVISIONS) return next;
+
+  // The oldest kept revision has nothing before it to apply a delta to.
+  const dropped = next.length - MAX_REVISIONS;
+  const first = next[dropped];
+  const rebased = { ...first, snapshot: revisionContent(next, dropped), delta: undefined };
+  return [rebased, ...next.slice(dropped + 1)];
+}
+
+/** Characters of text the history stores, to compare against keeping a full copy per revision. */
+export function storedCharacters(revisions: DraftRevision[]) {
+  return revisions.reduce((total, revision) => total + (revision.snapshot ?? revision.delta?.insert ?? "").length, 0);
+}
@@ -0,0 +1,228 @@
+import { AIRequestCancelledError } from "./clients/base";
+
+/** Interactive work (the draft the author is watching) always starts before queued background jobs. */
+export type RequestPriority = "interactive" | "normal" | "background";
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, normal: 1, background: 2 };
+
+export interface QueueOptions {
+  priority?: RequestPriority;
+  /** Shown in the request queue, e.g. "A/B · Anthropic". */
+  label?: string;
+  /** Called when the job leaves the queue, so callers can time the request itself rather than the wait. */
+  onStart?: () => void;
+}
+
+export interface RequestLimits {
+  /** Requests allowed in flight at once for the provider. */
+  concurrency: number;
+  /** Estimated tokens (prompt plus output budget) started per rolling minute; 0 means no limit. */
+  tokensPerMinute: number;
+}
+
+export const DEFAULT_REQUEST_LIMITS: RequestLimits = { concurrency: 2, tokensPerMinute: 0 };
+
+export type QueuedJobStatus = "queued" | "running";
+
+export interface QueuedJob {
+  id: string;
+  providerId: string;
+  label: string;
+  priority: RequestPriority;
+  estimatedTokens: number;
+  status: QueuedJobStatus;
+  enqueuedAt: number;
+  startedAt?: number;
+  /** Why a queued job has not started yet. */
+  waitReason?: string;
+}
+
+interface ScheduledJob extends QueuedJob {
+  order: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+export interface ScheduleRequest<T> {
+  providerId: string;
+  estimatedTokens: number;
+  queue?: QueueOptions;
+  signal?: AbortSignal;
+  run: () => Promise<T>;
+}
+
+const STORAGE_LIMITS_KEY = "sf:request-limits";
+const WINDOW_MS = 60_000;
+
+let storedLimits: Record<string, Partial<RequestLimits>> | null = null;
+let jobs: ScheduledJob[] = [];
+let snapshot: QueuedJob[] = [];
+let sequence = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+const tokenWindow = new Map<string, Array<{ at: number; tokens: number }>>();
+const listeners = new Set<() => void>();
+
+function loadLimits() {
+  if (!storedLimits) {
+    try {
+      const stored = localStorage.getItem(STORAGE_LIMITS_KEY);
+      storedLimits = stored ? (JSON.parse(stored) as Record<string, Partial<RequestLimits>>) : {};
+    } catch (error) {
+      console.error(`Failed to parse ${STORAGE_LIMITS_KEY}`, error);
+      storedLimits = {};
+    }
+  }
+  return storedLimits;
+}
+
+export function getRequestLimits(providerId: string): RequestLimits {
+  return { ...DEFAULT_REQUEST_LIMITS, ...loadLimits()[providerId] };
+}
+
+export function hasCustomRequestLimits(providerId: string) {
+  return Boolean(loadLimits()[providerId]);
+}
+
+/** Pass `null` to go back to the defaults. Queued jobs are re-checked against the new limits straight away. */
+export function setRequestLimits(providerId: string, limits: RequestLimits | null) {
+  const next = { ...loadLimits() };
+  if (limits) {
+    next[providerId] = limits;
+  } else {
+    delete next[providerId];
+  }
+  storedLimits = next;
+  localStorage.setItem(STORAGE_LIMITS_KEY, JSON.stringify(next));
+  pump();
+}
+
+function publish() {
+  snapshot = jobs.map(({ start: _start, cancel: _cancel, order: _order, ...job }) => ({ ...job }));
+  listeners.forEach((listener) => listener());
+}
+
+/** For `useSyncExternalStore`: returns the same array until the queue changes. */
+export function getQueueSnapshot(): QueuedJob[] {
+  return snapshot;
+}
+
+export function subscribeToQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function tokensInWindow(providerId: string, now: number) {
+  const recent = (tokenWindow.get(providerId) ?? []).filter((entry) => now - entry.at < WINDOW_MS);
+  tokenWindow.set(providerId, recent);
+  return recent;
+}
+
+/** Starts every job whose provider has a free slot and token budget, highest priority first. */
+function pump() {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  const now = Date.now();
+  let nextWake = Infinity;
+  const blocked = new Set<string>();
+  const queued = jobs
+    .filter((job) => job.status === "queued")
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.order - b.order);
+
+  for (const job of queued) {
+    // Later jobs for a provider never overtake the one at its head, or background work could starve it.
+    if (blocked.has(job.providerId)) {
+      job.waitReason = "Waiting for earlier requests";
+      continue;
+    }
+    const limits = getRequestLimits(job.providerId);
+    const running = jobs.filter((entry) => entry.providerId === job.providerId && entry.status === "running").length;
+    if (running >= limits.concurrency) {
+      job.waitReason = `${running} of ${limits.concurrency} slots busy`;
+      blocked.add(job.providerId);
+      continue;
+    }
+    if (limits.tokensPerMinute > 0) {
+      const recent = tokensInWindow(job.providerId, now);
+      const used = recent.reduce((total, entry) => total + entry.tokens, 0);
+      // A job bigger than the whole budget still runs once the window is empty.
+      if (recent.length && used + job.estimatedTokens > limits.tokensPerMinute) {
+        const resumeAt = recent[0].at + WINDOW_MS;
+        job.waitReason = `Token budget: ${used.toLocaleString()}/${limits.tokensPerMinute.toLocaleString()} per minute`;
+        nextWake = Math.min(nextWake, resumeAt);
+        blocked.add(job.providerId);
+        continue;
+      }
+      recent.push({ at: now, tokens: job.estimatedTokens });
+    }
+    job.status = "running";
+    job.startedAt = now;
+    job.waitReason = undefined;
+    job.start();
+  }
+
+  if (nextWake !== Infinity) {
+    wakeTimer = setTimeout(pump, Math.max(50, nextWake - Date.now()));
+  }
+  publish();
+}
+
+function remove(id: string) {
+  jobs = jobs.filter((job) => job.id !== id);
+  pump();
+}
+
+/**
+ * Runs `request.run` once the provider has a free slot and token budget.
+ * Aborting `signal` (or `cancelQueuedJob`) while the job still waits rejects
+ * with `AIRequestCancelledError`; once running, cancellation is the request's own.
+ */
+export function scheduleRequest<T>(request: ScheduleRequest<T>): Promise<T> {
+  if (request.signal?.aborted) return Promise.reject(new AIRequestCancelledError());
+  sequence += 1;
+  const id = `job_${sequence}`;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      const job = jobs.find((entry) => entry.id === id);
+      if (job?.status === "queued") job.cancel();
+    };
+
+    const job: ScheduledJob = {
+      id,
+      providerId: request.providerId,
+      label: request.queue?.label ?? request.providerId,
+      priority: request.queue?.priority ?? "normal",
+      estimatedTokens: request.estimatedTokens,
+      status: "queued",
+      enqueuedAt: Date.now(),
+      order: sequence,
+      start: () => {
+        request.signal?.removeEventListener("abort", onAbort);
+        request.queue?.onStart?.();
+        request
+          .run()
+          .then(resolve, reject)
+          .finally(() => remove(id));
+      },
+      cancel: () => {
+        request.signal?.removeEventListener("abort", onAbort);
+        reject(new AIRequestCancelledError());
+        remove(id);
+      },
+    };
+
+    request.signal?.addEventListener("abort", onAbort);
+    jobs = [...jobs, job];
+    pump();
+  });
+}
+
+/** Drops a job that has not started yet; running jobs are stopped through their own abort signal. */
+export function cancelQueuedJob(id: string) {
+  const job = jobs.find((entry) => entry.id === id);
+  if (job?.status === "queued") job.cancel();
+}
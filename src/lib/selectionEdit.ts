@@ -0,0 +1,78 @@
+import type { ProvenanceInput } from "../context/WorkspaceContext";
+import { countWords } from "./continuation";
+import { wordsToTokens } from "./pricing";
+import type { InstructionTemplateKind } from "./prompts/storyTemplates";
+import type { RevisionCause } from "./revisions";
+
+export type EditAction = "rewrite" | "expand" | "condense" | "tone" | "custom";
+
+export const EDIT_ACTIONS: Record<EditAction, { label: string; template?: InstructionTemplateKind; needsPrompt?: string }> = {
+  rewrite: { label: "Rewrite", template: "edit-rewrite" },
+  expand: { label: "Expand", template: "edit-expand" },
+  condense: { label: "Condense", template: "edit-condense" },
+  tone: { label: "Change tone", template: "edit-tone", needsPrompt: "Tone, e.g. wry and understated" },
+  custom: { label: "Custom", needsPrompt: "What should change, e.g. make her reply colder" },
+};
+
+/** Characters of scene text sent on each side of a selection so the rewrite fits its surroundings. */
+export const CONTEXT_CHARS = 600;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/** A replacement for one range of a scene, waiting for the author to accept or reject it. */
+export interface RewriteProposal extends TextRange {
+  id: string;
+  draftId: string;
+  sceneId: string;
+  /** The text the range held when the proposal was made. */
+  original: string;
+  replacement: string;
+  label: string;
+  cause: RevisionCause;
+  provenance?: ProvenanceInput;
+}
+
+export function selectionContext(text: string, range: TextRange) {
+  return {
+    before: text.slice(Math.max(0, range.start - CONTEXT_CHARS), range.start),
+    after: text.slice(range.end, range.end + CONTEXT_CHARS),
+  };
+}
+
+/**
+ * Where the proposal's original text is now: the recorded range while it
+ * still holds that text, otherwise its only occurrence in the scene. Null
+ * when the passage was edited away or now appears more than once.
+ */
+export function locateRange(text: string, proposal: Pick<RewriteProposal, "start" | "end" | "original">): TextRange | null {
+  if (text.slice(proposal.start, proposal.end) === proposal.original) return { start: proposal.start, end: proposal.end };
+  const first = text.indexOf(proposal.original);
+  if (first === -1 || text.indexOf(proposal.original, first + 1) !== -1) return null;
+  return { start: first, end: first + proposal.original.length };
+}
+
+/**
+ * Model output tidied to drop in for `original`: code fences and quotes the
+ * passage did not have are removed, and the selection's own leading and
+ * trailing whitespace is kept so paragraphs around it stay intact.
+ */
+export function fitReplacement(original: string, response: string) {
+  let text = response.trim().replace(/^```[^\n]*\n([\s\S]*?)\n?```$/, "$1").trim();
+  const quoted = /^["“][^"“”]*["”]$/.test(text);
+  if (quoted && !/^\s*["“]/.test(original)) text = text.slice(1, -1).trim();
+  const leading = original.match(/^\s*/)?.[0] ?? "";
+  const trailing = original.match(/\s*$/)?.[0] ?? "";
+  return `${leading}${text}${trailing}`;
+}
+
+/** Output room for a rewrite of `original`; an expansion may run to a few times its length. */
+export function rewriteTokenLimit(action: EditAction, original: string) {
+  return Math.max(900, wordsToTokens(countWords(original) * (action === "expand" ? 3 : 1.5)));
+}
+
+export function replaceRange(text: string, range: TextRange, replacement: string) {
+  return text.slice(0, range.start) + replacement + text.slice(range.end);
+}
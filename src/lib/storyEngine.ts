@@ -1,20 +1,70 @@
 ﻿import { ProviderDescriptor, ProviderId } from "../context/ProviderContext";
-import { FeedbackBuildRequest, StoryBuildRequest, AIClientError } from "./clients/base";
+import {
+  AIResponse,
+  ContinuationBuildRequest,
+  FeedbackBuildRequest,
+  ModelListRequest,
+  StoryBuildRequest,
+  AIClientError,
+  AIRequestCancelledError,
+  StreamHandlers,
+  TokenUsage,
+  feedbackTokenLimit,
+  isCancellation,
+} from "./clients/base";
 import { openAIClient } from "./clients/openai";
 import { anthropicClient } from "./clients/anthropic";
 import { geminiClient } from "./clients/gemini";
 import { deepSeekClient } from "./clients/deepseek";
+import { mockClient } from "./clients/mock";
+import { openAICompatibleClient } from "./clients/openaiCompatible";
+import { retarget, runWithFallback, runWithProviderFailover } from "./fallback";
+import {
+  CachedRequestKind,
+  getResponseCacheConfig,
+  readCachedResponse,
+  responseCacheKey,
+  writeCachedResponse,
+} from "./responseCache";
+import {
+  composeContinuationPrompt,
+  composeFeedbackPrompt,
+  composeSectionInstruction,
+  composeStorySystemPrompt,
+  composeSynthesisInstruction,
+  composeStoryUserPrompt,
+  targetWordCount,
+} from "./prompts/storyTemplates";
+import {
+  CONTINUATION_CONTEXT_TOKENS,
+  PROMPT_OVERHEAD_TOKENS,
+  contextWindowFor,
+  continuationMaxTokens,
+  countWords,
+  estimateTokens,
+  planContinuation,
+  removeRepeats,
+} from "./continuation";
+import { RequestPriority, scheduleRequest } from "./scheduler";
+import { CostBreakdown, CostReport, addCost, countTokens, priceTokens, reconcileCost, wordsToTokens } from "./pricing";
+import { BudgetExceededError, UsageKind, checkBudget, recordUsage } from "./usageLedger";
+import { DraftSection, sectionBudget, sectionLabel, splitDraft } from "./chunking";
+import { SectionFeedbackInput, describeSectionFeedback } from "./feedback";
 
 const registry = {
   openai: openAIClient,
   anthropic: anthropicClient,
   gemini: geminiClient,
   deepseek: deepSeekClient,
+  mock: mockClient,
 } satisfies Record<Exclude<ProviderId, `custom:${string}`>, typeof openAIClient>;
 
 function getClient(provider: ProviderDescriptor) {
   if (provider.id.startsWith("custom:")) {
-    throw new AIClientError("Custom providers require a user-supplied connector.");
+    if (!provider.connector) {
+      throw new AIClientError(`${provider.label} has no connector. Register it again with an OpenAI-compatible base URL.`);
+    }
+    return openAICompatibleClient;
   }
   return registry[provider.id as keyof typeof registry];
 }
@@ -29,47 +79,663 @@ export function buildFeedbackRequest(
   return { ...input };
 }
 
+/**
+ * Queues `run` behind the provider's concurrency and tokens-per-minute limits.
+ * `priority` is the default for this kind of call; `request.queue` overrides it.
+ */
+function scheduled<T>(
+  request: StoryBuildRequest | FeedbackBuildRequest,
+  label: string,
+  priority: RequestPriority,
+  estimatedTokens: number,
+  run: () => Promise<T>
+) {
+  return scheduleRequest({
+    providerId: request.provider.id,
+    estimatedTokens,
+    queue: { label: `${label} · ${request.provider.label}`, priority, ...request.queue },
+    signal: request.signal,
+    run,
+  });
+}
+
+/**
+ * Serves a non-streaming request from the response cache when it is enabled.
+ * The key covers the rendered prompts, so editing a template or the metadata
+ * misses. Cache failures (no IndexedDB, quota) never fail the request.
+ */
+async function withResponseCache(
+  kind: CachedRequestKind,
+  request: StoryBuildRequest | FeedbackBuildRequest,
+  keyParts: Record<string, unknown>,
+  run: () => Promise<AIResponse>
+): Promise<AIResponse> {
+  if (!getResponseCacheConfig().enabled) return run();
+  const model = request.model ?? request.provider.defaultModel;
+  const key = await responseCacheKey({
+    kind,
+    provider: request.provider.id,
+    endpoint: request.provider.connector?.baseUrl,
+    model,
+    ...keyParts,
+  });
+  if (!request.bypassCache) {
+    const hit = await readCachedResponse(key).catch((error) => {
+      console.warn("Response cache lookup failed", error);
+      return null;
+    });
+    if (hit) return { ...hit, cached: true };
+  }
+  const response = await run();
+  await writeCachedResponse(key, { kind, providerId: request.provider.id, model }, response).catch((error) =>
+    console.warn("Response cache write failed", error)
+  );
+  return response;
+}
+
+function storyTokenEstimate(request: StoryBuildRequest, system: string, prompt: string) {
+  return estimateTokens(system) + estimateTokens(prompt) + (request.maxTokens ?? 1400);
+}
+
+type PricedRequest = Pick<StoryBuildRequest, "provider" | "model" | "metadata" | "maxTokens">;
+
+function storyCostEstimate(request: PricedRequest, system: string, prompt: string): CostBreakdown {
+  const output = Math.min(request.maxTokens ?? 1400, wordsToTokens(targetWordCount(request.metadata.targetLength)));
+  return priceTokens(
+    request.provider.id,
+    request.model ?? request.provider.defaultModel,
+    countTokens(system) + countTokens(prompt),
+    output
+  );
+}
+
+/** What a single-pass story request should cost: the rendered prompts counted locally plus the expected output. */
+export function estimateStoryCost(request: PricedRequest & Pick<StoryBuildRequest, "prompt" | "continuity">) {
+  return storyCostEstimate(
+    request,
+    composeStorySystemPrompt(request.metadata, request.continuity),
+    composeStoryUserPrompt(request.metadata, request.prompt, request.continuity)
+  );
+}
+
+/** Refuses a request that would break a blocking budget cap; warning caps are the caller's to surface. */
+function enforceBudget(request: Pick<StoryBuildRequest, "provider">, estimated: CostBreakdown) {
+  const check = checkBudget(request.provider.id, estimated.cost);
+  if (check.status === "block") throw new BudgetExceededError(check.reasons);
+}
+
+/**
+ * Prices the response at the model that served it, next to the estimate made
+ * before the call, and files it in the spend ledger.
+ */
+function withCost(
+  request: Pick<StoryBuildRequest, "provider" | "model" | "ledger">,
+  estimated: CostBreakdown,
+  response: AIResponse,
+  kind: UsageKind
+) {
+  const model = response.model ?? request.model ?? request.provider.defaultModel;
+  const cost = reconcileCost(request.provider.id, model, estimated, response);
+  recordUsage({
+    kind: request.ledger?.kind ?? kind,
+    draftId: request.ledger?.draftId,
+    providerId: request.provider.id,
+    providerLabel: request.provider.label,
+    model,
+    inputTokens: cost.actual.inputTokens,
+    outputTokens: cost.actual.outputTokens,
+    cost: cost.actual.cost,
+    estimatedCost: cost.estimated.cost,
+    measured: cost.measured,
+    cached: response.cached,
+  });
+  return { ...response, cost };
+}
+
+/**
+ * Files a stream that stopped early, cancelled or failed, in the spend ledger.
+ * The provider has billed the prompt and whatever it sent, so those are
+ * counted from the estimate and the text that arrived.
+ */
+function recordPartialUsage(
+  request: Pick<StoryBuildRequest, "provider" | "ledger">,
+  estimated: CostBreakdown,
+  model: string,
+  partial: string,
+  kind: UsageKind
+) {
+  if (!partial) return;
+  const cost = reconcileCost(request.provider.id, model, estimated, { content: partial });
+  recordUsage({
+    kind: request.ledger?.kind ?? kind,
+    draftId: request.ledger?.draftId,
+    providerId: request.provider.id,
+    providerLabel: request.provider.label,
+    model,
+    inputTokens: cost.actual.inputTokens,
+    outputTokens: cost.actual.outputTokens,
+    cost: cost.actual.cost,
+    estimatedCost: cost.estimated.cost,
+    measured: false,
+    cached: false,
+  });
+}
+
+/** Moves to the next provider in `request.failover` when the selected one is down. */
 export async function generateStory(request: StoryBuildRequest) {
+  return runWithProviderFailover(request, generateWithProvider);
+}
+
+async function generateWithProvider(request: StoryBuildRequest) {
   const client = getClient(request.provider);
+  const system = composeStorySystemPrompt(request.metadata, request.continuity);
+  const prompt = composeStoryUserPrompt(request.metadata, request.prompt, request.continuity);
+  const estimated = storyCostEstimate(request, system, prompt);
+  const response = await withResponseCache(
+    "story",
+    request,
+    { params: request.params, maxTokens: request.maxTokens, metadata: request.metadata, system, prompt },
+    () => {
+      enforceBudget(request, estimated);
+      return scheduled(request, "Story", "normal", storyTokenEstimate(request, system, prompt), () =>
+        runWithFallback(request.provider, request.model, (model) => client.generateStory({ ...request, model }), {
+          onFallback: request.onFallback,
+        })
+      );
+    }
+  );
+  return withCost(request, estimated, response, "generation");
+}
+
+/**
+ * Streams a story generation, forwarding each text delta to `handlers.onChunk`.
+ * Model fallback and provider failover only apply while nothing has been
+ * emitted yet, so a retry never duplicates text the caller already rendered. Cancellation
+ * rethrows with whatever text arrived before the stop; a stream that stops
+ * early, cancelled or failed, is still filed in the spend ledger.
+ */
+export async function streamStory(request: StoryBuildRequest, handlers: StreamHandlers) {
+  let partial = "";
+  const tracked: StreamHandlers = {
+    onChunk: (chunk) => {
+      partial = chunk.text;
+      handlers.onChunk(chunk);
+    },
+  };
+  const system = composeStorySystemPrompt(request.metadata, request.continuity);
+  const prompt = composeStoryUserPrompt(request.metadata, request.prompt, request.continuity);
+  const estimate = storyTokenEstimate(request, system, prompt);
   try {
-    return await client.generateStory(request);
+    return await runWithProviderFailover(
+      request,
+      (target) => {
+        const estimated = storyCostEstimate(target, system, prompt);
+        enforceBudget(target, estimated);
+        let served = target.model ?? target.provider.defaultModel;
+        return scheduled(target, "Draft", "interactive", estimate, () =>
+          runWithFallback(
+            target.provider,
+            target.model,
+            (model) => {
+              served = model;
+              return getClient(target.provider).streamStory({ ...target, model }, tracked);
+            },
+            { onFallback: target.onFallback, canFallback: () => !partial }
+          )
+        ).then(
+          (response) => withCost(target, estimated, response, "generation"),
+          (error) => {
+            recordPartialUsage(target, estimated, served, partial, "generation");
+            throw error;
+          }
+        );
+      },
+      { canFallback: () => !partial }
+    );
   } catch (err) {
-    const e = err as unknown;
-    const payloadText =
-      e instanceof AIClientError && e.payload ? JSON.stringify(e.payload).toLowerCase() : "";
-    const isModelError =
-      e instanceof AIClientError &&
-      (e.status === 404 ||
-        e.message.toLowerCase().includes("model") ||
-        payloadText.includes("model") ||
-        e.message.toLowerCase().includes("does not exist"));
-    const fallback = request.provider.defaultModel;
-    if (isModelError && request.model !== fallback) {
-      // retry with provider default model
-      return await client.generateStory({ ...request, model: fallback });
+    if (isCancellation(err) || request.signal?.aborted) {
+      throw new AIRequestCancelledError(partial);
     }
     throw err;
   }
 }
 
-export async function requestFeedback(request: FeedbackBuildRequest) {
-  const client = getClient(request.provider);
+/**
+ * Streams the passage that follows the draft. Only the tail that fits the
+ * serving model's context window is sent, so the excerpt is re-planned if the
+ * fallback chain moves to a smaller model. Same fallback and cancellation
+ * rules as `streamStory`.
+ */
+export async function continueStory(request: ContinuationBuildRequest, handlers: StreamHandlers) {
+  const maxTokens = request.maxTokens ?? continuationMaxTokens(request.words);
+  let partial = "";
+  const tracked: StreamHandlers = {
+    onChunk: (chunk) => {
+      partial = chunk.text;
+      handlers.onChunk(chunk);
+    },
+  };
+  const estimate = Math.min(estimateTokens(request.draft), CONTINUATION_CONTEXT_TOKENS) + maxTokens;
   try {
-    return await client.requestFeedback(request);
+    return await runWithProviderFailover(
+      request,
+      (target) => {
+        const estimated = estimateContinuationCost(target, maxTokens);
+        enforceBudget(target, estimated);
+        let served = target.model ?? target.provider.defaultModel;
+        return scheduled(target, "Continuation", "interactive", estimate, () =>
+          runWithFallback(
+            target.provider,
+            target.model,
+            (model) => {
+              served = model;
+              const context = planContinuation(target.provider, model, target.draft, maxTokens);
+              return getClient(target.provider).continueStory(
+                { ...target, model, maxTokens, draft: context.excerpt, trimmed: context.trimmed },
+                tracked
+              );
+            },
+            { onFallback: target.onFallback, canFallback: () => !partial }
+          )
+        ).then(
+          (response) => withCost(target, estimated, response, "continuation"),
+          (error) => {
+            recordPartialUsage(target, estimated, served, partial, "continuation");
+            throw error;
+          }
+        );
+      },
+      { canFallback: () => !partial }
+    );
   } catch (err) {
-    const e = err as unknown;
-    const payloadText =
-      e instanceof AIClientError && e.payload ? JSON.stringify(e.payload).toLowerCase() : "";
-    const isModelError =
-      e instanceof AIClientError &&
-      (e.status === 404 ||
-        e.message.toLowerCase().includes("model") ||
-        payloadText.includes("model") ||
-        e.message.toLowerCase().includes("does not exist"));
-    const fallback = request.provider.defaultModel;
-    if (isModelError && request.model !== fallback) {
-      return await client.requestFeedback({ ...request, model: fallback });
+    if (isCancellation(err) || request.signal?.aborted) {
+      throw new AIRequestCancelledError(partial);
     }
     throw err;
   }
 }
+
+/** Prices the excerpt the selected model would be sent, plus the requested words. */
+export function estimateContinuationCost(
+  request: Pick<ContinuationBuildRequest, "provider" | "model" | "metadata" | "prompt" | "draft" | "words" | "continuity">,
+  maxTokens: number
+): CostBreakdown {
+  const model = request.model ?? request.provider.defaultModel;
+  const context = planContinuation(request.provider, model, request.draft, maxTokens);
+  const system = composeStorySystemPrompt(request.metadata, request.continuity);
+  const prompt = composeContinuationPrompt(
+    request.metadata,
+    context.excerpt,
+    request.words,
+    request.prompt,
+    context.trimmed,
+    request.continuity
+  );
+  return priceTokens(
+    request.provider.id,
+    model,
+    countTokens(system) + countTokens(prompt),
+    Math.min(maxTokens, wordsToTokens(request.words))
+  );
+}
+
+/** Hard stop for the length loop, so a model that keeps stopping short cannot run up a bill. */
+export const MAX_LENGTH_PASSES = 6;
+
+/** Passes that add less than this are treated as the model having nothing more to say. */
+const MIN_PASS_WORDS = 20;
+
+const FINISHING_WORDS = 120;
+const FINISHING_DIRECTION =
+  "Finish the interrupted sentence and bring this passage to a natural resting point. Do not start a new scene.";
+
+/** Words asked of each continuation pass, so its reply fits in `request.maxTokens`. */
+function continuationPassWords(request: Pick<StoryBuildRequest, "maxTokens">) {
+  return Math.max(MIN_PASS_WORDS * 5, Math.floor(((request.maxTokens ?? 1400) - 200) / 1.5));
+}
+
+/**
+ * What a full `generateToLength` run should cost: the opening pass, enough
+ * continuation passes to reach `targetWords`, each resending the story so far
+ * up to the continuation context limit, and the short finishing pass, all
+ * within `maxPasses`.
+ */
+export function estimateLengthCost(
+  request: PricedRequest & Pick<StoryBuildRequest, "prompt" | "continuity">,
+  targetWords: number,
+  maxPasses = MAX_LENGTH_PASSES
+): CostBreakdown {
+  const opening = estimateStoryCost(request);
+  const model = request.model ?? request.provider.defaultModel;
+  const passWords = continuationPassWords(request);
+  const total = { ...opening };
+  let words = Math.floor(opening.outputTokens / wordsToTokens(1));
+  for (let pass = 2; pass <= maxPasses; pass += 1) {
+    const finishing = words >= targetWords;
+    const asked = finishing ? FINISHING_WORDS : Math.min(targetWords - words, passWords);
+    const outputTokens = Math.min(request.maxTokens ?? Infinity, wordsToTokens(asked));
+    const next = priceTokens(
+      request.provider.id,
+      model,
+      opening.inputTokens + Math.min(wordsToTokens(words), CONTINUATION_CONTEXT_TOKENS),
+      outputTokens
+    );
+    total.inputTokens += next.inputTokens;
+    total.outputTokens += next.outputTokens;
+    total.cost += next.cost;
+    if (finishing) break;
+    words += asked;
+  }
+  return total;
+}
+
+export interface LengthPassProgress {
+  pass: number;
+  maxPasses: number;
+  /** Words in the whole text after this pass. */
+  words: number;
+  targetWords: number;
+  addedWords: number;
+  /** Words the pass repeated from earlier text and that were dropped. */
+  repeatedWords: number;
+  truncated: boolean;
+  stopReason?: string;
+  /** The whole text after this pass, repeats removed. */
+  text: string;
+}
+
+export interface LengthOptions {
+  targetWords: number;
+  maxPasses?: number;
+  onPass?: (progress: LengthPassProgress) => void;
+}
+
+export interface LengthResult extends AIResponse {
+  passes: number;
+  targetWords: number;
+  reachedTarget: boolean;
+  /** Set when a pass after the first failed; `content` holds everything before it. */
+  error?: unknown;
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage | undefined) {
+  if (!usage) return total;
+  const sum = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0));
+  return {
+    inputTokens: sum(total.inputTokens, usage.inputTokens),
+    outputTokens: sum(total.outputTokens, usage.outputTokens),
+    totalTokens: sum(total.totalTokens, usage.totalTokens),
+  };
+}
+
+/**
+ * Generates a story, then keeps asking for continuations until `targetWords`
+ * is reached. A pass that ends at the token limit is joined mid-sentence and,
+ * once the target is met, followed by one short pass that finishes the cut-off
+ * sentence. Repeated openings and paragraphs are stripped from each pass.
+ *
+ * `handlers.onChunk` sees deltas and text for the whole story, separators
+ * included, so callers can append deltas as with `streamStory`. Cancellation
+ * rethrows with everything produced so far; a failure after the first pass
+ * resolves with the text so far and the error attached.
+ */
+export async function generateToLength(
+  request: StoryBuildRequest,
+  handlers: StreamHandlers,
+  options: LengthOptions
+): Promise<LengthResult> {
+  const maxPasses = options.maxPasses ?? MAX_LENGTH_PASSES;
+  const passWords = continuationPassWords(request);
+  let text = "";
+  let usage: TokenUsage = {};
+  let tokensUsed = 0;
+  let cost: CostReport | undefined;
+  let first: AIResponse | undefined;
+  let last: AIResponse | undefined;
+  let passes = 0;
+  let error: unknown;
+
+  for (let pass = 1; pass <= maxPasses; pass += 1) {
+    const remaining = options.targetWords - countWords(text);
+    const finishing = pass > 1 && remaining <= 0;
+    const separator = pass === 1 ? "" : last?.truncated ? (/\s$/.test(text) ? "" : " ") : "\n\n";
+    const prefix = text + separator;
+    let forwardedPrefix = false;
+    const forward: StreamHandlers = {
+      onChunk: (chunk) => {
+        const delta = forwardedPrefix ? chunk.delta : separator + chunk.delta;
+        forwardedPrefix = true;
+        handlers.onChunk({ delta, text: prefix + chunk.text });
+      },
+    };
+
+    let response: AIResponse;
+    try {
+      if (pass === 1) {
+        response = await streamStory(request, forward);
+      } else {
+        const words = finishing ? FINISHING_WORDS : Math.min(remaining, passWords);
+        response = await continueStory(
+          {
+            ...request,
+            prompt: finishing ? FINISHING_DIRECTION : request.prompt,
+            draft: text,
+            words,
+            maxTokens: Math.min(request.maxTokens ?? Infinity, continuationMaxTokens(words)),
+          },
+          forward
+        );
+      }
+    } catch (err) {
+      if (pass === 1) throw err;
+      if (isCancellation(err)) {
+        throw new AIRequestCancelledError(prefix + err.partialContent);
+      }
+      error = err;
+      break;
+    }
+
+    // Later passes stay with whichever provider wrote the opening, so one story keeps one voice.
+    if (pass === 1 && response.providerId && response.providerId !== request.provider.id) {
+      const served = request.failover?.find((target) => target.provider.id === response.providerId);
+      if (served) request = retarget(request, served);
+    }
+
+    passes = pass;
+    first = first ?? response;
+    last = response;
+    usage = addUsage(usage, response.usage);
+    tokensUsed += response.tokensUsed ?? 0;
+    cost = addCost(cost, response.cost);
+
+    const { text: addition, removedWords } =
+      pass === 1 ? { text: response.content, removedWords: 0 } : removeRepeats(text, response.content);
+    text = addition ? prefix + addition : text;
+    const addedWords = countWords(addition);
+    options.onPass?.({
+      pass,
+      maxPasses,
+      words: countWords(text),
+      targetWords: options.targetWords,
+      addedWords,
+      repeatedWords: removedWords,
+      truncated: Boolean(response.truncated),
+      stopReason: response.stopReason,
+      text,
+    });
+
+    if (finishing || addedWords < MIN_PASS_WORDS) break;
+    if (!response.truncated && countWords(text) >= options.targetWords) break;
+  }
+
+  return {
+    ...last,
+    content: text,
+    usage,
+    tokensUsed: tokensUsed || undefined,
+    cost,
+    requestedModel: first?.requestedModel,
+    passes,
+    targetWords: options.targetWords,
+    reachedTarget: countWords(text) >= options.targetWords,
+    error,
+  };
+}
+
+/** Prices a feedback-style request: the rendered prompt counted locally plus its full output allowance. */
+export function estimateFeedbackCost(
+  request: Pick<
+    FeedbackBuildRequest,
+    "provider" | "model" | "metadata" | "draft" | "instruction" | "format" | "continuity" | "maxTokens"
+  >
+): CostBreakdown {
+  const prompt = composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity);
+  return priceTokens(
+    request.provider.id,
+    request.model ?? request.provider.defaultModel,
+    countTokens(prompt),
+    feedbackTokenLimit(request)
+  );
+}
+
+export async function requestFeedback(request: FeedbackBuildRequest) {
+  const client = getClient(request.provider);
+  const prompt = composeFeedbackPrompt(request.metadata, request.draft, request.instruction, request.format, request.continuity);
+  const estimated = estimateFeedbackCost(request);
+  const response = await withResponseCache(
+    "feedback",
+    request,
+    {
+      focus: request.focus,
+      format: request.format,
+      params: request.params,
+      maxTokens: request.maxTokens,
+      metadata: request.metadata,
+      prompt,
+    },
+    () => {
+      enforceBudget(request, estimated);
+      return scheduled(request, "Feedback", "normal", estimateTokens(prompt) + feedbackTokenLimit(request), () =>
+        runWithFallback(request.provider, request.model, (model) => client.requestFeedback({ ...request, model }), {
+          onFallback: request.onFallback,
+        })
+      );
+    }
+  );
+  return withCost(request, estimated, response, "feedback");
+}
+
+/** "auto" splits only drafts too long for one request; "always" reviews any draft section by section. */
+export type SectionMode = "auto" | "always";
+
+export interface SectionProgress {
+  completed: number;
+  total: number;
+}
+
+export interface SectionOptions {
+  mode?: SectionMode;
+  onSection?: (progress: SectionProgress) => void;
+}
+
+export interface SectionedResult extends AIResponse {
+  /** One entry per section with its raw reply; empty when the draft went in one request. */
+  sections: SectionFeedbackInput[];
+}
+
+/**
+ * Decides how a draft is sent. `maxSectionTokens` caps a section below what
+ * the context window allows, for calls whose reply has to hold the section.
+ */
+function planSections(request: FeedbackBuildRequest, mode: SectionMode, maxSectionTokens = Infinity): DraftSection[] {
+  const model = request.model ?? request.provider.defaultModel;
+  const outputTokens = feedbackTokenLimit(request);
+  const fits = Math.min(maxSectionTokens, contextWindowFor(request.provider, model) - outputTokens - PROMPT_OVERHEAD_TOKENS);
+  if (mode === "auto" && estimateTokens(request.draft) <= fits) {
+    return [{ index: 1, start: 0, end: request.draft.length, text: request.draft }];
+  }
+  return splitDraft(request.draft, Math.min(maxSectionTokens, sectionBudget(request.provider, model, outputTokens)));
+}
+
+/** Sends every section through `requestFeedback` with the instruction scoped to it; the scheduler paces them. */
+async function runSections(request: FeedbackBuildRequest, sections: DraftSection[], options: SectionOptions) {
+  let completed = 0;
+  options.onSection?.({ completed, total: sections.length });
+  const baseLabel = request.queue?.label ?? `Feedback · ${request.provider.label}`;
+  return Promise.all(
+    sections.map(async (section) => {
+      const label = sectionLabel(section, sections.length);
+      const scope = `section ${section.index} of ${sections.length}${section.heading ? ` (${section.heading})` : ""}`;
+      const response = await requestFeedback({
+        ...request,
+        draft: section.text,
+        instruction: composeSectionInstruction(request.metadata, request.instruction, scope, request.continuity),
+        queue: { ...request.queue, label: `${baseLabel} · ${label}` },
+      });
+      completed += 1;
+      options.onSection?.({ completed, total: sections.length });
+      return { response, input: { index: section.index, label, start: section.start, end: section.end, content: response.content } };
+    })
+  );
+}
+
+function combineResponses(responses: AIResponse[], content: string): AIResponse {
+  const tokensUsed = responses.reduce((total, response) => total + (response.tokensUsed ?? 0), 0);
+  return {
+    content,
+    model: responses[0]?.model,
+    requestedModel: responses[0]?.requestedModel,
+    usage: responses.reduce<TokenUsage>((total, response) => addUsage(total, response.usage), {}),
+    tokensUsed: tokensUsed || undefined,
+    cost: responses.reduce<CostReport | undefined>((total, response) => addCost(total, response.cost), undefined),
+    truncated: responses.some((response) => response.truncated),
+    cached: responses.every((response) => response.cached),
+  };
+}
+
+/**
+ * Feedback for drafts longer than the model can read at once: each section is
+ * reviewed on its own, then one more call merges the section notes into an
+ * overall assessment, returned as `content`. Short drafts in "auto" mode go
+ * through `requestFeedback` unchanged, as does a draft with a single section.
+ */
+export async function requestSectionedFeedback(
+  request: FeedbackBuildRequest,
+  options: SectionOptions = {}
+): Promise<SectionedResult> {
+  const sections = planSections(request, options.mode ?? "auto");
+  if (sections.length === 1) {
+    return { ...(await requestFeedback(request)), sections: [] };
+  }
+  const results = await runSections(request, sections, options);
+  const inputs = results.map((result) => result.input);
+  const synthesis = await requestFeedback({
+    ...request,
+    draft: inputs.map(describeSectionFeedback).join("\n\n"),
+    instruction: composeSynthesisInstruction(request.metadata, request.instruction, request.continuity),
+    format: "text",
+    queue: { ...request.queue, label: `${request.queue?.label ?? `Feedback · ${request.provider.label}`} · synthesis` },
+  });
+  return {
+    ...combineResponses([...results.map((result) => result.response), synthesis], synthesis.content),
+    sections: inputs,
+  };
+}
+
+/**
+ * Rewriting passes for long drafts: sections are sized so each rewrite fits
+ * in the reply, rewritten independently and joined back in order.
+ */
+export async function requestSectionedPass(request: FeedbackBuildRequest, options: SectionOptions = {}): Promise<SectionedResult> {
+  const sections = planSections(request, options.mode ?? "auto", feedbackTokenLimit(request));
+  if (sections.length === 1) {
+    return { ...(await requestFeedback(request)), sections: [] };
+  }
+  const results = await runSections(request, sections, options);
+  const content = results.map((result) => result.response.content.trim()).join("\n\n");
+  return { ...combineResponses(results.map((result) => result.response), content), sections: results.map((result) => result.input) };
+}
+
+export async function listModels(request: ModelListRequest) {
+  return getClient(request.provider).listModels(request);
+}
@@ -0,0 +1,173 @@
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+/** One row of a side-by-side view; `before` is empty for added lines and `after` for removed ones. */
+export interface DiffRow {
+  kind: "same" | "added" | "removed" | "changed" | "skipped";
+  before: DiffSegment[];
+  after: DiffSegment[];
+  /** 1-based line numbers, when the row shows a line from that side. */
+  beforeLine?: number;
+  afterLine?: number;
+  /** For "skipped": how many unchanged lines were folded away. */
+  skipped?: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+type Op = { op: "same" | "remove" | "add"; value: string };
+
+/** Past this many comparisons the middle of the diff is shown as replaced wholesale. */
+const MAX_CELLS = 2_000_000;
+
+/** Longest-common-subsequence edit script, after stripping the shared head and tail. */
+function diffSequences(a: string[], b: string[]): Op[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head += 1;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail += 1;
+
+  const left = a.slice(head, a.length - tail);
+  const right = b.slice(head, b.length - tail);
+  const middle: Op[] = [];
+
+  if (left.length * right.length > MAX_CELLS) {
+    left.forEach((value) => middle.push({ op: "remove", value }));
+    right.forEach((value) => middle.push({ op: "add", value }));
+  } else {
+    const width = right.length + 1;
+    const table = new Uint32Array((left.length + 1) * width);
+    for (let i = left.length - 1; i >= 0; i -= 1) {
+      for (let j = right.length - 1; j >= 0; j -= 1) {
+        table[i * width + j] =
+          left[i] === right[j]
+            ? table[(i + 1) * width + j + 1] + 1
+            : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < left.length || j < right.length) {
+      if (i < left.length && j < right.length && left[i] === right[j]) {
+        middle.push({ op: "same", value: left[i] });
+        i += 1;
+        j += 1;
+      } else if (j < right.length && (i === left.length || table[i * width + j + 1] >= table[(i + 1) * width + j])) {
+        middle.push({ op: "add", value: right[j] });
+        j += 1;
+      } else {
+        middle.push({ op: "remove", value: left[i] });
+        i += 1;
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, head).map((value): Op => ({ op: "same", value })),
+    ...middle,
+    ...a.slice(a.length - tail).map((value): Op => ({ op: "same", value })),
+  ];
+}
+
+function segments(ops: Op[], side: "remove" | "add"): DiffSegment[] {
+  const result: DiffSegment[] = [];
+  ops.forEach(({ op, value }) => {
+    if (op !== "same" && op !== side) return;
+    const changed = op !== "same";
+    const last = result[result.length - 1];
+    if (last && last.changed === changed) last.text += value;
+    else result.push({ text: value, changed });
+  });
+  return result;
+}
+
+/** Word-level highlight for a line that was edited rather than replaced. */
+function diffWords(before: string, after: string) {
+  const ops = diffSequences(before.split(/(\s+)/).filter(Boolean), after.split(/(\s+)/).filter(Boolean));
+  return { before: segments(ops, "remove"), after: segments(ops, "add") };
+}
+
+/**
+ * Line-by-line comparison for a side-by-side view. Runs of removed and added
+ * lines are paired into "changed" rows with word highlights; unchanged runs
+ * longer than `context` lines on either side of a change are folded.
+ */
+export function diffLines(before: string, after: string, context = 2): DiffRow[] {
+  const ops = diffSequences(before.split("\n"), after.split("\n"));
+  const rows: DiffRow[] = [];
+  let beforeLine = 0;
+  let afterLine = 0;
+  let index = 0;
+
+  while (index < ops.length) {
+    if (ops[index].op === "same") {
+      beforeLine += 1;
+      afterLine += 1;
+      const text = [{ text: ops[index].value, changed: false }];
+      rows.push({ kind: "same", before: text, after: text, beforeLine, afterLine });
+      index += 1;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].op !== "same") {
+      (ops[index].op === "remove" ? removed : added).push(ops[index].value);
+      index += 1;
+    }
+    for (let pair = 0; pair < Math.max(removed.length, added.length); pair += 1) {
+      const left = removed[pair];
+      const right = added[pair];
+      if (left !== undefined && right !== undefined) {
+        beforeLine += 1;
+        afterLine += 1;
+        rows.push({ kind: "changed", ...diffWords(left, right), beforeLine, afterLine });
+      } else if (left !== undefined) {
+        beforeLine += 1;
+        rows.push({ kind: "removed", before: [{ text: left, changed: true }], after: [], beforeLine });
+      } else {
+        afterLine += 1;
+        rows.push({ kind: "added", before: [], after: [{ text: right, changed: true }], afterLine });
+      }
+    }
+  }
+
+  return foldUnchanged(rows, context);
+}
+
+function foldUnchanged(rows: DiffRow[], context: number): DiffRow[] {
+  const near = rows.map(() => false);
+  rows.forEach((row, index) => {
+    if (row.kind === "same") return;
+    for (let offset = Math.max(0, index - context); offset <= Math.min(rows.length - 1, index + context); offset += 1) {
+      near[offset] = true;
+    }
+  });
+  const folded: DiffRow[] = [];
+  rows.forEach((row, index) => {
+    if (row.kind !== "same" || near[index]) {
+      folded.push(row);
+      return;
+    }
+    const last = folded[folded.length - 1];
+    if (last?.kind === "skipped") last.skipped = (last.skipped ?? 0) + 1;
+    else folded.push({ kind: "skipped", before: [], after: [], skipped: 1 });
+  });
+  return folded;
+}
+
+export function diffStats(rows: DiffRow[]): DiffStats {
+  return rows.reduce(
+    (stats, row) => ({
+      added: stats.added + (row.kind === "added" ? 1 : 0),
+      removed: stats.removed + (row.kind === "removed" ? 1 : 0),
+      changed: stats.changed + (row.kind === "changed" ? 1 : 0),
+    }),
+    { added: 0, removed: 0, changed: 0 }
+  );
+}
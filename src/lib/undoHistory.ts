@@ -0,0 +1,132 @@
+import { generateId } from "../utils/crypto";
+
+/** What the history needs to know about one action; `null` leaves it out of the history. */
+export interface UndoStep {
+  label: string;
+  /** The draft or record the action touched, so undoing can bring it back into view. */
+  target?: string;
+  /** Actions with the same key in quick succession, such as keystrokes in one field, undo as one step. */
+  groupKey?: string;
+  /**
+   * Intermediate updates such as streamed text are applied without a step of
+   * their own. The next settling step on the same target undoes them along
+   * with itself; any other step on that target leaves them in place.
+   */
+  transient?: boolean;
+  settles?: boolean;
+}
+
+export interface UndoEntry<S> {
+  id: string;
+  label: string;
+  target?: string;
+  groupKey?: string;
+  /** When the step was last extended, for grouping. */
+  at: number;
+  /** The state on the other side of the step: before it in `past`, after it in `future`. */
+  state: S;
+}
+
+/** The part of an entry safe to hand to components. */
+export type UndoSummary = Pick<UndoEntry<unknown>, "id" | "label" | "target" | "at">;
+
+export interface UndoState<S> {
+  present: S;
+  past: UndoEntry<S>[];
+  future: UndoEntry<S>[];
+  /** The state before a run of transient updates, waiting for the step that settles them. */
+  pending: { target?: string; state: S } | null;
+}
+
+export type UndoAction = { type: "undo"; steps?: number } | { type: "redo"; steps?: number };
+
+export interface UndoOptions<S, A> {
+  describe: (action: A, before: S) => UndoStep | null;
+  /** Called with the state an undo or redo lands on and the one it leaves, e.g. to persist it. */
+  restore: (state: S, entry: UndoEntry<S>, current: S) => S;
+  limit?: number;
+  groupMs?: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_GROUP_MS = 1500;
+
+export function initialUndoState<S>(present: S): UndoState<S> {
+  return { present, past: [], future: [], pending: null };
+}
+
+function isUndoAction(action: unknown): action is UndoAction {
+  const type = (action as { type?: unknown }).type;
+  return type === "undo" || type === "redo";
+}
+
+function travel<S, A>(state: UndoState<S>, action: UndoAction, options: UndoOptions<S, A>): UndoState<S> {
+  let { present, past, future } = state;
+  const moves = Math.max(1, action.steps ?? 1);
+  for (let move = 0; move < moves; move += 1) {
+    const from = action.type === "undo" ? past : future;
+    const entry = from[from.length - 1];
+    if (!entry) break;
+    const swapped = { ...entry, state: present };
+    present = options.restore(entry.state, entry, present);
+    if (action.type === "undo") {
+      past = past.slice(0, -1);
+      future = [...future, swapped];
+    } else {
+      future = future.slice(0, -1);
+      past = [...past, swapped];
+    }
+  }
+  return { present, past, future, pending: null };
+}
+
+/**
+ * Wraps a reducer with undo and redo. Each action `describe` names becomes a
+ * step holding the state before it; undoing swaps that state back in and keeps
+ * the newer one for redo. States are immutable, so steps share everything the
+ * action did not touch.
+ */
+export function undoable<S, A>(reducer: (state: S, action: A) => S, options: UndoOptions<S, A>) {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const groupMs = options.groupMs ?? DEFAULT_GROUP_MS;
+
+  return (state: UndoState<S>, action: A | UndoAction): UndoState<S> => {
+    if (isUndoAction(action)) return travel(state, action, options);
+
+    const present = reducer(state.present, action);
+    if (present === state.present) return state;
+    const step = options.describe(action, state.present);
+    if (!step) return { ...state, present };
+    if (step.transient) {
+      return { ...state, present, pending: state.pending ?? { target: step.target, state: state.present } };
+    }
+
+    const ownPending = state.pending?.target === step.target ? state.pending : null;
+    const settled = step.settles ? ownPending : null;
+    const pending = ownPending ? null : state.pending;
+    const now = Date.now();
+    const last = state.past[state.past.length - 1];
+    if (!settled && step.groupKey && last?.groupKey === step.groupKey && now - last.at < groupMs && !state.future.length) {
+      return { present, past: [...state.past.slice(0, -1), { ...last, at: now }], future: [], pending };
+    }
+
+    const entry: UndoEntry<S> = {
+      id: generateId("undo"),
+      label: step.label,
+      target: step.target,
+      groupKey: step.groupKey,
+      at: now,
+      state: settled ? settled.state : state.present,
+    };
+    return {
+      present,
+      past: [...state.past, entry].slice(-limit),
+      future: [],
+      pending,
+    };
+  };
+}
+
+export function summariseEntries<S>(entries: UndoEntry<S>[]): UndoSummary[] {
+  return entries.map(({ id, label, target, at }) => ({ id, label, target, at }));
+}
@@ -0,0 +1,241 @@
+import type { ProviderId } from "../context/ProviderContext";
+import { AIClientError } from "./clients/base";
+import { generateId } from "../utils/crypto";
+
+export type UsageKind = "generation" | "continuation" | "feedback" | "sensory" | "ab-variant" | "rewrite";
+
+export const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+  generation: "Generation",
+  continuation: "Continuation",
+  feedback: "Feedback",
+  sensory: "Sensory pass",
+  "ab-variant": "A/B variant",
+  rewrite: "Selection rewrite",
+};
+
+/** Set by callers so the ledger knows what a request was for; the engine fills in a default kind. */
+export interface UsageTag {
+  kind?: UsageKind;
+  draftId?: string;
+}
+
+export interface UsageEntry {
+  id: string;
+  at: string;
+  kind: UsageKind;
+  providerId: ProviderId;
+  providerLabel: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD, reconciled from the provider's usage. Cache hits are recorded at zero. */
+  cost: number;
+  estimatedCost: number;
+  /** False when tokens were counted locally because the provider reported none. */
+  measured: boolean;
+  cached?: boolean;
+  draftId?: string;
+}
+
+export type BudgetMode = "warn" | "block";
+
+/** Limits in USD; `null` leaves that period uncapped. */
+export interface BudgetCap {
+  daily: number | null;
+  monthly: number | null;
+  mode: BudgetMode;
+}
+
+/** Caps apply per provider, or to all providers together under `"all"`. */
+export type BudgetScope = ProviderId | "all";
+
+export interface BudgetCheck {
+  status: "ok" | "warn" | "block";
+  /** One line per cap the request would break. */
+  reasons: string[];
+}
+
+export type UsageGrouping = "day" | "provider" | "draft";
+
+export interface UsageGroup {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/** Raised before a request is sent when it would break a blocking budget cap. */
+export class BudgetExceededError extends AIClientError {
+  constructor(public readonly reasons: string[]) {
+    super(`Budget cap reached: ${reasons.join("; ")}`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const STORAGE_LEDGER_KEY = "sf:usage-ledger";
+const STORAGE_BUDGET_KEY = "sf:budget-caps";
+
+/** Oldest entries are dropped past this, which keeps several months of normal use. */
+const MAX_ENTRIES = 5000;
+
+let entries: UsageEntry[] | null = null;
+let caps: Partial<Record<BudgetScope, BudgetCap>> | null = null;
+const listeners = new Set<() => void>();
+
+function loadEntries() {
+  if (!entries) {
+    try {
+      const stored = localStorage.getItem(STORAGE_LEDGER_KEY);
+      entries = stored ? (JSON.parse(stored) as UsageEntry[]) : [];
+    } catch (error) {
+      console.error(`Failed to parse ${STORAGE_LEDGER_KEY}`, error);
+      entries = [];
+    }
+  }
+  return entries;
+}
+
+function loadCaps() {
+  if (!caps) {
+    try {
+      const stored = localStorage.getItem(STORAGE_BUDGET_KEY);
+      caps = stored ? (JSON.parse(stored) as Partial<Record<BudgetScope, BudgetCap>>) : {};
+    } catch (error) {
+      console.error(`Failed to parse ${STORAGE_BUDGET_KEY}`, error);
+      caps = {};
+    }
+  }
+  return caps;
+}
+
+function publish() {
+  listeners.forEach((listener) => listener());
+}
+
+function saveEntries(next: UsageEntry[]) {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_LEDGER_KEY, JSON.stringify(next));
+  } catch (error) {
+    // A full quota must not fail the request that was just paid for.
+    console.warn("Failed to persist the usage ledger", error);
+  }
+  publish();
+}
+
+/** For `useSyncExternalStore`: the same array until something is recorded or cleared. */
+export function getUsageEntries(): UsageEntry[] {
+  return loadEntries();
+}
+
+export function subscribeToUsage(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function recordUsage(entry: Omit<UsageEntry, "id" | "at">) {
+  const record: UsageEntry = {
+    ...entry,
+    id: generateId("usage"),
+    at: new Date().toISOString(),
+  };
+  saveEntries([...loadEntries(), record].slice(-MAX_ENTRIES));
+  return record;
+}
+
+export function clearUsage() {
+  saveEntries([]);
+}
+
+export function getBudgetCaps(): Partial<Record<BudgetScope, BudgetCap>> {
+  return loadCaps();
+}
+
+/** Pass `null` to remove the caps for `scope`. */
+export function setBudgetCap(scope: BudgetScope, cap: BudgetCap | null) {
+  const next = { ...loadCaps() };
+  if (cap) {
+    next[scope] = cap;
+  } else {
+    delete next[scope];
+  }
+  caps = next;
+  localStorage.setItem(STORAGE_BUDGET_KEY, JSON.stringify(next));
+  publish();
+}
+
+function startOfDay(now: Date) {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+function startOfMonth(now: Date) {
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+/** Spend in USD since `since` (epoch ms), for one provider or all of them. */
+export function spendSince(scope: BudgetScope, since: number) {
+  return loadEntries().reduce(
+    (total, entry) =>
+      (scope === "all" || entry.providerId === scope) && new Date(entry.at).getTime() >= since ? total + entry.cost : total,
+    0
+  );
+}
+
+export function spendToday(scope: BudgetScope = "all", now = new Date()) {
+  return spendSince(scope, startOfDay(now));
+}
+
+export function spendThisMonth(scope: BudgetScope = "all", now = new Date()) {
+  return spendSince(scope, startOfMonth(now));
+}
+
+/**
+ * Checks a request costing about `estimatedCost` against the provider's caps
+ * and the all-provider caps, by calendar day and month in local time. Any
+ * broken blocking cap blocks; otherwise any broken cap warns.
+ */
+export function checkBudget(providerId: ProviderId, estimatedCost: number, now = new Date()): BudgetCheck {
+  const reasons: string[] = [];
+  let blocked = false;
+  (["all", providerId] as BudgetScope[]).forEach((scope) => {
+    const cap = loadCaps()[scope];
+    if (!cap) return;
+    const label = scope === "all" ? "all providers" : "this provider";
+    const periods = [
+      { limit: cap.daily, spent: spendToday(scope, now), name: "daily" },
+      { limit: cap.monthly, spent: spendThisMonth(scope, now), name: "monthly" },
+    ];
+    periods.forEach(({ limit, spent, name }) => {
+      if (limit === null || spent + estimatedCost <= limit) return;
+      reasons.push(`${name} cap of $${limit.toFixed(2)} for ${label} (spent $${spent.toFixed(2)})`);
+      if (cap.mode === "block") blocked = true;
+    });
+  });
+  return { status: blocked ? "block" : reasons.length ? "warn" : "ok", reasons };
+}
+
+function dayKey(iso: string) {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Totals per day (local date), provider or draft, largest spend first except days, which run newest first. */
+export function summariseUsage(list: UsageEntry[], grouping: UsageGrouping): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  list.forEach((entry) => {
+    const key =
+      grouping === "day" ? dayKey(entry.at) : grouping === "provider" ? entry.providerId : entry.draftId ?? "unassigned";
+    const group = groups.get(key) ?? { key, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    group.requests += 1;
+    group.inputTokens += entry.inputTokens;
+    group.outputTokens += entry.outputTokens;
+    group.cost += entry.cost;
+    groups.set(key, group);
+  });
+  const result = Array.from(groups.values());
+  return grouping === "day" ? result.sort((a, b) => b.key.localeCompare(a.key)) : result.sort((a, b) => b.cost - a.cost);
+}
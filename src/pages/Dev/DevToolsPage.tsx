@@ -7,6 +7,7 @@ import { useProviderRegistry } from "../../context/ProviderContext";
 import { useLibrary } from "../../context/LibraryContext";
 import { useModeration } from "../../context/ModerationContext";
 import { useRoles } from "../../context/RolesContext";
+import { redactSecrets } from "../../utils/redact";
 import { addBlacklistedEmail, addBlacklistedPwdHash, removeBlacklistedEmail, removeBlacklistedPwdHash } from "../../utils/blacklist";
 import { useAnnouncements } from "../../context/AnnouncementsContext";
 
@@ -550,14 +551,15 @@ export function DevToolsPage() {
             type="button"
             onClick={() => {
               const keys = [
-                'sf:workspace','sf:published-stories','sf:provider-keys','sf:provider-selected','sf:provider-custom','sf:provider-models',
+                // API keys and the encrypted key vault are deliberately left out of exports.
+                'sf:workspace','sf:published-stories','sf:provider-selected','sf:provider-custom','sf:provider-models',
                 'dreamscribe_users','dreamscribe_current_user','sf:blocked-words','sf:moderation-logs'
               ];
               const dump: Record<string, unknown> = {};
               keys.forEach((k) => {
                 try { dump[k] = JSON.parse(localStorage.getItem(k) || 'null'); } catch { dump[k] = localStorage.getItem(k); }
               });
-              const blob = new Blob([JSON.stringify(dump, null, 2)], { type: 'application/json' });
+              const blob = new Blob([JSON.stringify(redactSecrets(dump), null, 2)], { type: 'application/json' });
               const a = document.createElement('a');
               a.href = URL.createObjectURL(blob);
               a.download = 'dreamscribe-data.json';
@@ -328,6 +328,23 @@ export function StoryDetailPage() {
                   {story.tags.length ? story.tags.map((tag) => <span key={tag}>{tag}</span>) : <span>#fiction</span>}
                 </div>
               </li>
+              {story.provenance && (
+                <li>
+                  <span>Written with</span>
+                  <div className="story-detail__provenance">
+                    <strong>
+                      {story.provenance.models
+                        .map((entry) => `${entry.providerLabel}${entry.model ? ` · ${entry.model}` : ""}`)
+                        .join(", ")}
+                    </strong>
+                    <small>
+                      {story.provenance.changes} AI change{story.provenance.changes === 1 ? "" : "s"} ·{" "}
+                      {story.provenance.words.toLocaleString()} generated words
+                      {story.provenance.presets.length > 0 && ` · ${story.provenance.presets.join(", ")}`}
+                    </small>
+                  </div>
+                </li>
+              )}
             </ul>
           </div>
 
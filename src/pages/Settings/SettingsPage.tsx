@@ -6,6 +6,15 @@ import { useTheme } from "../../context/ThemeContext";
 import { useRoles } from "../../context/RolesContext";
 import { RoleBadge } from "../../components/ui/RoleBadge";
 import { DevBadge } from "../../components/ui/DevBadge";
+import { RetryPolicySettings } from "../../components/settings/RetryPolicySettings";
+import { RequestLimitSettings } from "../../components/settings/RequestLimitSettings";
+import { FailoverSettings } from "../../components/settings/FailoverSettings";
+import { UsageDashboard } from "../../components/settings/UsageDashboard";
+import { BudgetSettings } from "../../components/settings/BudgetSettings";
+import { PromptTemplateSettings } from "../../components/settings/PromptTemplateSettings";
+import { GenerationPresetSettings } from "../../components/settings/GenerationPresetSettings";
+import { ResponseCacheSettings } from "../../components/settings/ResponseCacheSettings";
+import { clearResponseCache } from "../../lib/responseCache";
 
 interface MessageState {
   type: "success" | "error";
@@ -106,16 +115,28 @@ export function SettingsPage() {
     }
   };
 
-  const handleResetDemoData = () => {
+  const handleResetDemoData = async () => {
     const keys = [
       "sf:workspace",
       "sf:published-stories",
       "sf:provider-keys",
+      "sf:provider-vault",
       "sf:provider-selected",
       "sf:provider-custom",
       "sf:provider-models",
+      "sf:provider-retry",
+      "sf:provider-failover",
+      "sf:provider-catalogue",
+      "sf:mock-config",
+      "sf:prompt-templates",
+      "sf:response-cache",
+      "sf:request-limits",
+      "sf:usage-ledger",
+      "sf:budget-caps",
+      "sf:generation-presets",
     ];
     keys.forEach((k) => localStorage.removeItem(k));
+    await clearResponseCache().catch((error) => console.warn("Failed to clear the response cache", error));
     alert("Cleared local demo data. Reloading page…");
     window.location.reload();
   };
@@ -359,6 +380,101 @@ export function SettingsPage() {
         </div>
       </motion.section>
 
+      <motion.section
+        className="glass-card"
+        initial={{ opacity: 0, y: 25 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.35, delay: 0.1 }}
+        style={{ marginTop: 18 }}
+      >
+        <h3 style={{ marginTop: 0 }}>Rate limits &amp; retries</h3>
+        <p className="notice--muted">
+          Rate-limited (429), overloaded and 5xx responses are retried with exponential backoff. Waits requested by the
+          provider always win over the schedule below.
+        </p>
+        <RetryPolicySettings />
+        <h4 style={{ marginBottom: 0 }}>Request scheduling</h4>
+        <p className="notice--muted">
+          Requests to the same provider queue behind these limits. Drafts you are writing go first, feedback next, and A/B
+          comparisons last.
+        </p>
+        <RequestLimitSettings />
+        <h4 style={{ marginBottom: 0 }}>Provider failover</h4>
+        <p className="notice--muted">
+          When story generation still fails after retries with a server error, timeout or network failure, the next
+          provider in this list takes over with its own key and model. A stream that already returned text is not
+          restarted elsewhere.
+        </p>
+        <FailoverSettings />
+      </motion.section>
+
+      <motion.section
+        className="glass-card"
+        initial={{ opacity: 0, y: 25 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.35, delay: 0.105 }}
+        style={{ marginTop: 18 }}
+      >
+        <h3 style={{ marginTop: 0 }}>Usage &amp; budgets</h3>
+        <p className="notice--muted">
+          Every AI request is recorded here with its tokens and reconciled cost. Costs come from list prices, so check
+          your provider's billing page for the final figure.
+        </p>
+        <UsageDashboard />
+        <h4 style={{ marginBottom: 0 }}>Budget caps</h4>
+        <p className="notice--muted">
+          Checked before each request against spend since midnight and since the first of the month. A warning cap asks
+          before sending; a blocking cap refuses the request.
+        </p>
+        <BudgetSettings />
+      </motion.section>
+
+      <motion.section
+        className="glass-card"
+        initial={{ opacity: 0, y: 25 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.35, delay: 0.11 }}
+        style={{ marginTop: 18 }}
+      >
+        <h3 style={{ marginTop: 0 }}>Prompt templates</h3>
+        <p className="notice--muted">
+          Every request is built from these templates. Placeholders such as {"{{title}}"} or {"{{continuity}}"} are filled
+          from the active draft; saving an edit keeps the earlier versions.
+        </p>
+        <PromptTemplateSettings />
+      </motion.section>
+
+      <motion.section
+        className="glass-card"
+        initial={{ opacity: 0, y: 25 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.35, delay: 0.112 }}
+        style={{ marginTop: 18 }}
+      >
+        <h3 style={{ marginTop: 0 }}>Generation presets</h3>
+        <p className="notice--muted">
+          Named sampling settings for generations, continuations and A/B runs. Each draft picks one in the studio, and
+          the settings used are stored with the text they produced. Blank fields use the provider's default.
+        </p>
+        <GenerationPresetSettings />
+      </motion.section>
+
+      <motion.section
+        className="glass-card"
+        initial={{ opacity: 0, y: 26 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.35, delay: 0.115 }}
+        style={{ marginTop: 18 }}
+      >
+        <h3 style={{ marginTop: 0 }}>Response cache</h3>
+        <p className="notice--muted">
+          Off by default. When on, repeating an A/B comparison or feedback request with the same provider, model, settings,
+          prompt and metadata returns the stored reply instead of billing the provider again. Streamed drafts are never
+          cached.
+        </p>
+        <ResponseCacheSettings />
+      </motion.section>
+
       <motion.section
         className="glass-card"
         initial={{ opacity: 0, y: 26 }}
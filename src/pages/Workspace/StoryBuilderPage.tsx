@@ -1,4 +1,4 @@
-﻿import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
+﻿import { FormEvent, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import {
@@ -11,11 +11,26 @@ import {
   ExternalLink,
   Upload,
   Loader2,
+  Square,
+  RefreshCw,
+  FastForward,
+  Eye,
+  Database,
 } from "lucide-react";
 import { StoryMetadataForm } from "../../components/workspace/StoryMetadataForm";
 import { PromptPalettePanel } from "../../components/workspace/PromptPalettePanel";
 import { ModelABExplorerPanel } from "../../components/workspace/ModelABExplorerPanel";
 import { ContinuityCoachPanel } from "../../components/workspace/ContinuityCoachPanel";
+import { CustomProviderForm } from "../../components/workspace/CustomProviderForm";
+import { MockProviderSettings } from "../../components/workspace/MockProviderSettings";
+import { KeyVaultPanel } from "../../components/workspace/KeyVaultPanel";
+import { BranchPanel } from "../../components/workspace/BranchPanel";
+import { ManuscriptNavigator } from "../../components/workspace/ManuscriptNavigator";
+import { FeedbackSuggestionList } from "../../components/workspace/FeedbackSuggestionList";
+import { RequestQueuePanel } from "../../components/workspace/RequestQueuePanel";
+import { RevisionHistoryPanel } from "../../components/workspace/RevisionHistoryPanel";
+import { StoryOutputEditor } from "../../components/workspace/StoryOutputEditor";
+import { UndoHistoryBar } from "../../components/workspace/UndoHistoryBar";
 import { Skeleton } from "../../components/ui/Skeleton";
 import {
   useWorkspace,
@@ -29,13 +44,73 @@ import {
   ContinuityEntryType,
   SensoryPass,
   SensoryPassType,
+  FeedbackThread,
+  FeedbackIssue,
+  GenerationSource,
+  ProvenanceInput,
+  ProvenanceKind,
 } from "../../context/WorkspaceContext";
-import { useProviderRegistry } from "../../context/ProviderContext";
+import { isCatalogueExpired, modelStatus, providerRequiresKey, useProviderRegistry } from "../../context/ProviderContext";
 import type { ProviderDescriptor, ProviderId } from "../../context/ProviderContext";
 import type { ContinuityWarning } from "../../components/workspace/ContinuityCoachPanel";
 import { useDebug } from "../../context/DebugContext";
-import { generateStory, requestFeedback } from "../../lib/storyEngine";
-import { AIClientError } from "../../lib/clients/base";
+import {
+  LengthPassProgress,
+  continueStory,
+  estimateContinuationCost,
+  estimateFeedbackCost,
+  estimateLengthCost,
+  estimateStoryCost,
+  generateStory,
+  generateToLength,
+  requestSectionedFeedback,
+  requestSectionedPass,
+  SectionProgress,
+} from "../../lib/storyEngine";
+import { CostReport, PRICING_UPDATED, countTokens, formatCost } from "../../lib/pricing";
+import { checkBudget } from "../../lib/usageLedger";
+import { PROVENANCE_KIND_LABELS, describeProvenance, summariseProvenance } from "../../lib/provenance";
+import {
+  GenerationPreset,
+  describeParams,
+  getGenerationPresets,
+  resolvePreset,
+  subscribeToPresets,
+  unsupportedParams,
+} from "../../lib/generationPresets";
+import { continuationMaxTokens, countWords, planContinuation } from "../../lib/continuation";
+import { getResponseCacheConfig } from "../../lib/responseCache";
+import { composeSceneContext, findScene, sceneCount, scenePerspective } from "../../lib/manuscript";
+import { branchName } from "../../lib/branches";
+import {
+  EDIT_ACTIONS,
+  EditAction,
+  RewriteProposal,
+  TextRange,
+  fitReplacement,
+  locateRange,
+  replaceRange,
+  rewriteTokenLimit,
+  selectionContext,
+} from "../../lib/selectionEdit";
+import {
+  composeContinuityNotes,
+  composeInstruction,
+  composeSelectionInstruction,
+  composeStorySystemPrompt,
+  composeStoryUserPrompt,
+  targetWordCount,
+} from "../../lib/prompts/storyTemplates";
+import { applySuggestion, mergeSectionFeedback, parseStructuredFeedback } from "../../lib/feedback";
+import {
+  AIClientError,
+  AIResponse,
+  FailoverTarget,
+  RequestControls,
+  StoryBuildRequest,
+  TokenUsage,
+  isCancellation,
+} from "../../lib/clients/base";
 import { useLibrary } from "../../context/LibraryContext";
 import { useAuth } from "../../context/AuthContext";
 import { useAchievements } from "../../context/AchievementsContext";
@@ -69,23 +144,6 @@ function tokensFor(metadata: StoryMetadata): number {
   }
 }
 
-type CostRate = { input: number; output: number };
-
-const PROVIDER_COST_RATES: Record<string, CostRate> = {
-  openai: { input: 0.00015, output: 0.0006 },
-  anthropic: { input: 0.0008, output: 0.003 },
-  gemini: { input: 0.000125, output: 0.000375 },
-  deepseek: { input: 0.0002, output: 0.0004 },
-  default: { input: 0.0002, output: 0.0006 },
-};
-
-function estimateGenerationCost(providerId: ProviderId, tokens: number): number {
-  const key = providerId.startsWith("custom") ? "default" : providerId;
-  const rates = PROVIDER_COST_RATES[key] ?? PROVIDER_COST_RATES.default;
-  const total = (tokens / 1000) * (rates.input + rates.output);
-  return Number(total.toFixed(3));
-}
-
 const CONTINUITY_STOP_WORDS = new Set([
   "The",
   "They",
@@ -111,24 +169,19 @@ const CONTINUITY_STOP_WORDS = new Set([
   "Upon",
 ]);
 
-const SENSORY_PASS_CONFIG: Record<SensoryPassType, { label: string; description: string; instruction: string }> = {
+/** Pass instructions come from the `pass-*` prompt templates. */
+const SENSORY_PASS_CONFIG: Record<SensoryPassType, { label: string; description: string }> = {
   sensory: {
     label: "Sensory detail",
     description: "Layer richer sense impressions into the current draft.",
-    instruction:
-      "Enhance the provided excerpt by weaving in vivid sensory details across sight, sound, smell, taste, and touch. Preserve plot, character voice, and approximate length. Return the rewritten passage only.",
   },
   dialogue: {
     label: "Dialogue polish",
     description: "Sharpen voices, subtext, and conversational rhythm.",
-    instruction:
-      "Review the excerpt and return a refined version that tightens dialogue, strengthens subtext, and keeps character voices consistent. Maintain story beats and format.",
   },
   pacing: {
     label: "Pacing tighten",
     description: "Speed up slack moments without losing clarity.",
-    instruction:
-      "Identify sluggish portions of the excerpt and rewrite them for brisker pacing while preserving essential information. Respond with the adjusted prose and brief inline notes for major cuts.",
   },
 };
 
@@ -162,8 +215,13 @@ export function StoryBuilderPage() {
     activeDraft,
     createDraft,
     updateDraft,
+    appendContent,
     selectDraft,
+    selectScene,
     addFeedback,
+    resolveFeedbackIssue,
+    labelRevision,
+    restoreRevision,
     promptRecipes,
     createPromptRecipe,
     deletePromptRecipe,
@@ -171,9 +229,26 @@ export function StoryBuilderPage() {
     updateContinuityEntry,
     deleteContinuityEntry,
     addSensoryPass,
+    recordRecipeUse,
+    storageWarning,
   } = useWorkspace();
-  const { providers, selectedProvider, selectedModel, selectProvider, apiKeys, setApiKey, setModel, modelSelections } =
-    useProviderRegistry();
+  const {
+    providers,
+    selectedProvider,
+    selectedModel,
+    selectProvider,
+    apiKeys,
+    setApiKey,
+    vaultStatus,
+    setModel,
+    modelSelections,
+    registerCustomProvider,
+    removeCustomProvider,
+    getRetryPolicy,
+    failoverOrder,
+    catalogues,
+    refreshModels,
+  } = useProviderRegistry();
   const { append: logDebug } = useDebug();
 
   const [metadata, setMetadata] = useState<StoryMetadata>(activeDraft?.metadata ?? defaultMetadata);
@@ -181,27 +256,59 @@ export function StoryBuilderPage() {
   const [summary, setSummary] = useState<string>(activeDraft?.summary ?? defaultSummary);
   const [tagsInput, setTagsInput] = useState("#Dreamscribe");
   const [isGenerating, setGenerating] = useState(false);
+  const [continueWords, setContinueWords] = useState(400);
+  const [showPromptPreview, setShowPromptPreview] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const presets = useSyncExternalStore(subscribeToPresets, getGenerationPresets);
+  const activePreset = resolvePreset(activeDraft?.presetId);
+  const [sectionByDefault, setSectionByDefault] = useState(false);
+  const [generationStats, setGenerationStats] = useState<{
+    streaming: boolean;
+    tokens: number;
+    usage?: TokenUsage;
+    model?: string;
+    requestedModel?: string;
+    cost?: CostReport;
+  } | null>(null);
+  const [lengthPasses, setLengthPasses] = useState<LengthPassProgress[]>([]);
   const [storyError, setStoryError] = useState<string | null>(null);
   const [feedbackFocus, setFeedbackFocus] = useState<"grammar" | "dialogue" | "flow" | "custom">("grammar");
   const [customFeedback, setCustomFeedback] = useState("");
   const [feedbackError, setFeedbackError] = useState<string | null>(null);
   const [feedbackLoading, setFeedbackLoading] = useState<"general" | "dialogue" | null>(null);
+  const [feedbackSections, setFeedbackSections] = useState<SectionProgress | null>(null);
   const [publishError, setPublishError] = useState<string | null>(null);
   const [isPublishing, setPublishing] = useState(false);
   const [coverVariants, setCoverVariants] = useState<Array<{ id: string; src: string; styleId: string }>>([]);
   const [sensoryPassLoading, setSensoryPassLoading] = useState<SensoryPassType | null>(null);
+  const [sensoryPassSections, setSensoryPassSections] = useState<SectionProgress | null>(null);
   const [sensoryPassError, setSensoryPassError] = useState<string | null>(null);
+  const [rewriteProposal, setRewriteProposal] = useState<RewriteProposal | null>(null);
+  const [rewriteLoading, setRewriteLoading] = useState(false);
+  const [rewriteError, setRewriteError] = useState<string | null>(null);
   const [selectedCoverId, setSelectedCoverId] = useState<string | null>(null);
 
   const [memorySearch, setMemorySearch] = useState("");
   const [memoryDraftId, setMemoryDraftId] = useState<string | null>(null);
   const [memoryInput, setMemoryInput] = useState("");
   const memoryBaseContent = useRef<string>("");
+  const memorySceneId = useRef<string | undefined>(undefined);
 
   const [abWorkingExperiment, setAbWorkingExperiment] = useState<ModelABExperiment | null>(null);
   const [abError, setAbError] = useState<string | null>(null);
+  const [refreshingModels, setRefreshingModels] = useState<ProviderId | null>(null);
+  const [modelRefreshError, setModelRefreshError] = useState<string | null>(null);
+  const inflightRequests = useRef(new Set<AbortController>());
 
   const activeDraftId = activeDraft?.id ?? null;
+  const activeScenePosition = activeDraft ? findScene(activeDraft.chapters, activeDraft.activeSceneId) : undefined;
+  const activeScene = activeScenePosition?.scene ?? null;
+  const activeSceneId = activeScene?.id ?? "";
+
+  useEffect(() => {
+    const controllers = inflightRequests.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
 
   useEffect(() => {
     if (!activeDraft) {
@@ -224,6 +331,7 @@ export function StoryBuilderPage() {
   useEffect(() => {
     setCoverVariants([]);
     setSelectedCoverId(null);
+    setGenerationStats(null);
   }, [activeDraftId]);
 
   useEffect(() => {
@@ -240,17 +348,58 @@ export function StoryBuilderPage() {
     if (!memoryDraftId || !activeDraftId || memoryDraftId !== activeDraftId) return;
     const base = memoryBaseContent.current ?? "";
     const nextContent = memoryInput ? `${base}\n\n${memoryInput}` : base;
-    if (activeDraft?.content !== nextContent) {
-      updateDraft(activeDraftId, { content: nextContent });
+    const sceneId = memorySceneId.current;
+    const current = activeDraft && findScene(activeDraft.chapters, sceneId);
+    if (current && current.scene.content !== nextContent) {
+      updateDraft(activeDraftId, { content: nextContent }, { cause: "memory", sceneId });
     }
   }, [memoryInput, memoryDraftId, activeDraftId, activeDraft, updateDraft]);
 
-  const activeContent = activeDraft?.content ?? "";
+  /** The text of the scene being worked on; requests read and write this, not the whole manuscript. */
+  const activeContent = activeScene?.content ?? "";
+  const manuscript = activeDraft?.content ?? "";
+  const sceneContent = (sceneId: string | undefined) =>
+    (activeDraft && findScene(activeDraft.chapters, sceneId ?? activeSceneId)?.scene.content) ?? "";
   const activeKey = apiKeys[selectedProvider.id] ?? "";
   const abExperiments = activeDraft?.abExperiments ?? [];
   const experimentsForDisplay = abWorkingExperiment ? [abWorkingExperiment, ...abExperiments] : abExperiments;
   const isAbRunning = Boolean(abWorkingExperiment);
+  const ignoredParams = unsupportedParams(selectedProvider, activePreset.params);
+  const isBusy = isGenerating || feedbackLoading !== null || sensoryPassLoading !== null || rewriteLoading || isAbRunning;
   const continuityEntries = activeDraft?.continuity.entries ?? [];
+  const cacheEnabled = getResponseCacheConfig().enabled;
+  const coachNotes = useMemo(() => composeContinuityNotes(continuityEntries), [continuityEntries]);
+  const chapters = activeDraft?.chapters;
+  const continuityNotes = useMemo(
+    () =>
+      [coachNotes, chapters ? composeSceneContext(chapters, activeSceneId, metadata.perspective) : ""]
+        .filter(Boolean)
+        .join("\n\n"),
+    [coachNotes, chapters, activeSceneId, metadata.perspective]
+  );
+  /** Story settings with the perspective of the scene being written. */
+  const perspective = scenePerspective(activeScenePosition, metadata.perspective);
+  const sceneMetadata = useMemo(() => ({ ...metadata, perspective }), [metadata, perspective]);
+  const costEstimates = useMemo(
+    () =>
+      new Map(
+        providers.map((provider) => [
+          provider.id,
+          estimateLengthCost(
+            {
+              provider,
+              model: modelSelections[provider.id] ?? provider.defaultModel,
+              metadata: sceneMetadata,
+              prompt,
+              continuity: continuityNotes,
+              maxTokens: tokensFor(metadata),
+            },
+            targetWordCount(metadata.targetLength)
+          ),
+        ])
+      ),
+    [providers, modelSelections, metadata, sceneMetadata, prompt, continuityNotes]
+  );
   const sensoryPasses = activeDraft?.sensoryPasses ?? [];
   const promptRecipesSorted = [...promptRecipes].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
   const providerMap = useMemo(() => new Map(providers.map((provider) => [provider.id, provider])), [providers]);
@@ -263,6 +412,7 @@ export function StoryBuilderPage() {
         .filter(Boolean).length
     : 0;
   const lastGeneratedAt = activeDraft?.generatedAt ? new Date(activeDraft.generatedAt) : null;
+  const provenance = useMemo(() => activeDraft?.provenance ?? [], [activeDraft?.provenance]);
   const lastFeedback = activeDraft?.feedbackThreads?.[0] ?? null;
   const lastSensoryPass = sensoryPasses[0] ?? null;
   const recentExperiment = experimentsForDisplay[0] ?? null;
@@ -372,7 +522,7 @@ export function StoryBuilderPage() {
   }, [continuityEntries]);
 
 const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
-    const text = `${prompt}\n${summary}\n${activeContent}`;
+    const text = `${prompt}\n${summary}\n${manuscript}`;
     const textLower = text.toLowerCase();
     const nameMatches = Array.from(text.matchAll(/\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?\b/g)).map((match) => match[0]);
     const uniqueNames = Array.from(new Set(nameMatches.map((name) => name.trim())));
@@ -424,15 +574,25 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
     });
 
   return notices.slice(0, 8);
-}, [continuityEntries, prompt, summary, activeContent]);
+}, [continuityEntries, prompt, summary, manuscript]);
 
   const timelineItems = useMemo(() => {
     const items: Array<{ id: string; title: string; detail: string; timestamp: Date; type: "generation" | "experiment" | "feedback" | "sensory" }> = [];
-    if (lastGeneratedAt) {
+    provenance.forEach((record) => {
+      items.push({
+        id: `prov-${record.id}`,
+        title: PROVENANCE_KIND_LABELS[record.kind],
+        detail: describeProvenance(record),
+        timestamp: new Date(record.createdAt),
+        type: "generation",
+      });
+    });
+    // Drafts generated before provenance was recorded only know when.
+    if (lastGeneratedAt && !provenance.length) {
       items.push({
         id: `gen-${activeDraftId ?? "draft"}`,
         title: "Story generated",
-        detail: `Model ${selectedProvider.label} · ${selectedModel}`,
+        detail: "Model not recorded",
         timestamp: lastGeneratedAt,
         type: "generation",
       });
@@ -468,7 +628,7 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
     return items
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, 12);
-  }, [abExperiments, activeDraft?.feedbackThreads, sensoryPasses, lastGeneratedAt, selectedProvider.label, selectedModel, activeDraftId]);
+  }, [abExperiments, activeDraft?.feedbackThreads, sensoryPasses, lastGeneratedAt, provenance, activeDraftId]);
 
   const matchingMemoryDrafts = useMemo(() => {
     const term = memorySearch.trim().toLowerCase();
@@ -482,22 +642,20 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
   const feedbackInstruction = useMemo(() => {
     switch (feedbackFocus) {
       case "grammar":
-        return "Provide grammar, spelling, and clarity adjustments. Highlight concrete edits.";
       case "dialogue":
-        return "Evaluate dialogue authenticity, subtext, and pacing. Suggest specific line edits.";
       case "flow":
-        return "Analyze story structure, pacing, and transitions. Recommend improvements.";
+        return composeInstruction(`focus-${feedbackFocus}`, sceneMetadata, continuityNotes);
       case "custom":
         return customFeedback || "Offer targeted feedback based on the author's note.";
       default:
         return "";
     }
-  }, [feedbackFocus, customFeedback]);
+  }, [feedbackFocus, customFeedback, sceneMetadata, continuityNotes]);
 
   const handleDownload = () => {
-    if (!activeDraft?.content) return;
+    if (!activeDraft || !manuscript) return;
     const element = document.createElement("a");
-    const blob = new Blob([activeDraft.content], { type: "text/plain" });
+    const blob = new Blob([manuscript], { type: "text/plain" });
     element.href = URL.createObjectURL(blob);
     element.download = `${activeDraft.metadata.title || "story"}.txt`;
     element.click();
@@ -506,8 +664,8 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
 
 
   const handleCopy = async () => {
-    if (!activeDraft?.content) return;
-    await navigator.clipboard.writeText(activeDraft.content);
+    if (!manuscript) return;
+    await navigator.clipboard.writeText(manuscript);
   };
 
   const addCoverVariant = (src: string, styleId: string) => {
@@ -592,6 +750,7 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
       setMetadata((prev) => ({ ...prev, tone: recipe.toneNotes ?? prev.tone }));
     }
     assignModelFromRecipe(recipe);
+    if (activeDraftId) recordRecipeUse(activeDraftId, recipe.id);
     logDebug({
       level: "request",
       summary: `Applied prompt recipe "${recipe.title}"`,
@@ -614,6 +773,7 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
       setMetadata((prev) => ({ ...prev, tone: recipe.toneNotes || prev.tone }));
     }
     assignModelFromRecipe(recipe);
+    if (activeDraftId) recordRecipeUse(activeDraftId, recipe.id);
     logDebug({
       level: "info",
       summary: `Remixed prompt recipe "${recipe.title}"`,
@@ -700,22 +860,39 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
 
   const handleSensoryPass = async (kind: SensoryPassType) => {
     if (!activeDraft || !ensureKey()) return;
-    if (!activeDraft.content.trim()) {
+    if (!activeContent.trim()) {
       setSensoryPassError("Generate story content before running a stylistic pass.");
       return;
     }
+    const instruction = composeInstruction(`pass-${kind}`, sceneMetadata, continuityNotes);
+    const estimate = estimateFeedbackCost({
+      provider: selectedProvider,
+      model: selectedModel,
+      metadata: sceneMetadata,
+      draft: activeContent,
+      instruction,
+      continuity: continuityNotes,
+    });
+    if (!ensureBudget([{ provider: selectedProvider, estimatedCost: estimate.cost }])) return;
     const config = SENSORY_PASS_CONFIG[kind];
     setSensoryPassError(null);
     setSensoryPassLoading(kind);
 
+    const controller = beginRequest();
     const request = {
       provider: selectedProvider,
       apiKey: activeKey,
-      metadata,
-      draft: activeDraft.content,
+      metadata: sceneMetadata,
+      draft: activeContent,
       focus: "custom" as const,
-      instruction: config.instruction,
+      instruction,
+      continuity: continuityNotes,
+      bypassCache,
+      queue: { label: `${config.label} pass · ${selectedProvider.label}` },
+      ledger: { kind: "sensory" as const, draftId: activeDraft.id },
       model: selectedModel,
+      signal: controller.signal,
+      ...controlsFor(selectedProvider),
     };
 
     logDebug({
@@ -725,20 +902,31 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
     });
 
     try {
-      const response = await requestFeedback(request);
+      const response = await requestSectionedPass(request, {
+        mode: sectionByDefault ? "always" : "auto",
+        onSection: (progress) => setSensoryPassSections(progress.total > 1 ? progress : null),
+      });
       const pass: SensoryPass = {
         id: generateId("pass"),
         kind,
         createdAt: new Date().toISOString(),
         response: response.content,
+        cached: response.cached,
+        sections: response.sections.length || undefined,
+        source: generationSource(response, null),
+        sceneId: activeSceneId,
       };
       addSensoryPass(activeDraft.id, pass);
       logDebug({
-        level: "response",
-        summary: `${config.label} pass ready`,
-        payload: { passId: pass.id, kind },
+        level: response.cached ? "cache" : "response",
+        summary: `${config.label} pass ready${response.cached ? " (cache hit)" : ""}`,
+        payload: { passId: pass.id, kind, servedModel: response.model, sections: response.sections.length || null },
       });
     } catch (error) {
+      if (isCancellation(error)) {
+        logDebug({ level: "cancelled", summary: `${config.label} pass cancelled`, payload: { provider: selectedProvider.id, kind } });
+        return;
+      }
       const message = resolveErrorMessage(error, `${config.label} pass failed`);
       setSensoryPassError(message);
       const details =
@@ -749,7 +937,9 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
         payload: { provider: selectedProvider.id, kind, ...details },
       });
     } finally {
+      finishRequest(controller);
       setSensoryPassLoading(null);
+      setSensoryPassSections(null);
     }
   };
 
@@ -757,19 +947,158 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
     await navigator.clipboard.writeText(pass.response);
   };
 
+  /** Offers the pass as a replacement for its scene, reviewed like a selection rewrite. */
   const handleAdoptSensoryPass = (pass: SensoryPass) => {
     if (!activeDraftId || !activeDraft) return;
     const label = SENSORY_PASS_CONFIG[pass.kind].label;
-    const note = `\n\n[${label} pass]\n${pass.response.trim()}`;
-    updateDraft(activeDraftId, { content: `${activeDraft.content}${note}` });
+    const sceneId = pass.sceneId ?? activeSceneId;
+    if (!findScene(activeDraft.chapters, sceneId)) {
+      setSensoryPassError("The scene this pass was made for no longer exists.");
+      return;
+    }
+    if (sceneId !== activeSceneId) selectScene(activeDraftId, sceneId);
+    const original = sceneContent(sceneId);
+    setRewriteError(null);
+    setRewriteProposal({
+      id: generateId("rewrite"),
+      draftId: activeDraftId,
+      sceneId,
+      start: 0,
+      end: original.length,
+      original,
+      replacement: fitReplacement(original, pass.response),
+      label: `${label} pass`,
+      cause: "sensory-pass",
+      provenance: pass.source && {
+        ...pass.source,
+        kind: "sensory-pass",
+        prompt: `${label} pass`,
+        words: countWords(pass.response),
+        cached: pass.cached,
+      },
+    });
     logDebug({
       level: "info",
-      summary: "Sensory pass appended to draft",
+      summary: "Sensory pass ready to review",
       payload: { passId: pass.id, kind: pass.kind },
     });
   };
 
-  const handleRunABExperiment = async (selection: Array<{ providerId: ProviderId; model: string }>) => {
+  const handleRewriteSelection = async (action: EditAction, range: TextRange, authorPrompt: string) => {
+    if (!activeDraft || !ensureKey()) return;
+    const config = EDIT_ACTIONS[action];
+    const draftId = activeDraft.id;
+    const sceneId = activeSceneId;
+    const original = activeContent.slice(range.start, range.end);
+    if (!original.trim()) return;
+    const { before, after } = selectionContext(activeContent, range);
+    const instruction = config.template
+      ? composeInstruction(config.template, sceneMetadata, continuityNotes, authorPrompt)
+      : authorPrompt;
+    const label = `${config.label}${authorPrompt ? `: ${authorPrompt}` : ""}`;
+    const passage = {
+      provider: selectedProvider,
+      model: selectedModel,
+      metadata: sceneMetadata,
+      draft: original.trim(),
+      instruction: composeSelectionInstruction(sceneMetadata, instruction, before, after, continuityNotes),
+      continuity: continuityNotes,
+      maxTokens: rewriteTokenLimit(action, original),
+    };
+    if (!ensureBudget([{ provider: selectedProvider, estimatedCost: estimateFeedbackCost(passage).cost }])) return;
+    setRewriteError(null);
+    setRewriteLoading(true);
+
+    const controller = beginRequest();
+    const request = {
+      ...passage,
+      apiKey: activeKey,
+      focus: "custom" as const,
+      bypassCache,
+      queue: { label: `${config.label} selection · ${selectedProvider.label}` },
+      ledger: { kind: "rewrite" as const, draftId },
+      signal: controller.signal,
+      ...controlsFor(selectedProvider),
+    };
+
+    logDebug({
+      level: "request",
+      summary: `${config.label} selection`,
+      payload: { provider: selectedProvider.id, model: selectedModel, action, words: countWords(original) },
+    });
+
+    try {
+      const response = await requestSectionedPass(request, { mode: "auto" });
+      const replacement = fitReplacement(original, response.content);
+      setRewriteProposal({
+        id: generateId("rewrite"),
+        draftId,
+        sceneId,
+        ...range,
+        original,
+        replacement,
+        label,
+        cause: "rewrite",
+        provenance: { ...provenanceFor("rewrite", response, instruction, null), words: countWords(replacement) },
+      });
+      logDebug({
+        level: response.cached ? "cache" : "response",
+        summary: `${config.label} selection ready${response.cached ? " (cache hit)" : ""}`,
+        payload: { action, servedModel: response.model, words: countWords(replacement) },
+      });
+    } catch (error) {
+      if (isCancellation(error)) {
+        logDebug({ level: "cancelled", summary: `${config.label} selection cancelled`, payload: { provider: selectedProvider.id, action } });
+        return;
+      }
+      const message = resolveErrorMessage(error, `${config.label} selection failed`);
+      setRewriteError(message);
+      const details =
+        error instanceof AIClientError ? { status: error.status, payload: error.payload } : { error: String(error) };
+      logDebug({
+        level: "error",
+        summary: message,
+        payload: { provider: selectedProvider.id, action, ...details },
+      });
+    } finally {
+      finishRequest(controller);
+      setRewriteLoading(false);
+    }
+  };
+
+  const handleAcceptRewrite = () => {
+    if (!rewriteProposal) return;
+    const draft = drafts.find((entry) => entry.id === rewriteProposal.draftId);
+    const scene = draft && findScene(draft.chapters, rewriteProposal.sceneId)?.scene;
+    const range = scene ? locateRange(scene.content, rewriteProposal) : null;
+    if (!scene || !range) {
+      setRewriteError("The passage changed after the rewrite was requested, so it could not be placed. Select it again.");
+      setRewriteProposal(null);
+      return;
+    }
+    updateDraft(
+      rewriteProposal.draftId,
+      { content: replaceRange(scene.content, range, rewriteProposal.replacement) },
+      { cause: rewriteProposal.cause, provenance: rewriteProposal.provenance, sceneId: rewriteProposal.sceneId }
+    );
+    setRewriteProposal(null);
+    logDebug({
+      level: "info",
+      summary: `${rewriteProposal.label} accepted`,
+      payload: { proposalId: rewriteProposal.id, sceneId: rewriteProposal.sceneId },
+    });
+  };
+
+  const handleRejectRewrite = () => {
+    if (!rewriteProposal) return;
+    setRewriteProposal(null);
+    logDebug({ level: "info", summary: `${rewriteProposal.label} rejected`, payload: { proposalId: rewriteProposal.id } });
+  };
+
+  const handleRunABExperiment = async (
+    selection: Array<{ providerId: ProviderId; model: string }>,
+    options: { bypassCache: boolean } = { bypassCache: false }
+  ) => {
     if (!activeDraft) {
       setAbError("Create or select a draft before running a comparison.");
       return;
@@ -788,25 +1117,37 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
       return;
     }
 
-    const missingKey = resolved.find(({ provider }) => !apiKeys[provider.id]?.trim());
+    const missingKey = resolved.find(({ provider }) => providerRequiresKey(provider) && !apiKeys[provider.id]?.trim());
     if (missingKey) {
-      setAbError(`Add an API key for ${missingKey.provider.label} before running the comparison.`);
+      setAbError(
+        vaultStatus === "locked"
+          ? "Unlock your saved keys before running the comparison."
+          : `Add an API key for ${missingKey.provider.label} before running the comparison.`
+      );
       return;
     }
 
     const tokensEstimate = tokensFor(metadata);
+    const estimates = resolved.map(({ provider, model }) =>
+      estimateStoryCost({ provider, model, metadata: sceneMetadata, prompt, continuity: continuityNotes, maxTokens: tokensEstimate })
+    );
+    if (!ensureBudget(resolved.map(({ provider }, index) => ({ provider, estimatedCost: estimates[index].cost })))) return;
+
     const timestamp = new Date().toISOString();
     const experimentId = generateId("ab");
-    const variants: ModelVariantResult[] = resolved.map(({ provider, model }) => ({
-      id: generateId("variant"),
-      providerId: provider.id,
-      providerLabel: provider.label,
-      model,
-      status: "pending",
-      costEstimate: estimateGenerationCost(provider.id, tokensEstimate),
-      estimatedTokens: tokensEstimate,
-      createdAt: timestamp,
-    }));
+    const variants: ModelVariantResult[] = resolved.map(({ provider, model }, index) => {
+      const estimate = estimates[index];
+      return {
+        id: generateId("variant"),
+        providerId: provider.id,
+        providerLabel: provider.label,
+        model,
+        status: "pending",
+        costEstimate: estimate.cost,
+        estimatedTokens: estimate.inputTokens + estimate.outputTokens,
+        createdAt: timestamp,
+      };
+    });
 
     const experiment: ModelABExperiment = {
       id: experimentId,
@@ -815,12 +1156,15 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
       summary,
       variants,
       winnerId: null,
+      presetName: activePreset.name,
+      params: activePreset.params,
     };
 
     setAbError(null);
     setAbWorkingExperiment(experiment);
 
     const mutableVariants = variants.map((variant) => ({ ...variant }));
+    const controller = beginRequest();
 
     await Promise.all(
       mutableVariants.map(async (variant) => {
@@ -831,13 +1175,26 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
         const request = {
           provider,
           apiKey,
-          metadata,
+          metadata: sceneMetadata,
           prompt,
-          temperature: 0.72,
+          continuity: continuityNotes,
+          bypassCache: options.bypassCache,
+          ledger: { kind: "ab-variant", draftId: activeDraft.id },
+          params: activePreset.params,
           maxTokens: tokensEstimate,
           model,
+          signal: controller.signal,
+          // A/B runs queue behind interactive work; latency is timed from when the request leaves the queue.
+          queue: {
+            priority: "background",
+            label: `A/B · ${provider.label} ${model}`,
+            onStart: () => {
+              started = performance.now();
+            },
+          },
+          ...controlsFor(provider),
         } as const;
-        const started = performance.now();
+        let started = performance.now();
         logDebug({
           level: "request",
           summary: `A/B request - ${provider.label}`,
@@ -848,15 +1205,28 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
           Object.assign(variant, {
             status: "success" as const,
             content: response.content,
-            tokensUsed: response.tokensUsed,
+            tokensUsed:
+              response.tokensUsed ?? (response.cost ? response.cost.actual.inputTokens + response.cost.actual.outputTokens : undefined),
+            usage: response.cost
+              ? { inputTokens: response.cost.actual.inputTokens, outputTokens: response.cost.actual.outputTokens }
+              : response.usage,
+            actualCost: response.cost?.actual.cost,
+            costMeasured: response.cost?.measured,
+            servedModel: response.model,
             durationMs: performance.now() - started,
+            cached: response.cached,
           });
           logDebug({
-            level: "response",
-            summary: `A/B result - ${provider.label}`,
-            payload: { provider: provider.id, model, tokensUsed: response.tokensUsed },
+            level: response.cached ? "cache" : "response",
+            summary: `A/B result - ${provider.label}${response.cached ? " (cache hit)" : ""}`,
+            payload: { provider: provider.id, model, servedModel: response.model, tokensUsed: response.tokensUsed, cost: response.cost },
           });
         } catch (error) {
+          if (isCancellation(error)) {
+            Object.assign(variant, { status: "error" as const, error: "Cancelled before completion" });
+            logDebug({ level: "cancelled", summary: `A/B request cancelled - ${provider.label}`, payload: { provider: provider.id, model } });
+            return;
+          }
           const message = resolveErrorMessage(error, `Failed to generate with ${provider.label}`);
           Object.assign(variant, { status: "error" as const, error: message });
           const details =
@@ -871,6 +1241,7 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
         }
       })
     );
+    finishRequest(controller);
 
     const finishedExperiment: ModelABExperiment = {
       ...experiment,
@@ -910,7 +1281,26 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
     if (!variant || variant.status !== "success" || !variant.content || !activeDraftId) {
       return;
     }
-    updateDraft(activeDraftId, { content: variant.content, generatedAt: new Date().toISOString() });
+    updateDraft(
+      activeDraftId,
+      { content: variant.content, generatedAt: new Date().toISOString() },
+      {
+        provenance: {
+          kind: "ab-variant",
+          providerId: variant.providerId,
+          providerLabel: variant.providerLabel,
+          model: variant.servedModel ?? variant.model,
+          presetName: sourceExperiment?.presetName,
+          params: sourceExperiment?.params,
+          prompt: sourceExperiment?.prompt,
+          inputTokens: variant.usage?.inputTokens,
+          outputTokens: variant.usage?.outputTokens,
+          cost: variant.actualCost,
+          words: countWords(variant.content),
+          cached: variant.cached,
+        },
+      }
+    );
     logDebug({
       level: "info",
       summary: "Adopted A/B variant output",
@@ -919,20 +1309,156 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
   };
 
 
+  const beginRequest = () => {
+    const controller = new AbortController();
+    inflightRequests.current.add(controller);
+    return controller;
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    inflightRequests.current.delete(controller);
+  };
+
+  const handleStop = () => {
+    inflightRequests.current.forEach((controller) => controller.abort());
+    inflightRequests.current.clear();
+  };
+
+  const controlsFor = (provider: ProviderDescriptor): Omit<RequestControls, "signal"> & Pick<StoryBuildRequest, "onFallback"> => ({
+    retry: {
+      policy: getRetryPolicy(provider.id),
+      onRetry: (attempt) =>
+        logDebug({
+          level: "retry",
+          summary: `${attempt.providerLabel} attempt ${attempt.attempt}/${attempt.maxAttempts} failed (${attempt.reason}), retrying in ${(attempt.delayMs / 1000).toFixed(1)}s`,
+          payload: { provider: provider.id, ...attempt },
+        }),
+    },
+    onFallback: (event) =>
+      logDebug({
+        level: "retry",
+        summary: `${event.providerLabel} ${event.failedModel} failed (${event.errorClass}), falling back to ${event.nextModel}`,
+        payload: { provider: provider.id, ...event },
+      }),
+  });
+
+  /** Backup providers for story generation, in the order set under Settings; keyless ones are left out. */
+  const failoverFor = (provider: ProviderDescriptor): Pick<StoryBuildRequest, "failover" | "onProviderFailover"> => ({
+    failover: failoverOrder.flatMap<FailoverTarget>((providerId) => {
+      const target = providers.find((item) => item.id === providerId);
+      if (!target || target.id === provider.id) return [];
+      const apiKey = apiKeys[target.id]?.trim() ?? "";
+      if (providerRequiresKey(target) && !apiKey) return [];
+      return [{ provider: target, apiKey, model: modelSelections[target.id] ?? target.defaultModel, retry: controlsFor(target).retry }];
+    }),
+    onProviderFailover: (event) =>
+      logDebug({
+        level: "failover",
+        summary: `${event.fromProvider} failed (${event.errorClass}), handing the request to ${event.toProvider}`,
+        payload: event,
+      }),
+  });
+
+  /** Pass `preset: null` for feedback and passes, which keep the clients' editing defaults. */
+  const generationSource = (response: AIResponse, preset: GenerationPreset | null = activePreset): GenerationSource => {
+    const providerId = response.providerId ?? selectedProvider.id;
+    const failedOver = providerId !== selectedProvider.id;
+    return {
+      providerId,
+      providerLabel: response.providerLabel ?? selectedProvider.label,
+      model: response.model ?? (failedOver ? undefined : selectedModel),
+      failoverFrom: failedOver ? selectedProvider.label : undefined,
+      presetName: preset?.name,
+      params: preset?.params,
+    };
+  };
+
+  const provenanceFor = (
+    kind: ProvenanceKind,
+    response: AIResponse,
+    requestPrompt: string,
+    preset: GenerationPreset | null = activePreset
+  ): ProvenanceInput => ({
+    ...generationSource(response, preset),
+    kind,
+    prompt: requestPrompt,
+    inputTokens: response.cost?.actual.inputTokens ?? response.usage?.inputTokens,
+    outputTokens: response.cost?.actual.outputTokens ?? response.usage?.outputTokens,
+    cost: response.cost?.actual.cost,
+    words: countWords(response.content),
+    cached: response.cached,
+  });
+
+  const handleRefreshModels = async (provider: ProviderDescriptor, force: boolean) => {
+    setRefreshingModels(provider.id);
+    setModelRefreshError(null);
+    logDebug({ level: "request", summary: `Model list request - ${provider.label}`, payload: { provider: provider.id, force } });
+    try {
+      const catalogue = await refreshModels(provider.id, { force, retry: controlsFor(provider).retry });
+      const stale = provider.models.filter((model) => modelStatus(catalogue, model) === "stale");
+      logDebug({
+        level: "response",
+        summary: `${provider.label} lists ${catalogue.models.length} models`,
+        payload: { provider: provider.id, fetchedAt: catalogue.fetchedAt, stale },
+      });
+    } catch (error) {
+      const message = resolveErrorMessage(error, `Could not list ${provider.label} models`);
+      setModelRefreshError(message);
+      const details = error instanceof AIClientError ? { status: error.status, payload: error.payload } : { error: String(error) };
+      logDebug({ level: "error", summary: message, payload: { provider: provider.id, ...details } });
+    } finally {
+      setRefreshingModels(null);
+    }
+  };
+
+  const selectedCatalogue = catalogues[selectedProvider.id];
+  useEffect(() => {
+    // Only providers the author already refreshed once are kept current automatically.
+    if (!selectedCatalogue || !isCatalogueExpired(selectedCatalogue)) return;
+    if (providerRequiresKey(selectedProvider) && !activeKey) return;
+    handleRefreshModels(selectedProvider, false);
+  }, [selectedProvider.id, selectedCatalogue?.fetchedAt, activeKey]);
+
   const ensureKey = () => {
-    if (!activeKey) {
-      logDebug({ level: "error", summary: "Missing API key", payload: { provider: selectedProvider.id } });
-      alert("Please enter an API key for the selected provider before continuing.");
+    if (providerRequiresKey(selectedProvider) && !activeKey) {
+      logDebug({ level: "error", summary: "Missing API key", payload: { provider: selectedProvider.id, vaultStatus } });
+      alert(
+        vaultStatus === "locked"
+          ? "Unlock your saved keys with the vault passphrase before continuing."
+          : "Please enter an API key for the selected provider before continuing."
+      );
       return false;
     }
     return true;
   };
 
+  /** Budget caps that block stop the request here; caps that only warn ask first. */
+  const ensureBudget = (requests: Array<{ provider: ProviderDescriptor; estimatedCost: number }>) => {
+    const checks = requests
+      .map(({ provider, estimatedCost }) => ({ provider, estimatedCost, ...checkBudget(provider.id, estimatedCost) }))
+      .filter((check) => check.status !== "ok");
+    if (!checks.length) return true;
+    const reasons = Array.from(new Set(checks.flatMap((check) => check.reasons)));
+    const blocked = checks.some((check) => check.status === "block");
+    logDebug({
+      level: blocked ? "error" : "info",
+      summary: blocked ? "Budget cap blocked the request" : "Budget cap warning",
+      payload: checks.map(({ provider, estimatedCost, reasons: broken }) => ({ provider: provider.id, estimatedCost, reasons: broken })),
+    });
+    if (blocked) {
+      alert(`This would go over your ${reasons.join(" and ")}. Raise the cap under Settings to continue.`);
+      return false;
+    }
+    return window.confirm(`This would go over your ${reasons.join(" and ")}. Send it anyway?`);
+  };
+
   const handleSelectMemoryDraft = (draftId: string) => {
     const draft = drafts.find((item) => item.id === draftId);
     if (!draft) return;
+    const scene = findScene(draft.chapters, draft.activeSceneId)?.scene;
     setMemoryDraftId(draftId);
-    memoryBaseContent.current = draft.content;
+    memoryBaseContent.current = scene?.content ?? "";
+    memorySceneId.current = scene?.id;
     setMemoryInput("");
     selectDraft(draftId);
   };
@@ -941,23 +1467,32 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
     setMemoryDraftId(null);
     setMemoryInput("");
     memoryBaseContent.current = "";
+    memorySceneId.current = undefined;
   };
 
   const handleGenerate = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!activeDraft || !ensureKey()) return;
+    if (!ensureBudget([{ provider: selectedProvider, estimatedCost: costEstimates.get(selectedProvider.id)?.cost ?? 0 }])) return;
 
     setStoryError(null);
     setGenerating(true);
 
+    const controller = beginRequest();
+    const targetWords = targetWordCount(metadata.targetLength);
     const request = {
       provider: selectedProvider,
       apiKey: activeKey,
-      metadata,
+      metadata: sceneMetadata,
       prompt,
-      temperature: 0.72,
+      continuity: continuityNotes,
+      params: activePreset.params,
       maxTokens: tokensFor(metadata),
       model: selectedModel,
+      signal: controller.signal,
+      ledger: { kind: "generation", draftId: activeDraft.id },
+      ...controlsFor(selectedProvider),
+      ...failoverFor(selectedProvider),
     } as const;
 
     logDebug({
@@ -966,30 +1501,232 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
       payload: {
         provider: selectedProvider.id,
         model: selectedModel,
-        temperature: request.temperature,
+        preset: activePreset.name,
+        params: request.params,
         maxTokens: request.maxTokens,
+        targetWords,
         promptLength: prompt.length,
       },
     });
 
+    const draftId = activeDraft.id;
+    const sceneId = activeSceneId;
+    const previousContent = activeContent;
+    updateDraft(draftId, { content: "" }, { transient: true, sceneId });
+    setGenerationStats({ streaming: true, tokens: 0 });
+    setLengthPasses([]);
+
     try {
-      const response = await generateStory(request);
-      updateDraft(activeDraft.id, { content: response.content, generatedAt: new Date().toISOString() });
+      const response = await generateToLength(
+        request,
+        {
+          onChunk: ({ delta, text, usage }) => {
+            appendContent(draftId, sceneId, delta);
+            setGenerationStats({ streaming: true, tokens: usage?.outputTokens ?? countTokens(text), usage });
+          },
+        },
+        {
+          targetWords,
+          onPass: (progress) => {
+            // Repeats are stripped after each pass, so replace the streamed text with the cleaned version.
+            updateDraft(draftId, { content: progress.text }, { transient: true, sceneId });
+            setLengthPasses((prev) => [...prev, progress]);
+            logDebug({
+              level: "info",
+              summary: `Pass ${progress.pass}: ${progress.words.toLocaleString()}/${progress.targetWords.toLocaleString()} words${
+                progress.truncated ? " (hit token limit)" : ""
+              }`,
+              payload: { ...progress, text: undefined },
+            });
+          },
+        }
+      );
+      const source = generationSource(response);
+      updateDraft(
+        draftId,
+        { content: response.content, generatedAt: new Date().toISOString() },
+        { provenance: provenanceFor("generation", response, prompt), sceneId }
+      );
+      if (response.error) {
+        setStoryError(
+          `Stopped after pass ${response.passes}: ${resolveErrorMessage(response.error, "a later pass failed")}. The text so far was kept.`
+        );
+      }
+      setGenerationStats({
+        streaming: false,
+        tokens: response.usage?.outputTokens ?? response.tokensUsed ?? countTokens(response.content),
+        usage: response.usage,
+        model: response.model,
+        requestedModel: response.requestedModel,
+        cost: response.cost,
+      });
       logDebug({
         level: "response",
-        summary: "Story generated",
+        summary: source.failoverFrom ? `Story generated by ${source.providerLabel} after failover` : "Story generated",
         payload: {
           provider: selectedProvider.id,
           model: selectedModel,
+          servedProvider: source.providerId,
+          servedModel: response.model,
           tokensUsed: response.tokensUsed,
+          usage: response.usage,
+          cost: response.cost,
+          passes: response.passes,
+          reachedTarget: response.reachedTarget,
         },
       });
     } catch (error) {
+      const partial = isCancellation(error) ? error.partialContent.trim() : "";
+      if (partial) {
+        // keep the streamed text so the author can continue from it
+        updateDraft(draftId, { content: partial, generatedAt: new Date().toISOString() }, { cause: "generate", sceneId });
+      } else {
+        // Nothing arrived, so the history never moved; put the text back without a step of its own.
+        updateDraft(draftId, { content: previousContent }, { transient: true, sceneId });
+      }
+      setGenerationStats(null);
+      if (isCancellation(error)) {
+        setStoryError(
+          partial
+            ? `Generation stopped. Kept ${partial.split(/\s+/).length.toLocaleString()} words of partial text.`
+            : "Generation stopped before any text arrived. Your previous draft was restored."
+        );
+        logDebug({
+          level: "cancelled",
+          summary: "Story generation cancelled",
+          payload: { provider: selectedProvider.id, model: selectedModel, partialLength: partial.length },
+        });
+        return;
+      }
       const message = resolveErrorMessage(error, "Failed to generate story");
       setStoryError(message);
       const details = error instanceof AIClientError ? { status: error.status, payload: error.payload } : { error: String(error) };
       logDebug({ level: "error", summary: message, payload: { provider: selectedProvider.id, ...details } });
     } finally {
+      finishRequest(controller);
+      setGenerating(false);
+    }
+  };
+
+  const handleContinue = async () => {
+    if (!activeDraft || !ensureKey()) return;
+    const baseContent = activeContent;
+    if (!baseContent.trim()) {
+      setStoryError("Generate or write some of the draft before asking for a continuation.");
+      return;
+    }
+    const words = Math.max(50, Math.round(continueWords));
+    const estimate = estimateContinuationCost(
+      { provider: selectedProvider, model: selectedModel, metadata: sceneMetadata, prompt, draft: baseContent, words, continuity: continuityNotes },
+      continuationMaxTokens(words)
+    );
+    if (!ensureBudget([{ provider: selectedProvider, estimatedCost: estimate.cost }])) return;
+
+    setStoryError(null);
+    setGenerating(true);
+    setLengthPasses([]);
+
+    const controller = beginRequest();
+    const request = {
+      provider: selectedProvider,
+      apiKey: activeKey,
+      metadata: sceneMetadata,
+      prompt,
+      draft: baseContent,
+      words,
+      continuity: continuityNotes,
+      params: activePreset.params,
+      maxTokens: continuationMaxTokens(words),
+      model: selectedModel,
+      signal: controller.signal,
+      ledger: { kind: "continuation", draftId: activeDraft.id },
+      ...controlsFor(selectedProvider),
+      ...failoverFor(selectedProvider),
+    } as const;
+    const context = planContinuation(selectedProvider, selectedModel, baseContent, request.maxTokens);
+
+    logDebug({
+      level: "request",
+      summary: `Continuation request - ${selectedProvider.label}`,
+      payload: {
+        provider: selectedProvider.id,
+        model: selectedModel,
+        words,
+        maxTokens: request.maxTokens,
+        excerptLength: context.excerpt.length,
+        trimmed: context.trimmed,
+        omittedWords: context.omittedWords,
+      },
+    });
+
+    const draftId = activeDraft.id;
+    const sceneId = activeSceneId;
+    const separator = /\n\s*$/.test(baseContent) ? "" : "\n\n";
+    appendContent(draftId, sceneId, separator);
+    setGenerationStats({ streaming: true, tokens: 0 });
+
+    try {
+      const response = await continueStory(request, {
+        onChunk: ({ delta, text, usage }) => {
+          appendContent(draftId, sceneId, delta);
+          setGenerationStats({ streaming: true, tokens: usage?.outputTokens ?? countTokens(text), usage });
+        },
+      });
+      const source = generationSource(response);
+      updateDraft(
+        draftId,
+        { content: baseContent + separator + response.content, generatedAt: new Date().toISOString() },
+        { provenance: provenanceFor("continuation", response, request.prompt), sceneId }
+      );
+      setGenerationStats({
+        streaming: false,
+        tokens: response.usage?.outputTokens ?? response.tokensUsed ?? countTokens(response.content),
+        usage: response.usage,
+        model: response.model,
+        requestedModel: response.requestedModel,
+        cost: response.cost,
+      });
+      logDebug({
+        level: "response",
+        summary: source.failoverFrom ? `Draft continued by ${source.providerLabel} after failover` : "Draft continued",
+        payload: {
+          provider: selectedProvider.id,
+          model: selectedModel,
+          servedProvider: source.providerId,
+          servedModel: response.model,
+          tokensUsed: response.tokensUsed,
+          usage: response.usage,
+          cost: response.cost,
+          addedWords: response.content.split(/\s+/).length,
+        },
+      });
+    } catch (error) {
+      const partial = isCancellation(error) ? error.partialContent.trim() : "";
+      updateDraft(
+        draftId,
+        { content: partial ? baseContent + separator + partial : baseContent },
+        partial ? { cause: "continue", sceneId } : { transient: true, sceneId }
+      );
+      setGenerationStats(null);
+      if (isCancellation(error)) {
+        setStoryError(
+          partial
+            ? `Continuation stopped. Kept ${partial.split(/\s+/).length.toLocaleString()} new words.`
+            : "Continuation stopped before any text arrived. Your draft is unchanged."
+        );
+        logDebug({
+          level: "cancelled",
+          summary: "Continuation cancelled",
+          payload: { provider: selectedProvider.id, model: selectedModel, partialLength: partial.length },
+        });
+        return;
+      }
+      const message = resolveErrorMessage(error, "Failed to continue story");
+      setStoryError(message);
+      const details = error instanceof AIClientError ? { status: error.status, payload: error.payload } : { error: String(error) };
+      logDebug({ level: "error", summary: message, payload: { provider: selectedProvider.id, ...details } });
+    } finally {
+      finishRequest(controller);
       setGenerating(false);
     }
   };
@@ -999,7 +1736,7 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
       setPublishError("Create or select a draft before publishing.");
       return;
     }
-    if (!activeDraft.content.trim()) {
+    if (!manuscript.trim()) {
       setPublishError("Generate or enter story content first.");
       return;
     }
@@ -1022,12 +1759,13 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
         authorId: user.id,
         authorName: user.displayName,
         metadata,
-        content: activeDraft.content,
+        content: manuscript,
         summary: summary.trim(),
         tags,
         coverImage: selectedVariant?.src,
         coverGallery: gallery,
         coverStyle: selectedVariant?.styleId,
+        provenance: summariseProvenance(provenance),
       });
       recordStoryPublished(story);
       logDebug({
@@ -1046,22 +1784,39 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
 
   const runFeedback = async (options: { focus: "grammar" | "dialogue" | "flow" | "custom"; instruction: string; loadingKey: "general" | "dialogue" }) => {
     if (!activeDraft || !ensureKey()) return;
-    if (!activeDraft.content) {
+    if (!activeContent) {
       setFeedbackError("Generate a story before requesting feedback.");
       return;
     }
 
+    const estimate = estimateFeedbackCost({
+      provider: selectedProvider,
+      model: selectedModel,
+      metadata: sceneMetadata,
+      draft: activeContent,
+      instruction: options.instruction,
+      format: "json",
+      continuity: continuityNotes,
+    });
+    if (!ensureBudget([{ provider: selectedProvider, estimatedCost: estimate.cost }])) return;
     setFeedbackError(null);
     setFeedbackLoading(options.loadingKey);
 
+    const controller = beginRequest();
     const request = {
       provider: selectedProvider,
       apiKey: activeKey,
-      metadata,
-      draft: activeDraft.content,
+      metadata: sceneMetadata,
+      draft: activeContent,
       focus: options.focus,
       instruction: options.instruction,
+      format: "json",
+      continuity: continuityNotes,
+      bypassCache,
+      ledger: { kind: "feedback", draftId: activeDraft.id },
       model: selectedModel,
+      signal: controller.signal,
+      ...controlsFor(selectedProvider),
     } as const;
 
     logDebug({
@@ -1076,32 +1831,90 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
     });
 
     try {
-      const response = await requestFeedback(request);
+      const response = await requestSectionedFeedback(request, {
+        mode: sectionByDefault ? "always" : "auto",
+        onSection: (progress) => setFeedbackSections(progress.total > 1 ? progress : null),
+      });
+      const structured = response.sections.length
+        ? mergeSectionFeedback(response.sections, response.content)
+        : parseStructuredFeedback(response.content);
+      if (!structured) {
+        logDebug({
+          level: "info",
+          summary: "Feedback was not valid JSON; showing it as text",
+          payload: { provider: selectedProvider.id, preview: response.content.slice(0, 200) },
+        });
+      }
       const feedback = addFeedback(activeDraft.id, {
-        provider: `${selectedProvider.label} - ${selectedModel}`,
+        provider: `${selectedProvider.label} - ${response.model ?? selectedModel}`,
         focus: options.focus,
         request: options.instruction,
         response: response.content,
+        structured: structured ?? undefined,
+        cached: response.cached,
+        source: generationSource(response, null),
+        sceneId: activeSceneId,
       });
       logDebug({
-        level: "response",
-        summary: `Feedback received (${options.focus})`,
+        level: response.cached ? "cache" : "response",
+        summary: `Feedback received (${options.focus})${response.cached ? " - cache hit" : ""}`,
         payload: {
           provider: selectedProvider.id,
           model: selectedModel,
+          servedModel: response.model,
           feedbackId: feedback.id,
+          issues: structured?.issues.length ?? null,
+          sections: response.sections.length || null,
         },
       });
     } catch (error) {
+      if (isCancellation(error)) {
+        logDebug({ level: "cancelled", summary: `Feedback request cancelled (${options.focus})`, payload: { provider: selectedProvider.id } });
+        return;
+      }
       const message = resolveErrorMessage(error, "Feedback request failed");
       setFeedbackError(message);
       const details = error instanceof AIClientError ? { status: error.status, payload: error.payload } : { error: String(error) };
       logDebug({ level: "error", summary: message, payload: { provider: selectedProvider.id, ...details } });
     } finally {
+      finishRequest(controller);
       setFeedbackLoading(null);
+      setFeedbackSections(null);
     }
   };
 
+  const handleResolveIssue = (thread: FeedbackThread, issue: FeedbackIssue, accept: boolean) => {
+    if (!activeDraft) return;
+    if (!accept) {
+      resolveFeedbackIssue(activeDraft.id, thread.id, issue.id, "rejected");
+      return;
+    }
+    const next = applySuggestion(sceneContent(thread.sceneId), issue);
+    if (next === null) {
+      setFeedbackError("The quoted text is no longer in the draft, so the suggestion cannot be applied.");
+      return;
+    }
+    setFeedbackError(null);
+    resolveFeedbackIssue(
+      activeDraft.id,
+      thread.id,
+      issue.id,
+      "accepted",
+      next,
+      thread.source && {
+        ...thread.source,
+        kind: "suggestion",
+        prompt: thread.request,
+        words: countWords(issue.replacement),
+      }
+    );
+    logDebug({
+      level: "info",
+      summary: `Applied ${issue.severity} ${issue.category} suggestion`,
+      payload: { feedbackId: thread.id, issueId: issue.id, quoteLength: issue.quote.length },
+    });
+  };
+
   const handleFeedbackClick = () => {
     runFeedback({ focus: feedbackFocus, instruction: feedbackInstruction, loadingKey: "general" });
   };
@@ -1141,28 +1954,37 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
             ))}
           </div>
           <div className="studio-provider-credentials">
-            <label className="studio-provider-key">
-              <span>API key</span>
-              <input
-                type="password"
-                value={activeKey}
-                onChange={(event) => setApiKey(selectedProvider.id, event.target.value)}
-                placeholder="Paste your secret key"
-              />
-              <small>
-                Keys stay in your browser. Read provider docs{" "}
-                {selectedProvider.docsUrl && (
-                  <a
-                    href={selectedProvider.docsUrl}
-                    target="_blank"
-                    rel="noreferrer"
-                    aria-label="Open provider documentation"
-                  >
-                    <ExternalLink size={14} aria-hidden="true" />
-                  </a>
-                )}
-              </small>
-            </label>
+            {selectedProvider.id === "mock" ? (
+              <MockProviderSettings />
+            ) : vaultStatus === "locked" ? (
+              <KeyVaultPanel />
+            ) : (
+              <>
+                <label className="studio-provider-key">
+                  <span>API key</span>
+                  <input
+                    type="password"
+                    value={activeKey}
+                    onChange={(event) => setApiKey(selectedProvider.id, event.target.value)}
+                    placeholder="Paste your secret key"
+                  />
+                  <small>
+                    Keys stay in your browser. Read provider docs{" "}
+                    {selectedProvider.docsUrl && (
+                      <a
+                        href={selectedProvider.docsUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        aria-label="Open provider documentation"
+                      >
+                        <ExternalLink size={14} aria-hidden="true" />
+                      </a>
+                    )}
+                  </small>
+                </label>
+                <KeyVaultPanel />
+              </>
+            )}
             {selectedProvider.models.length > 0 && (
               <label className="studio-provider-model">
                 <span>Model</span>
@@ -1176,8 +1998,54 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
                 <small>Switch models if your account lacks access to the default.</small>
               </label>
             )}
+            <label className="studio-provider-model">
+              <span>Parameters</span>
+              <select
+                value={activePreset.id}
+                disabled={!activeDraftId}
+                onChange={(event) => activeDraftId && updateDraft(activeDraftId, { presetId: event.target.value })}
+              >
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+              <small>
+                {describeParams(activePreset.params)}
+                {ignoredParams.length > 0 && ` · ${selectedProvider.label} ignores ${ignoredParams.join(", ").toLowerCase()}`}
+                . Saved per draft; manage presets in Settings.
+              </small>
+            </label>
+            {selectedProvider.connector && (
+              <p className="studio-provider-connector">
+                <small>
+                  {selectedProvider.connector.baseUrl} ·{" "}
+                  {selectedProvider.connector.dialect === "responses" ? "responses" : "chat completions"}
+                </small>
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() => removeCustomProvider(selectedProvider.id)}
+                >
+                  Remove provider
+                </button>
+              </p>
+            )}
+            <CustomProviderForm
+              onRegister={(input) => {
+                const provider = registerCustomProvider(input);
+                selectProvider(provider.id);
+                logDebug({
+                  level: "info",
+                  summary: `Registered custom provider ${provider.label}`,
+                  payload: { provider: provider.id, connector: provider.connector },
+                });
+              }}
+            />
           </div>
         </div>
+        {activeDraft && <ManuscriptNavigator draft={activeDraft} />}
         <StoryMetadataForm metadata={metadata} onChange={setMetadata} />
         <PromptPalettePanel
           currentPrompt={prompt}
@@ -1230,16 +2098,25 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
             </header>
             {providers.map((provider) => {
               const model = modelSelections[provider.id] ?? provider.defaultModel;
-              const cost = estimateGenerationCost(provider.id, tokensFor(metadata));
+              const estimate = costEstimates.get(provider.id);
               return (
                 <div key={provider.id}>
                   <span>{provider.label}</span>
                   <span>{model}</span>
-                  <span>${cost.toFixed(3)}</span>
+                  <span
+                    title={
+                      estimate
+                        ? `${estimate.inputTokens.toLocaleString()} prompt + ${estimate.outputTokens.toLocaleString()} output tokens`
+                        : undefined
+                    }
+                  >
+                    {estimate ? formatCost(estimate.cost) : "—"}
+                  </span>
                 </div>
               );
             })}
           </div>
+          <small className="notice--muted">For the whole draft at its target length, from list prices as of {PRICING_UPDATED}.</small>
         </div>
         <div className="studio-panel">
           <header className="studio-panel__header">
@@ -1248,20 +2125,54 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
               <p>Ensure your keys and models are ready before you generate.</p>
             </div>
           </header>
+          {modelRefreshError && <div className="notice notice--error">{modelRefreshError}</div>}
           <ul className="panel-list">
             {providers.map((provider) => {
+              const needsKey = providerRequiresKey(provider);
               const hasKey = Boolean(apiKeys[provider.id]);
               const currentModel = modelSelections[provider.id] ?? provider.defaultModel;
-              const notes = provider.models.includes(currentModel)
-                ? "Model available"
-                : "Model not in preset list";
+              const catalogue = catalogues[provider.id];
+              const currentStatus = modelStatus(catalogue, currentModel);
+              const notes = !catalogue
+                ? provider.models.includes(currentModel)
+                  ? "Model available"
+                  : "Model not in preset list"
+                : currentStatus === "listed"
+                ? `${currentModel} is listed by the API`
+                : currentStatus === "deprecated"
+                ? `${currentModel} is deprecated; pick a newer model`
+                : `${currentModel} is no longer listed by the API`;
+              const stale = catalogue ? provider.models.filter((model) => modelStatus(catalogue, model) === "stale") : [];
+              const deprecated = catalogue
+                ? provider.models.filter((model) => modelStatus(catalogue, model) === "deprecated")
+                : [];
+              const isRefreshing = refreshingModels === provider.id;
               return (
                 <li key={provider.id}>
                   <div>
                     <strong>{provider.label}</strong>
-                    <small>{hasKey ? "Key stored" : "Key missing"}</small>
+                    <small>{!needsKey ? "No key required" : hasKey ? "Key stored" : "Key missing"}</small>
                   </div>
                   <p>{notes}</p>
+                  <small>
+                    {catalogue
+                      ? `${catalogue.models.length} models listed · refreshed ${describeRelativeTime(new Date(catalogue.fetchedAt))}${
+                          isCatalogueExpired(catalogue) ? " (expired)" : ""
+                        }`
+                      : "Using the built-in model list"}
+                  </small>
+                  {stale.length > 0 && <small className="model-flag model-flag--stale">Stale: {stale.join(", ")}</small>}
+                  {deprecated.length > 0 && (
+                    <small className="model-flag model-flag--deprecated">Deprecated: {deprecated.join(", ")}</small>
+                  )}
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={() => handleRefreshModels(provider, true)}
+                    disabled={isRefreshing || (needsKey && !hasKey)}
+                  >
+                    {isRefreshing ? <Loader2 className="spin" size={14} /> : <RefreshCw size={14} />} Refresh models
+                  </button>
                 </li>
               );
             })}
@@ -1308,6 +2219,13 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
       </section>
 
       <section className="studio-main">
+        {storageWarning && (
+          <div className="notice notice--error" role="alert">
+            {storageWarning}
+          </div>
+        )}
+        <UndoHistoryBar />
+        <RequestQueuePanel />
         <motion.div initial={{ opacity: 0, y: 18 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.04 }}>
           <ModelABExplorerPanel
             metadata={metadata}
@@ -1323,6 +2241,7 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
             onAdopt={handleAdoptVariant}
             error={abError}
             isRunning={isAbRunning}
+            cacheEnabled={cacheEnabled}
           />
         </motion.div>
         <motion.div className="studio-panel" initial={{ opacity: 0, y: 18 }} animate={{ opacity: 1, y: 0 }}>
@@ -1331,9 +2250,43 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
               <h3>Story prompt</h3>
               <p>Explain the scene, stakes, and stylistic anchors for the AI writers.</p>
             </div>
-            <button type="submit" className="primary-button" disabled={isGenerating}>
-              <Wand2 size={18} /> {isGenerating ? "Working..." : "Generate story"}
-            </button>
+            <div className="studio-generate-actions">
+              <button type="submit" className="primary-button" disabled={isGenerating}>
+                <Wand2 size={18} /> {isGenerating ? "Working..." : "Generate story"}
+              </button>
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={() => setShowPromptPreview((value) => !value)}
+                aria-pressed={showPromptPreview}
+                title="Show the prompt the active templates will send"
+              >
+                <Eye size={16} /> {showPromptPreview ? "Hide preview" : "Preview prompt"}
+              </button>
+              <div className="studio-continue">
+                <button
+                  type="button"
+                  className="ghost-button"
+                  disabled={isGenerating || !activeContent.trim()}
+                  onClick={handleContinue}
+                  title="Append the next passage to the current draft, using the prompt as direction"
+                >
+                  <FastForward size={16} /> Continue draft
+                </button>
+                <label>
+                  <input
+                    type="number"
+                    min={50}
+                    max={3000}
+                    step={50}
+                    value={continueWords}
+                    onChange={(event) => setContinueWords(Number(event.target.value) || 0)}
+                    aria-label="Words to add"
+                  />
+                  <small>words</small>
+                </label>
+              </div>
+            </div>
           </header>
           <textarea
             className="studio-textarea"
@@ -1342,6 +2295,17 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
             placeholder="Describe the story you want to tell..."
             rows={10}
           />
+          {showPromptPreview && (
+            <div className="studio-prompt-preview">
+              <p className="notice--muted">
+                Rendered from the active prompt templates. Edit them under <strong>Settings &rsaquo; Prompt templates</strong>.
+              </p>
+              <h4>System</h4>
+              <pre>{composeStorySystemPrompt(sceneMetadata, continuityNotes)}</pre>
+              <h4>User</h4>
+              <pre>{composeStoryUserPrompt(sceneMetadata, prompt, continuityNotes)}</pre>
+            </div>
+          )}
           {storyError && <div className="notice notice--error">{storyError}</div>}
         </motion.div>
 
@@ -1377,12 +2341,29 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
             <div className="studio-feedback-actions">
               <button type="button" className="ghost-button" disabled={feedbackLoading !== null} onClick={handleFeedbackClick}>
                 <MessageSquare size={16} />
-                {feedbackLoading === "general" ? "Analysing..." : "Request feedback"}
+                {feedbackLoading === "general"
+                  ? feedbackSections
+                    ? `Analysing section ${Math.min(feedbackSections.completed + 1, feedbackSections.total)} of ${feedbackSections.total}...`
+                    : "Analysing..."
+                  : "Request feedback"}
               </button>
               <button type="button" className="ghost-button" disabled={feedbackLoading !== null} onClick={handleDialogueEnhance}>
                 <AlignLeft size={16} />
                 {feedbackLoading === "dialogue" ? "Polishing..." : "Improve dialogue"}
               </button>
+              {cacheEnabled && (
+                <label className="cache-toggle" title="Applies to feedback and sensory passes">
+                  <input type="checkbox" checked={bypassCache} onChange={(event) => setBypassCache(event.target.checked)} />
+                  Skip cache
+                </label>
+              )}
+              <label
+                className="cache-toggle"
+                title="Drafts too long for the model are always split. Turn this on to also split drafts that would fit, at scene breaks or every few thousand words."
+              >
+                <input type="checkbox" checked={sectionByDefault} onChange={(event) => setSectionByDefault(event.target.checked)} />
+                Section by section
+              </label>
             </div>
             <p className="studio-feedback-note">Focus: {feedbackInstruction}</p>
             {feedbackError && <div className="notice notice--error">{feedbackError}</div>}
@@ -1393,29 +2374,85 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
           <header className="studio-panel__header">
             <div>
               <h3>Story output</h3>
-              <p>See generations and apply revisions inline.</p>
+              <p>
+                {activeDraft && activeScenePosition && sceneCount(activeDraft.chapters) > 1
+                  ? `Writing ${activeScenePosition.chapter.title} · ${activeScenePosition.scene.title}. Copy and download take the whole manuscript.`
+                  : "See generations and apply revisions inline."}
+              </p>
             </div>
             <div className="studio-output-actions">
-              <button type="button" className="ghost-button" onClick={handleCopy} disabled={!activeContent}>
+              <button type="button" className="ghost-button" onClick={handleCopy} disabled={!manuscript}>
                 <Copy size={16} /> Copy
               </button>
-              <button type="button" className="ghost-button" onClick={handleDownload} disabled={!activeContent}>
+              <button type="button" className="ghost-button" onClick={handleDownload} disabled={!manuscript}>
                 <Download size={16} /> Download
               </button>
             </div>
           </header>
-          <div className="studio-output">
-            {isGenerating ? (
+          {generationStats && (
+            <p className="studio-output__status">
+              {generationStats.streaming && <Loader2 className="spin" size={14} />}
+              {generationStats.streaming
+                ? `Streaming · ~${generationStats.tokens.toLocaleString()} tokens`
+                : `Last generation · ${generationStats.tokens.toLocaleString()} output tokens`}
+              {!generationStats.streaming && generationStats.usage?.inputTokens !== undefined && (
+                <small> · {generationStats.usage.inputTokens.toLocaleString()} prompt tokens</small>
+              )}
+              {generationStats.model && (
+                <small>
+                  {" "}
+                  · served by {generationStats.model}
+                  {generationStats.requestedModel && generationStats.requestedModel !== generationStats.model
+                    ? ` (fell back from ${generationStats.requestedModel})`
+                    : ""}
+                </small>
+              )}
+              {!generationStats.streaming && generationStats.cost && (
+                <small>
+                  {" "}
+                  · est. {formatCost(generationStats.cost.estimated.cost)} · actual{" "}
+                  {generationStats.cost.measured ? "" : "~"}
+                  {formatCost(generationStats.cost.actual.cost)}
+                </small>
+              )}
+            </p>
+          )}
+          {lengthPasses.length > 0 && (
+            <ol className="studio-length-passes">
+              {lengthPasses.map((progress) => (
+                <li key={progress.pass}>
+                  Pass {progress.pass}/{progress.maxPasses} · +{progress.addedWords.toLocaleString()} words ·{" "}
+                  {progress.words.toLocaleString()}/{progress.targetWords.toLocaleString()}
+                  {progress.truncated && <small> · hit token limit</small>}
+                  {progress.repeatedWords > 0 && <small> · dropped {progress.repeatedWords} repeated words</small>}
+                </li>
+              ))}
+            </ol>
+          )}
+          {rewriteError && <div className="notice notice--error">{rewriteError}</div>}
+          {isGenerating && !activeContent ? (
+            <div className="studio-output">
               <Skeleton lines={10} />
-            ) : activeContent ? (
-              <article>
-                <h2>{activeDraft?.metadata.title}</h2>
-                <pre>{activeContent}</pre>
-              </article>
-            ) : (
-              <p className="studio-output__placeholder">Your story will appear here once you generate a draft.</p>
-            )}
-          </div>
+            </div>
+          ) : (
+            <StoryOutputEditor
+              title={activeDraft?.metadata.title ?? ""}
+              content={activeContent}
+              readOnly={!activeDraftId || isGenerating}
+              rewriting={rewriteLoading}
+              proposal={
+                rewriteProposal?.draftId === activeDraftId && rewriteProposal.sceneId === activeSceneId
+                  ? rewriteProposal
+                  : null
+              }
+              onChange={(content) =>
+                activeDraftId && updateDraft(activeDraftId, { content }, { cause: "manual", sceneId: activeSceneId })
+              }
+              onRewrite={handleRewriteSelection}
+              onAccept={handleAcceptRewrite}
+              onReject={handleRejectRewrite}
+            />
+          )}
         </motion.div>
 
         <motion.div className="studio-panel" initial={{ opacity: 0, y: 18 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.22 }}>
@@ -1433,10 +2470,24 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
                     <span className="feedback-thread__provider">
                       <Sparkles size={14} /> {thread.provider}
                     </span>
+                    {thread.cached && (
+                      <span className="cache-badge" title="Served from the response cache">
+                        <Database size={12} /> Cached
+                      </span>
+                    )}
                     <time>{new Date(thread.createdAt).toLocaleTimeString()}</time>
                   </header>
                   <p className="feedback-thread__focus">Focus: {thread.focus.charAt(0).toUpperCase() + thread.focus.slice(1)}</p>
-                  <pre>{thread.response}</pre>
+                  {thread.structured ? (
+                    <FeedbackSuggestionList
+                      feedback={thread.structured}
+                      content={sceneContent(thread.sceneId)}
+                      onAccept={(issue) => handleResolveIssue(thread, issue, true)}
+                      onReject={(issue) => handleResolveIssue(thread, issue, false)}
+                    />
+                  ) : (
+                    <pre>{thread.response}</pre>
+                  )}
                 </article>
               ))}
             </div>
@@ -1450,7 +2501,12 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
               <h3>Sensory passes</h3>
               <p>One-click style passes that keep your original draft intact.</p>
             </div>
-            {sensoryPassLoading && <Loader2 className="spin" size={16} />}
+            {sensoryPassLoading && (
+              <span className="sensory-pass-hint" style={{ display: "inline-flex", alignItems: "center", gap: 6, margin: 0 }}>
+                <Loader2 className="spin" size={16} />
+                {sensoryPassSections && `${sensoryPassSections.completed} of ${sensoryPassSections.total} sections`}
+              </span>
+            )}
           </header>
           <div className="sensory-pass-actions">
             {(Object.keys(SENSORY_PASS_CONFIG) as SensoryPassType[]).map((kind) => {
@@ -1482,8 +2538,16 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
                     <header>
                       <div>
                         <strong>{config.label}</strong>
-                        <small>{config.description}</small>
+                        <small>
+                          {config.description}
+                          {pass.sections ? ` · rewritten in ${pass.sections} sections` : ""}
+                        </small>
                       </div>
+                      {pass.cached && (
+                        <span className="cache-badge" title="Served from the response cache">
+                          <Database size={12} /> Cached
+                        </span>
+                      )}
                       <time>{new Date(pass.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</time>
                     </header>
                     <pre className="sensory-pass-card__body">{pass.response}</pre>
@@ -1492,7 +2556,7 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
                         <Copy size={14} /> Copy
                       </button>
                       <button type="button" className="ghost-button" onClick={() => handleAdoptSensoryPass(pass)}>
-                        <Sparkles size={14} /> Append
+                        <Sparkles size={14} /> Review & adopt
                       </button>
                     </div>
                   </article>
@@ -1546,7 +2610,9 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
                     <strong>{variant.providerLabel}</strong> · {variant.model}
                     <small>
                       {variant.status === "success"
-                        ? `${variant.tokensUsed ?? variant.estimatedTokens} tokens`
+                        ? `${variant.tokensUsed ?? variant.estimatedTokens} tokens${
+                            variant.actualCost !== undefined ? ` · ${formatCost(variant.actualCost)}` : ""
+                          }`
                         : variant.status === "error"
                         ? variant.error ?? "Failed"
                         : "Pending"}
@@ -1580,6 +2646,30 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
             )}
           </div>
         </motion.div>
+        <motion.div className="studio-panel" initial={{ opacity: 0, y: 18 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.43 }}>
+          <header className="studio-panel__header">
+            <div>
+              <h3>Revision history</h3>
+              <p>Every version of the scene's text and what changed it. Compare, label and restore in one click.</p>
+            </div>
+          </header>
+          {activeDraft && activeScene ? (
+            <RevisionHistoryPanel
+              key={activeScene.id}
+              revisions={activeScene.revisions}
+              content={activeScene.content}
+              provenance={provenance}
+              busy={isGenerating}
+              onLabel={(revisionId, label) => labelRevision(activeDraft.id, revisionId, label)}
+              onRestore={(revisionId) => {
+                restoreRevision(activeDraft.id, revisionId);
+                logDebug({ level: "info", summary: "Draft restored from revision history", payload: { revisionId } });
+              }}
+            />
+          ) : (
+            <p className="studio-output__placeholder">Create a draft to start its history.</p>
+          )}
+        </motion.div>
         <motion.div className="studio-panel" initial={{ opacity: 0, y: 18 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.46 }}>
           <header className="studio-panel__header">
             <div>
@@ -1875,11 +2965,25 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
                 onClick={() => selectDraft(draft.id)}
               >
                 <strong>{draft.metadata.title}</strong>
+                {draft.branch && <small>{branchName(draft)}</small>}
                 <span>{new Date(draft.updatedAt ?? draft.generatedAt ?? Date.now()).toLocaleString()}</span>
               </button>
             ))}
           </div>
         </motion.div>
+        <motion.div className="studio-panel" initial={{ opacity: 0, y: 18 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.85 }}>
+          <header className="studio-panel__header">
+            <div>
+              <h3>Branches</h3>
+              <p>Fork the draft to try another storyline, compare branches and merge scenes across.</p>
+            </div>
+          </header>
+          {activeDraft ? (
+            <BranchPanel key={activeDraft.id} draft={activeDraft} busy={isBusy} />
+          ) : (
+            <p className="studio-output__placeholder">Create a draft to start branching.</p>
+          )}
+        </motion.div>
         <motion.div className="studio-panel" initial={{ opacity: 0, y: 18 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.88 }}>
           <header className="studio-panel__header">
             <div>
@@ -1927,11 +3031,16 @@ const continuityWarnings = useMemo<ContinuityWarning[]>(() => {
         <button
           type="button"
           className="ghost-button"
-          disabled={feedbackLoading !== null || !activeDraft?.content}
+          disabled={feedbackLoading !== null || !activeContent}
           onClick={handleFeedbackClick}
         >
           <MessageSquare size={16} /> {feedbackLoading ? "Processing..." : "Feedback"}
         </button>
+        {isBusy && (
+          <button type="button" className="ghost-button" onClick={handleStop}>
+            <Square size={16} /> Stop
+          </button>
+        )}
       </div>
     </form>
   );
@@ -13,3 +13,63 @@ export function generateId(prefix = "id"): string {
   }
   return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
 }
+
+/** Ciphertext plus everything except the passphrase needed to decrypt it. Safe to persist. */
+export interface EncryptedPayload {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export const PBKDF2_ITERATIONS = 310000;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+export function randomSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/** PBKDF2-SHA-256 stretches the passphrase into a non-extractable AES-GCM key. */
+export async function deriveEncryptionKey(passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", textEncoder.encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptJson(key: CryptoKey, salt: string, iterations: number, value: unknown): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, textEncoder.encode(JSON.stringify(value)));
+  return { version: 1, iterations, salt, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/** Rejects when the key is wrong: AES-GCM authentication fails instead of yielding garbage. */
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
@@ -0,0 +1,29 @@
+const SECRET_FIELD = /^(api[-_]?keys?|authorization|x-api-key|x-goog-api-key|passphrase|password|secret)$/i;
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{8,}/g, "[redacted]"],
+  [/\bAIza[0-9A-Za-z_-]{20,}/g, "[redacted]"],
+  [/\bBearer\s+[^\s"']+/gi, "Bearer [redacted]"],
+  [/([?&]key=)[^&\s"']+/g, "$1[redacted]"],
+];
+
+export function redactText(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Deep-copies `value` with secret-looking fields blanked and key-shaped strings
+ * masked. Used on everything that leaves the key vault's control: debug
+ * payloads and data exports.
+ */
+export function redactSecrets<T>(value: T, depth = 0): T {
+  if (typeof value === "string") return redactText(value) as T;
+  if (!value || typeof value !== "object" || depth > 8) return value;
+  if (Array.isArray(value)) return value.map((item) => redactSecrets(item, depth + 1)) as T;
+  if (value instanceof Error) return redactText(value.message) as T;
+  const result: Record<string, unknown> = {};
+  for (const [field, entry] of Object.entries(value as Record<string, unknown>)) {
+    result[field] = SECRET_FIELD.test(field) && entry ? "[redacted]" : redactSecrets(entry, depth + 1);
+  }
+  return result as T;
+}
@@ -2,17 +2,30 @@ import { defineConfig, type ProxyOptions } from "vite";
 import react from "@vitejs/plugin-react";
 
 const proxyConfig: Record<string, ProxyOptions> = {
-  "/__dreamscribe/openai": {
+  // Model-list routes come first: Vite matches proxy keys by prefix, in order.
+  "/__dreamscribe/openai-models": {
     target: "https://api.openai.com",
     changeOrigin: true,
     secure: true,
-    rewrite: (path) => path.replace(/^\/__dreamscribe\/openai/, "/v1/responses"),
+    rewrite: (path) => path.replace(/^\/__dreamscribe\/openai-models/, "/v1/models"),
   },
-  "/__dreamscribe/openai-models": {
+  "/__dreamscribe/anthropic-models": {
+    target: "https://api.anthropic.com",
+    changeOrigin: true,
+    secure: true,
+    rewrite: (path) => path.replace(/^\/__dreamscribe\/anthropic-models/, "/v1/models"),
+  },
+  "/__dreamscribe/deepseek-models": {
+    target: "https://api.deepseek.com",
+    changeOrigin: true,
+    secure: true,
+    rewrite: (path) => path.replace(/^\/__dreamscribe\/deepseek-models/, "/models"),
+  },
+  "/__dreamscribe/openai": {
     target: "https://api.openai.com",
     changeOrigin: true,
     secure: true,
-    rewrite: (path) => path.replace(/^\/__dreamscribe\/openai-models/, "/v1/models"),
+    rewrite: (path) => path.replace(/^\/__dreamscribe\/openai/, "/v1/responses"),
   },
   "/__dreamscribe/anthropic": {
     target: "https://api.anthropic.com",